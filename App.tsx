@@ -1,269 +1,722 @@
-import React, { useState, useEffect } from 'react';
-import { Memory, Language } from './types';
-import { analyzeMemory, generateMemoryImage } from './services/geminiService';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Memory, Language, TagDefinition, DiarySettings, ArtStyleId, Recap, RecapPeriod, ArtistAlias } from './types';
+import { translator, MessageKey, LANGUAGES, LANGUAGE_NAMES, LOCALE_TAGS } from './i18n';
+import { configureAi } from './services/aiService';
+import { configureMetadata } from './services/metadataService';
+import { queueAnalysis, queueReanalysis, targetLanguage, queueArtwork, retryAnalysis, clearPending, hasAnalysis, runAnalysis, applyOutcome, isDue, nextAttemptAt, PENDING_ANALYSIS } from './services/analysisQueue';
+import { loadMemories, saveMemories as persistMemories, loadRecaps, saveRecap, deleteRecap, isQuotaError, isLockEnabled, unlockDiary, lockDiary, enableLock, changePassphrase, disableLock, DiaryLockedError, openProfile, deleteProfileData, DEFAULT_PROFILE_ID } from './services/storageService';
+import { loadProfiles, saveProfiles, createProfile, sendToProfile, ProfileList } from './services/profileService';
+import { createBackup, createEncryptedBackup, backupFileName, isEncryptedBackup, decryptBackup, parseBackup, planImport, applyImport, BackupError, ImportPlan, ConflictResolution } from './services/backupService';
+import { reviseMemory, restoreRevision, MemoryEdit } from './services/revisionService';
+import { EMOTION_TAGS, tagLabel, tagLabels, activeTags, mergeTags } from './services/tagService';
+import { DEFAULT_SETTINGS, loadSettings, saveSettings, loadTags, saveTags, loadAliases, saveAliases } from './services/settingsService';
+import { normalizeSong, mergeArtists } from './services/catalogService';
+import { selectPersonalExamples } from './services/feedbackService';
+import { filterMemories, collectTags, EMPTY_FILTER, MemoryFilter } from './services/filterService';
+import { selectCover } from './services/artworkService';
+import { needsTranslation, cachedTranslation, addTranslation, translateMemory } from './services/translationService';
+import { generateRecap } from './services/recapService';
+import { HistorySubject } from './services/songHistoryService';
+import { memoriesOnThisDay } from './services/calendarService';
+import { computeStreak } from './services/streakService';
+import { nextReminderAt, showReminder } from './services/reminderService';
+import { getTodayString, parseDateInput } from './utils/date';
+import { downloadBlob } from './utils/download';
 import MemoryCard from './components/MemoryCard';
-import { Sparkles, LayoutGrid, Calendar as CalendarIcon, PenLine, Loader2, Music, ChevronLeft, ChevronRight, BookHeart, History, Activity, Tag, Sun, CloudRain, RotateCcw, Globe } from 'lucide-react';
-
-const STORAGE_KEY = 'music_diary_data_v1';
-
-type ViewMode = 'list' | 'calendar';
-
-interface TagDefinition {
-  id: string;
-  label: { ja: string; en: string };
-}
-
-// Universal emotion tags with IDs and translations
-const EMOTION_TAGS: TagDefinition[] = [
-  { id: 'relax', label: { ja: "リラックス", en: "Relax" } },
-  { id: 'focus', label: { ja: "集中", en: "Focus" } },
-  { id: 'blue', label: { ja: "憂鬱", en: "Blue" } },
-  { id: 'excited', label: { ja: "ワクワク", en: "Excited" } },
-  { id: 'nostalgic', label: { ja: "懐かしい", en: "Nostalgic" } },
-  { id: 'determined', label: { ja: "決意", en: "Determined" } },
-  { id: 'tired', label: { ja: "疲れた", en: "Tired" } },
-  { id: 'grateful', label: { ja: "感謝", en: "Grateful" } },
-  { id: 'angry', label: { ja: "怒り", en: "Angry" } },
-  { id: 'calm', label: { ja: "穏やか", en: "Calm" } },
-  { id: 'lonely', label: { ja: "孤独", en: "Lonely" } },
-  { id: 'accomplished', label: { ja: "達成感", en: "Accomplished" } }
-];
-
-const UI_TEXT = {
-  subtitle: { ja: "音楽と感情のライフログ", en: "Life log of music & emotions" },
-  titleRecord: { ja: "思い出の曲を記録する", en: "Record a Memory Song" },
-  descRecord: { ja: "心が動いた瞬間と、その時の音楽を残しておきましょう。", en: "Capture the moment your heart moved, along with the music." },
-  labelDate: { ja: "日付", en: "Date" },
-  labelMusic: { ja: "楽曲情報", en: "Music Info" },
-  labelMood: { ja: "感情バロメーター", en: "Emotion Barometer" },
-  labelTags: { ja: "キーワード", en: "Keywords" },
-  labelDiary: { ja: "日記・メモ", en: "Diary Note" },
-  placeholderSong: { ja: "曲名", en: "Song Title" },
-  placeholderArtist: { ja: "アーティスト名", en: "Artist Name" },
-  placeholderDiary: { ja: "今の気持ちや出来事を書き留めましょう（任意）", en: "Write down your feelings or what happened (optional)..." },
-  btnReset: { ja: "入力をリセットしますか？", en: "Reset input?" },
-  btnSave: { ja: "思い出を保存", en: "Save Memory" },
-  analyzing: { ja: "分析中...", en: "Analyzing..." },
-  stepAnalyzing: { ja: "音楽と感情を分析しています...", en: "Analyzing music and emotions..." },
-  stepImage: { ja: "イメージを生成しています...", en: "Generating visual..." },
-  timeline: { ja: "マイ・タイムライン", en: "My Timeline" },
-  emptyTitle: { ja: "記録はまだありません", en: "No memories yet" },
-  emptyDesc: { ja: "最初の1曲を記録してみましょう", en: "Let's record your first song." },
-  errorMsg: { ja: "エラーが発生しました。しばらくしてから再度お試しください。", en: "An error occurred. Please try again later." },
-  quiet: { ja: "静 / 冷", en: "Quiet / Cool" },
-  active: { ja: "動 / 温", en: "Active / Warm" },
-};
+import ImportPreview from './components/ImportPreview';
+import FilterBar from './components/FilterBar';
+import InsightsView from './components/InsightsView';
+import CalendarView from './components/CalendarView';
+import SettingsPanel from './components/SettingsPanel';
+import RecapPanel from './components/RecapPanel';
+import PlaylistMenu from './components/PlaylistMenu';
+import SongAutocomplete from './components/SongAutocomplete';
+import ShareCardDialog from './components/ShareCardDialog';
+import SongHistoryPanel from './components/SongHistoryPanel';
+import MoodRecommendations from './components/MoodRecommendations';
+import MoodPicker from './components/MoodPicker';
+import LockScreen from './components/LockScreen';
+import PassphraseDialog from './components/PassphraseDialog';
+import ProfileMenu from './components/ProfileMenu';
+import ProfileTransferMenu from './components/ProfileTransferMenu';
+import OnThisDay from './components/OnThisDay';
+import { Sparkles, LayoutGrid, Calendar as CalendarIcon, PenLine, Loader2, Music, BookHeart, History, Activity, Tag, RotateCcw, Globe, AlertTriangle, X, Download, Upload, ChartLine, Settings, Languages, Lock, FileLock, Flame } from 'lucide-react';
 
-const getTodayString = () => {
-  const d = new Date();
-  const year = d.getFullYear();
-  const month = (d.getMonth() + 1).toString().padStart(2, '0');
-  const day = d.getDate().toString().padStart(2, '0');
-  return `${year}-${month}-${day}`;
-};
+type ViewMode = 'list' | 'calendar' | 'insights';
+
+// Encrypted export picks a passphrase; encrypted import holds the file until one is entered
+type PassphrasePrompt = { mode: 'export' } | { mode: 'import'; text: string };
+
+// How often inactivity is checked against the auto-lock setting
+const AUTO_LOCK_CHECK_MS = 15_000;
 
 const App: React.FC = () => {
   const [memories, setMemories] = useState<Memory[]>([]);
-  const [language, setLanguage] = useState<Language>('ja');
+  const [tags, setTags] = useState<TagDefinition[]>(EMOTION_TAGS);
+  const [settings, setSettings] = useState<DiarySettings>(DEFAULT_SETTINGS);
+  const { language } = settings;
+  const [showSettings, setShowSettings] = useState(false);
+  const [recaps, setRecaps] = useState<Recap[]>([]);
+  const [aliases, setAliases] = useState<ArtistAlias[]>([]);
+  const [shareId, setShareId] = useState<string | null>(null);
+  const [recapTarget, setRecapTarget] = useState<{ period: RecapPeriod; date: Date } | null>(null);
+  const [historySubject, setHistorySubject] = useState<HistorySubject | null>(null);
+  const [lockEnabled, setLockEnabled] = useState(false);
+  const [locked, setLocked] = useState(false);
+  const [passphrasePrompt, setPassphrasePrompt] = useState<PassphrasePrompt | null>(null);
+  const [profiles, setProfiles] = useState<ProfileList>({ profiles: [], activeId: DEFAULT_PROFILE_ID });
+  const lastActivity = useRef(Date.now());
   
   // Inputs
   const [recordDate, setRecordDate] = useState(getTodayString());
   const [diaryText, setDiaryText] = useState('');
   const [songTitle, setSongTitle] = useState('');
   const [artistName, setArtistName] = useState('');
-  const [moodScore, setMoodScore] = useState(0); // -50 to 50
+  const [trackUrl, setTrackUrl] = useState('');
+  const [moodScore, setMoodScore] = useState(0); // valence, -50 to 50
+  const [energy, setEnergy] = useState(0); // -50 to 50
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
 
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [loadingStep, setLoadingStep] = useState<string>('');
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<MessageKey<'app'> | null>(null);
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const recordFormRef = useRef<HTMLElement>(null);
+  const [analyzingId, setAnalyzingId] = useState<string | null>(null);
+  // By memory id, for the current language; finished translations live on the memory
+  const [translationStatus, setTranslationStatus] = useState<Record<string, 'translating' | 'failed'>>({});
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  // Latest memories for the analysis queue, which outlives any one render
+  const memoriesRef = useRef<Memory[]>([]);
+  // Bumped whenever the open diary goes away (lock, profile switch), so work
+  // that awaited the network can tell its memories are gone
+  const sessionRef = useRef(0);
+  // False until the memories are loaded; nothing is written before that,
+  // since a save replaces the whole stored list
+  const diaryOpenRef = useRef(false);
+  // The session whose analysis loop is running, if any
+  const queueSession = useRef<number | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [currentDate, setCurrentDate] = useState(new Date());
+  const [filter, setFilter] = useState<MemoryFilter>(EMPTY_FILTER);
+
+  const filteredMemories = useMemo(() => filterMemories(memories, filter), [memories, filter]);
+  const shareMemory = shareId ? memories.find(m => m.id === shareId) : undefined;
+  const filterTags = useMemo(() => collectTags(memories), [memories]);
+  // Keyed on the date too, so the first render after midnight moves on
+  const today = getTodayString();
+  const onThisDay = useMemo(() => memoriesOnThisDay(memories, parseDateInput(today)), [memories, today]);
+  const streak = useMemo(() => computeStreak(memories, parseDateInput(today)), [memories, today]);
+
+  const t = translator(language, 'app');
+  const ts = translator(language, 'streak');
+  const tpl = translator(language, 'playlist');
+
+  // Translating and recommending new songs need a real model
+  const aiAvailable = settings.ai.provider !== 'offline' && isOnline;
 
-  const t = (key: keyof typeof UI_TEXT) => UI_TEXT[key][language];
+  // Named after the date range when there is one, otherwise the export date
+  const playlistTitle = filter.dateFrom && filter.dateTo
+    ? tpl('titleRange', { from: filter.dateFrom, to: filter.dateTo })
+    : filter.dateFrom
+      ? tpl('titleFrom', { from: filter.dateFrom })
+      : filter.dateTo
+        ? tpl('titleUntil', { to: filter.dateTo })
+        : tpl('title', { date: today });
+
+  const loadDiary = async () => {
+    const [savedMemories, savedRecaps] = await Promise.all([loadMemories(), loadRecaps()]);
+    setMemories(savedMemories);
+    memoriesRef.current = savedMemories;
+    setRecaps(savedRecaps);
+    diaryOpenRef.current = true;
+  };
+
+  // Settings stay in the clear, so the lock screen can speak the user's language
+  const openDiary = async (profileId: string) => {
+    await openProfile(profileId);
+    const [savedTags, savedSettings, savedAliases, savedLock] = await Promise.all([loadTags(), loadSettings(), loadAliases(), isLockEnabled()]);
+    setTags(savedTags);
+    setSettings(savedSettings);
+    setAliases(savedAliases);
+    setLockEnabled(savedLock);
+    setLocked(savedLock);
+    if (!savedLock) await loadDiary();
+  };
 
   useEffect(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      try {
-        setMemories(JSON.parse(saved));
-      } catch (e) {
+    loadProfiles()
+      .then(async (savedProfiles) => {
+        setProfiles(savedProfiles);
+        await openDiary(savedProfiles.activeId);
+      })
+      .catch((e) => {
         console.error("Failed to load memories", e);
-      }
-    }
+        setStorageError('errorLoad');
+      })
+      .finally(() => setIsLoaded(true));
   }, []);
 
+  useEffect(() => {
+    configureAi(settings.ai);
+  }, [settings.ai]);
+
+  // Lets the browser pick the right CJK glyphs and voice for the text
+  useEffect(() => {
+    document.documentElement.lang = LOCALE_TAGS[language];
+  }, [language]);
+
+  useEffect(() => {
+    configureMetadata(settings.metadata);
+  }, [settings.metadata]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // Without a service worker this only fires while a tab is open. Skipped
+  // once today has a memory; while the diary is locked or still loading the
+  // memories aren't known, so the plain reminder goes out without a streak.
+  useEffect(() => {
+    if (!settings.reminder.enabled) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const schedule = () => {
+      timer = setTimeout(() => {
+        if (!diaryOpenRef.current) {
+          showReminder(language, 0);
+        } else {
+          const current = computeStreak(memoriesRef.current);
+          if (!current.recordedToday) showReminder(language, current.current);
+        }
+        schedule();
+      }, nextReminderAt(settings.reminder.time).getTime() - Date.now());
+    };
+    schedule();
+    return () => clearTimeout(timer);
+  }, [settings.reminder, language]);
+
+  const reportSaveError = (e: unknown) => {
+    // A write that lands after locking is refused on purpose; anything still
+    // pending is picked up again once the diary is reloaded
+    if (e instanceof DiaryLockedError) return;
+    console.error("Failed to save", e);
+    setStorageError(isQuotaError(e) ? 'errorQuota' : 'errorStorage');
+  };
+
   const saveMemories = (newMemories: Memory[]) => {
+    if (!diaryOpenRef.current) return;
     setMemories(newMemories);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(newMemories));
+    memoriesRef.current = newMemories;
+    persistMemories(newMemories)
+      .then(() => setStorageError(null))
+      .catch(reportSaveError);
   };
 
-  const deleteMemory = (id: string) => {
-    const updatedMemories = memories.filter(m => m.id !== id);
-    saveMemories(updatedMemories);
+  const updateTags = (newTags: TagDefinition[]) => {
+    setTags(newTags);
+    saveTags(newTags).catch(reportSaveError);
   };
 
-  const handleReset = () => {
-    if (window.confirm(t('btnReset'))) {
-        setDiaryText('');
-        setSongTitle('');
-        setArtistName('');
-        setMoodScore(0);
-        setSelectedTags([]);
-        setRecordDate(getTodayString());
+  const updateAliases = (newAliases: ArtistAlias[]) => {
+    setAliases(newAliases);
+    saveAliases(newAliases).catch(reportSaveError);
+  };
+
+  const handleMergeArtists = (names: string[], canonical: string) => {
+    const merged = mergeArtists(memories, aliases, names, canonical);
+    saveMemories(merged.memories);
+    updateAliases(merged.aliases);
+  };
+
+  const updateSettings = (newSettings: DiarySettings) => {
+    setSettings(newSettings);
+    saveSettings(newSettings).catch(reportSaveError);
+  };
+
+  const clearForm = () => {
+    setRecordDate(getTodayString());
+    setDiaryText('');
+    setSongTitle('');
+    setArtistName('');
+    setTrackUrl('');
+    setMoodScore(0);
+    setEnergy(0);
+    setSelectedTags([]);
+  };
+
+  // Drops everything decrypted, including drafts and open dialogs that show
+  // diary text
+  const closeDiary = () => {
+    sessionRef.current++;
+    diaryOpenRef.current = false;
+    setAnalyzingId(null);
+    setMemories([]);
+    memoriesRef.current = [];
+    setRecaps([]);
+    setTranslationStatus({});
+    setShareId(null);
+    setRecapTarget(null);
+    setHistorySubject(null);
+    setShowSettings(false);
+    setImportPlan(null);
+    setPassphrasePrompt(null);
+    setFilter(EMPTY_FILTER);
+    clearForm();
+  };
+
+  const lockNow = () => {
+    lockDiary();
+    closeDiary();
+    setLocked(true);
+  };
+
+  const handleUnlock = async (passphrase: string): Promise<boolean> => {
+    if (!(await unlockDiary(passphrase))) return false;
+    try {
+      await loadDiary();
+      setStorageError(null);
+    } catch (e) {
+      console.error("Failed to load memories", e);
+      setStorageError('errorLoad');
     }
+    lastActivity.current = Date.now();
+    setLocked(false);
+    return true;
   };
 
-  const toggleTag = (tagLabel: string) => {
-    if (selectedTags.includes(tagLabel)) {
-      setSelectedTags(selectedTags.filter(t => t !== tagLabel));
-    } else {
-      if (selectedTags.length < 3) {
-        setSelectedTags([...selectedTags, tagLabel]);
+  const updateProfiles = (next: ProfileList) => {
+    setProfiles(next);
+    saveProfiles(next).catch(reportSaveError);
+  };
+
+  // The list is passed in when it has just changed and not been rendered yet
+  const switchProfile = async (profileId: string, list: ProfileList = profiles) => {
+    closeDiary();
+    updateProfiles({ ...list, activeId: profileId });
+    setIsLoaded(false);
+    try {
+      await openDiary(profileId);
+      setStorageError(null);
+    } catch (e) {
+      console.error("Failed to load memories", e);
+      setStorageError('errorLoad');
+    } finally {
+      setIsLoaded(true);
+    }
+  };
+
+  const addProfile = (name: string) => {
+    const profile = createProfile(name);
+    switchProfile(profile.id, { ...profiles, profiles: [...profiles.profiles, profile] });
+  };
+
+  const renameProfile = (id: string, name: string) => {
+    updateProfiles({ ...profiles, profiles: profiles.profiles.map(p => p.id === id ? { ...p, name: name.trim() } : p) });
+  };
+
+  // Resolves false when that profile is locked and the passphrase is missing or wrong
+  const removeProfile = async (id: string, passphrase?: string): Promise<boolean> => {
+    try {
+      if (!(await deleteProfileData(id, passphrase))) return false;
+      updateProfiles({ ...profiles, profiles: profiles.profiles.filter(p => p.id !== id) });
+    } catch (e) {
+      reportSaveError(e);
+    }
+    return true;
+  };
+
+  // Copies or moves the memories the filter shows. If the diary was closed
+  // meanwhile, a move is left as a copy rather than touching another profile.
+  const transferMemories = async (targetId: string, move: boolean, passphrase?: string): Promise<boolean> => {
+    const session = sessionRef.current;
+    const selection = filteredMemories;
+    if (!(await sendToProfile(selection, targetId, tags, passphrase))) return false;
+    if (move && session === sessionRef.current) {
+      const ids = new Set(selection.map(m => m.id));
+      saveMemories(memoriesRef.current.filter(m => !ids.has(m.id)));
+    }
+    return true;
+  };
+
+  const handleEnableLock = async (passphrase: string) => {
+    await enableLock(passphrase);
+    setLockEnabled(true);
+  };
+
+  const handleDisableLock = async (current: string): Promise<boolean> => {
+    const disabled = await disableLock(current);
+    if (disabled) setLockEnabled(false);
+    return disabled;
+  };
+
+  // Any input counts as activity. Checked now and then rather than timed
+  // exactly, since a background tab's timers run late anyway.
+  useEffect(() => {
+    if (!lockEnabled || locked || settings.autoLockMinutes <= 0) return;
+    lastActivity.current = Date.now();
+    const markActive = () => { lastActivity.current = Date.now(); };
+    const events = ['pointerdown', 'keydown', 'wheel', 'touchstart'];
+    events.forEach(name => window.addEventListener(name, markActive, { passive: true }));
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivity.current >= settings.autoLockMinutes * 60_000) lockNow();
+    }, AUTO_LOCK_CHECK_MS);
+    return () => {
+      events.forEach(name => window.removeEventListener(name, markActive));
+      clearInterval(timer);
+    };
+  }, [lockEnabled, locked, settings.autoLockMinutes]);
+
+  // Newest period first, like loadRecaps
+  const storeRecaps = (added: Recap[]) => {
+    const ids = new Set(added.map(recap => recap.id));
+    setRecaps(prev => [...prev.filter(recap => !ids.has(recap.id)), ...added].sort((a, b) => b.start - a.start));
+    added.forEach(recap => saveRecap(recap).catch(reportSaveError));
+  };
+
+  // Rejects when the letter could not be written so the panel can say so.
+  // Dropped if the diary was closed while it was being written.
+  const writeRecap = async (period: RecapPeriod, date: Date) => {
+    const session = sessionRef.current;
+    const recap = await generateRecap(memories, period, date, language, tags);
+    if (session === sessionRef.current) storeRecaps([recap]);
+  };
+
+  const removeRecap = (id: string) => {
+    setRecaps(prev => prev.filter(recap => recap.id !== id));
+    deleteRecap(id).catch(reportSaveError);
+  };
+
+  const labelFor = (id: string) => tagLabel(id, language, tags);
+
+  // Works through due analyses one at a time, re-reading the memories after
+  // each request since the user may have changed them in the meantime. Stops
+  // when the diary is closed; the memory stays queued in storage.
+  const processQueue = async () => {
+    const session = sessionRef.current;
+    if (queueSession.current === session) return;
+    queueSession.current = session;
+    try {
+      let memory: Memory | undefined;
+      while ((memory = memoriesRef.current.find(m => isDue(m, Date.now())))) {
+        const { id, pending } = memory;
+        setAnalyzingId(id);
+        const outcome = await runAnalysis(memory, {
+          language,
+          tags,
+          examples: selectPersonalExamples(memoriesRef.current, targetLanguage(memory, language), tags, id),
+        });
+        if (session !== sessionRef.current) return;
+        saveMemories(memoriesRef.current.map(m => m.id === id ? applyOutcome(m, pending!, outcome) : m));
+      }
+    } finally {
+      if (queueSession.current === session) {
+        queueSession.current = null;
+        setAnalyzingId(null);
       }
     }
   };
 
-  const handleAnalyze = async () => {
-    if (!songTitle.trim() || !artistName.trim()) return;
+  // Sleeps until the next queued analysis is due; network providers wait
+  // for the connection to come back
+  useEffect(() => {
+    if (!isLoaded || (!isOnline && settings.ai.provider !== 'offline')) return;
+    const due = nextAttemptAt(memories);
+    if (due === null) return;
+    const timer = setTimeout(processQueue, Math.max(0, due - Date.now()));
+    return () => clearTimeout(timer);
+  }, [memories, isLoaded, isOnline, settings.ai]);
 
-    setIsAnalyzing(true);
-    setLoadingStep(t('stepAnalyzing'));
+  // Failures are per language, so a switch gives every memory a fresh try
+  useEffect(() => {
+    setTranslationStatus({});
+  }, [language]);
 
+  const translateAnalysisOf = async (id: string) => {
+    const memory = memoriesRef.current.find(m => m.id === id);
+    if (!memory) return;
+    const session = sessionRef.current;
+    setTranslationStatus(prev => ({ ...prev, [id]: 'translating' }));
     try {
-      const [year, month, day] = recordDate.split('-').map(Number);
-      const targetDate = new Date(year, month - 1, day);
-
-      const analysis = await analyzeMemory(
-        diaryText, 
-        { title: songTitle, artist: artistName },
-        moodScore,
-        selectedTags,
-        targetDate,
-        language
-      );
-      
-      setLoadingStep(t('stepImage'));
-      const imageUrl = await generateMemoryImage(analysis.imagePrompt);
-
-      const newMemory: Memory = {
-        id: Date.now().toString(),
-        content: diaryText,
-        moodScore,
-        moodTags: selectedTags,
-        timestamp: targetDate.getTime(),
-        song: {
-          title: songTitle,
-          artist: artistName
-        },
-        analysis: analysis,
-        imageUrl: imageUrl,
-        userFeedback: null,
-        language: language
-      };
-
-      const updatedMemories = [newMemory, ...memories].sort((a, b) => b.timestamp - a.timestamp);
-
-      saveMemories(updatedMemories);
-      
-      setRecordDate(getTodayString());
-      setDiaryText('');
-      setSongTitle('');
-      setArtistName('');
-      setMoodScore(0);
-      setSelectedTags([]);
+      const translation = await translateMemory(memory, language);
+      if (session !== sessionRef.current) return;
+      saveMemories(memoriesRef.current.map(m => m.id === id ? addTranslation(m, memory.analysis, language, translation) : m));
+      setTranslationStatus(({ [id]: _, ...rest }) => rest);
+    } catch (e) {
+      console.error(`Failed to translate memory ${id}:`, e);
+      if (session !== sessionRef.current) return;
+      setTranslationStatus(prev => ({ ...prev, [id]: 'failed' }));
+    }
+  };
+
+  // Auto mode works through the memories the filter shows, one at a time,
+  // and leaves failed ones for the card's retry button
+  useEffect(() => {
+    if (!settings.autoTranslate || !aiAvailable) return;
+    if (Object.values(translationStatus).includes('translating')) return;
+    const next = filteredMemories.find(m =>
+      hasAnalysis(m) && needsTranslation(m, language) && !cachedTranslation(m, language) && !translationStatus[m.id]
+    );
+    if (next) translateAnalysisOf(next.id);
+  }, [filteredMemories, language, settings.autoTranslate, aiAvailable, translationStatus]);
+
+  const handleExport = async () => {
+    try {
+      downloadBlob(await createBackup(memories, tags, recaps), backupFileName());
+    } catch (e) {
+      console.error("Failed to export backup", e);
+      setStorageError('errorExport');
+    }
+  };
+
+  const exportEncrypted = async (passphrase: string): Promise<boolean> => {
+    try {
+      downloadBlob(await createEncryptedBackup(memories, tags, recaps, passphrase), backupFileName(new Date(), true));
+    } catch (e) {
+      console.error("Failed to export backup", e);
+      setStorageError('errorExport');
+    }
+    setPassphrasePrompt(null);
+    return true;
+  };
+
+  const reportImportError = (error: unknown) => {
+    console.error("Failed to read backup", error);
+    setStorageError(error instanceof BackupError && error.reason === 'newer' ? 'errorImportNewer' : 'errorImportFormat');
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const session = sessionRef.current;
+    try {
+      const text = await file.text();
+      if (session !== sessionRef.current) return;
+      if (isEncryptedBackup(text)) {
+        setPassphrasePrompt({ mode: 'import', text });
+        return;
+      }
+      const plan = await planImport(memories, tags, recaps, parseBackup(text));
+      if (session === sessionRef.current) setImportPlan(plan);
     } catch (error) {
-      console.error(error);
-      alert(t('errorMsg'));
-    } finally {
-      setIsAnalyzing(false);
-      setLoadingStep('');
+      reportImportError(error);
     }
   };
 
-  const handleFeedback = (id: string, isCorrect: boolean) => {
-    const updatedMemories = memories.map(m => {
-      if (m.id === id) {
-        return { ...m, userFeedback: isCorrect ? 'correct' : 'incorrect' as const };
+  // A wrong passphrase keeps the dialog open for another try
+  const importEncrypted = async (passphrase: string): Promise<boolean> => {
+    if (passphrasePrompt?.mode !== 'import') return true;
+    const session = sessionRef.current;
+    try {
+      const backup = parseBackup(await decryptBackup(passphrasePrompt.text, passphrase));
+      const plan = await planImport(memories, tags, recaps, backup);
+      if (session === sessionRef.current) setImportPlan(plan);
+    } catch (error) {
+      if (error instanceof BackupError && error.reason === 'passphrase') return false;
+      reportImportError(error);
+    }
+    setPassphrasePrompt(null);
+    return true;
+  };
+
+  const confirmImport = (resolution: ConflictResolution) => {
+    if (!importPlan) return;
+    saveMemories(applyImport(memories, importPlan, resolution));
+    if (importPlan.newTags.length > 0) {
+      updateTags(mergeTags(tags, importPlan.newTags));
+    }
+    if (importPlan.newRecaps.length > 0) {
+      storeRecaps(importPlan.newRecaps);
+    }
+    setImportPlan(null);
+  };
+
+  const deleteMemory = (id: string) => {
+    const updatedMemories = memories.filter(m => m.id !== id);
+    saveMemories(updatedMemories);
+  };
+
+  const handleReset = () => {
+    if (window.confirm(t('btnReset'))) clearForm();
+  };
+
+  const toggleTag = (tagId: string) => {
+    if (selectedTags.includes(tagId)) {
+      setSelectedTags(selectedTags.filter(t => t !== tagId));
+    } else {
+      if (selectedTags.length < settings.maxTags) {
+        setSelectedTags([...selectedTags, tagId]);
       }
-      return m;
+    }
+  };
+
+  // Saved straight away; the queue fills in the analysis and artwork
+  const handleAnalyze = () => {
+    if (!songTitle.trim() || !artistName.trim() || !isLoaded) return;
+
+    const newMemory: Memory = queueAnalysis({
+      id: Date.now().toString(),
+      content: diaryText,
+      moodScore,
+      energy,
+      moodTags: selectedTags,
+      timestamp: parseDateInput(recordDate).getTime(),
+      song: normalizeSong({
+        title: songTitle,
+        artist: artistName,
+        ...(trackUrl.trim() && { trackUrl: trackUrl.trim() }),
+      }, aliases),
+      analysis: PENDING_ANALYSIS,
+      userFeedback: null,
+      language: language
+    }, ['analysis', 'image']);
+
+    const updatedMemories = [newMemory, ...memories].sort((a, b) => b.timestamp - a.timestamp);
+
+    saveMemories(updatedMemories);
+    clearForm();
+  };
+
+  // Re-analysis is queued; the current analysis stays until a new one arrives.
+  // The user's feedback and correction were about the old entry, so both go
+  const updateMemory = (id: string, edit: MemoryEdit, reanalyze: boolean) => {
+    const memory = memories.find(m => m.id === id);
+    if (!memory) return;
+
+    const revised = reviseMemory(memory, {
+      ...edit,
+      song: normalizeSong(edit.song, aliases),
+      analysis: memory.analysis,
+      imageUrl: memory.imageUrl,
+      language: memory.language,
     });
+    const updated = reanalyze
+      ? queueReanalysis({ ...revised, userFeedback: null, userCorrection: undefined }, ['analysis', 'image'], language)
+      : revised;
+
+    const updatedMemories = memories
+      .map(m => m.id === id ? updated : m)
+      .sort((a, b) => b.timestamp - a.timestamp);
+    saveMemories(updatedMemories);
+  };
+
+  // A restored version brings its own analysis, so any queued work is dropped
+  // unless that version never got one
+  const restoreMemory = (id: string, editedAt: number) => {
+    const updatedMemories = memories
+      .map(m => {
+        if (m.id !== id) return m;
+        const restored = restoreRevision(m, editedAt);
+        return hasAnalysis(restored) ? clearPending(restored) : queueAnalysis(restored, ['analysis', 'image']);
+      })
+      .sort((a, b) => b.timestamp - a.timestamp);
     saveMemories(updatedMemories);
   };
 
-  // Calendar Helpers
-  const getDaysInMonth = (date: Date) => {
-    return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  const retryMemory = (id: string) => {
+    saveMemories(memories.map(m => m.id === id ? retryAnalysis(m) : m));
   };
 
-  const getFirstDayOfMonth = (date: Date) => {
-    return new Date(date.getFullYear(), date.getMonth(), 1).getDay();
+  const regenerateArt = (id: string, prompt: string, style: ArtStyleId) => {
+    saveMemories(memories.map(m => m.id === id ? queueArtwork(m, prompt, style) : m));
   };
 
-  const changeMonth = (offset: number) => {
-    const newDate = new Date(currentDate.setMonth(currentDate.getMonth() + offset));
-    setCurrentDate(new Date(newDate));
+  const selectMemoryCover = (id: string, url: string) => {
+    saveMemories(memories.map(m => m.id === id ? selectCover(m, url) : m));
   };
 
-  const getMemoriesForDate = (day: number) => {
-    return memories.filter(m => {
-      const mDate = new Date(m.timestamp);
-      return mDate.getDate() === day && 
-             mDate.getMonth() === currentDate.getMonth() && 
-             mDate.getFullYear() === currentDate.getFullYear();
+  // New feedback replaces an earlier correction; a fresh one arrives through correctMemory
+  const handleFeedback = (id: string, isCorrect: boolean) => {
+    const updatedMemories = memories.map(m => {
+      if (m.id === id) {
+        return { ...m, userFeedback: isCorrect ? 'correct' : 'incorrect' as const, userCorrection: undefined };
+      }
+      return m;
     });
+    saveMemories(updatedMemories);
   };
 
-  const renderCalendar = () => {
-    const daysInMonth = getDaysInMonth(currentDate);
-    const firstDay = getFirstDayOfMonth(currentDate);
-    const days = [];
+  // Re-analyzes with what the user says they actually felt; the rejected
+  // analysis stays in the revision history
+  const correctMemory = (id: string, correction: string) => {
+    const memory = memories.find(m => m.id === id);
+    if (!memory) return;
 
-    // Empty cells
-    for (let i = 0; i < firstDay; i++) {
-      days.push(<div key={`empty-${i}`} className="h-28 bg-stone-50 border border-stone-100"></div>);
-    }
+    const updated: Memory = queueReanalysis({
+      ...reviseMemory(memory, {
+        content: memory.content,
+        moodScore: memory.moodScore,
+        energy: memory.energy,
+        moodTags: memory.moodTags,
+        timestamp: memory.timestamp,
+        song: memory.song,
+        analysis: memory.analysis,
+        imageUrl: memory.imageUrl,
+        language: memory.language,
+      }),
+      userCorrection: correction,
+      userFeedback: null,
+    }, ['analysis'], language);
+    saveMemories(memories.map(m => m.id === id ? updated : m));
+  };
 
-    // Days
-    for (let day = 1; day <= daysInMonth; day++) {
-      const dayMemories = getMemoriesForDate(day);
-      const checkDate = new Date(currentDate.getFullYear(), currentDate.getMonth(), day);
-      const isToday = new Date().toDateString() === checkDate.toDateString();
-
-      days.push(
-        <div key={day} className={`h-28 border border-stone-100 p-1 relative group hover:bg-white transition-colors ${isToday ? 'bg-white shadow-inner' : 'bg-stone-50/50'}`}>
-          <span className={`absolute top-2 left-2 w-6 h-6 flex items-center justify-center text-xs rounded-full z-10 font-medium ${isToday ? 'bg-orange-500 text-white' : 'text-stone-400'}`}>
-            {day}
-          </span>
-          
-          <div className="w-full h-full pt-8 grid grid-cols-2 gap-1 content-start overflow-y-auto custom-scrollbar">
-            {dayMemories.map((m) => (
-              <div 
-                key={m.id} 
-                className="aspect-square rounded-md overflow-hidden relative cursor-pointer group/item shadow-sm border border-stone-100"
-                title={`${m.song.title} - ${m.analysis.inferredEmotion}`}
-              >
-                {m.imageUrl ? (
-                  <img src={m.imageUrl} alt="art" className="w-full h-full object-cover grayscale-[0.2] group-hover/item:grayscale-0 transition-all" />
-                ) : (
-                  <div className="w-full h-full bg-stone-100 flex items-center justify-center">
-                    <Music size={12} className="text-stone-300" />
-                  </div>
-                )}
-                 <div 
-                   className="absolute inset-0 opacity-0 group-hover/item:opacity-100 transition-opacity flex items-center justify-center p-1 bg-black/60 backdrop-blur-[1px]"
-                 >
-                   <p className="text-[9px] text-white text-center leading-tight font-medium">{m.analysis.inferredEmotion}</p>
-                </div>
-              </div>
-            ))}
-          </div>
-        </div>
-      );
-    }
+  // From "On this day": today's memory, starting from that song
+  const recordAgain = (memory: Memory) => {
+    setRecordDate(getTodayString());
+    setSongTitle(memory.song.title);
+    setArtistName(memory.song.artist);
+    setTrackUrl(memory.song.trackUrl ?? '');
+    recordFormRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
 
-    return days;
+  // Backfilling from the calendar: jump to the form with the day filled in
+  const recordForDay = (date: string) => {
+    setRecordDate(date);
+    recordFormRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
   };
 
+  const renderMemoryCard = (memory: Memory) => (
+    <MemoryCard
+      memory={memory}
+      language={language}
+      availableTags={tags}
+      maxTags={settings.maxTags}
+      streaming={settings.streaming}
+      onFeedback={handleFeedback}
+      onCorrect={correctMemory}
+      onDelete={deleteMemory}
+      onUpdate={updateMemory}
+      onRestore={restoreMemory}
+      onRetry={retryMemory}
+      onRegenerateArt={regenerateArt}
+      onSelectCover={selectMemoryCover}
+      onShare={setShareId}
+      onOpenHistory={setHistorySubject}
+      onTranslate={aiAvailable ? translateAnalysisOf : undefined}
+      isAnalyzing={analyzingId === memory.id}
+      translationStatus={translationStatus[memory.id]}
+    />
+  );
+
+  if (locked) {
+    return (
+      <LockScreen
+        key={profiles.activeId}
+        language={language}
+        onUnlock={handleUnlock}
+        profiles={profiles.profiles}
+        activeId={profiles.activeId}
+        onSwitchProfile={switchProfile}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen text-stone-700 selection:bg-orange-100 selection:text-orange-900 pb-20 font-sans">
       
@@ -282,29 +735,66 @@ const App: React.FC = () => {
             <div className="hidden md:block text-xs font-medium text-stone-500">
               {t('subtitle')}
             </div>
+            <ProfileMenu
+              profiles={profiles.profiles}
+              activeId={profiles.activeId}
+              language={language}
+              disabled={!isLoaded}
+              onSwitch={switchProfile}
+              onCreate={addProfile}
+              onRename={renameProfile}
+              onDelete={removeProfile}
+            />
+            {lockEnabled && (
+              <button
+                onClick={lockNow}
+                className="p-2 rounded-full text-stone-400 hover:text-stone-700 hover:bg-stone-100 transition-colors"
+                title={t('lockNow')}
+              >
+                <Lock size={16} />
+              </button>
+            )}
+            <button
+              onClick={() => setShowSettings(true)}
+              className="p-2 rounded-full text-stone-400 hover:text-stone-700 hover:bg-stone-100 transition-colors"
+              title={t('settings')}
+            >
+              <Settings size={16} />
+            </button>
             {/* Language Switch */}
-            <div className="flex items-center bg-stone-100 rounded-full p-1 border border-stone-200">
-                <button 
-                    onClick={() => setLanguage('ja')}
-                    className={`px-3 py-1 rounded-full text-[10px] font-bold transition-all ${language === 'ja' ? 'bg-white shadow-sm text-stone-800' : 'text-stone-400 hover:text-stone-600'}`}
-                >
-                    JP
-                </button>
-                <button 
-                    onClick={() => setLanguage('en')}
-                    className={`px-3 py-1 rounded-full text-[10px] font-bold transition-all ${language === 'en' ? 'bg-white shadow-sm text-stone-800' : 'text-stone-400 hover:text-stone-600'}`}
-                >
-                    EN
-                </button>
-            </div>
+            <label className="flex items-center gap-1.5 bg-stone-100 rounded-full pl-3 pr-1 py-1 border border-stone-200 text-stone-400" title={t('language')}>
+              <Languages size={12} />
+              <select
+                value={language}
+                onChange={(e) => updateSettings({ ...settings, language: e.target.value as Language })}
+                className="bg-transparent text-[10px] font-bold text-stone-700 outline-none cursor-pointer pr-1"
+              >
+                {LANGUAGES.map(value => (
+                  <option key={value} value={value}>{LANGUAGE_NAMES[value]}</option>
+                ))}
+              </select>
+            </label>
           </div>
         </div>
       </header>
 
+      {/* Storage Error Banner */}
+      {storageError && (
+        <div className="max-w-4xl mx-auto px-6 pt-6 animate-fade-in">
+          <div className="flex items-start gap-3 px-5 py-4 bg-rose-50 border border-rose-100 rounded-2xl text-rose-700 text-xs font-medium">
+            <AlertTriangle size={16} className="shrink-0 text-rose-400" />
+            <span className="flex-grow leading-relaxed">{t(storageError)}</span>
+            <button onClick={() => setStorageError(null)} className="text-rose-300 hover:text-rose-500 transition-colors">
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
       <main className="max-w-4xl mx-auto px-6 py-10">
         
         {/* Input Section */}
-        <section className="mb-16">
+        <section ref={recordFormRef} className="mb-16 scroll-mt-8">
           <div className="text-center mb-10">
             <h2 className="text-2xl font-medium text-stone-800 mb-3">
               {t('titleRecord')}
@@ -312,6 +802,14 @@ const App: React.FC = () => {
             <p className="text-stone-500 text-sm">
               {t('descRecord')}
             </p>
+            {isLoaded && (
+              <p className="mt-4 inline-flex items-center gap-2 px-3 py-1 rounded-full bg-white border border-stone-100 shadow-sm text-[10px] font-bold text-stone-500">
+                <Flame size={12} className={streak.current > 0 ? 'text-orange-500' : 'text-stone-300'} />
+                {streak.current > 0 ? ts('current', { count: streak.current }) : ts('start')}
+                {streak.current > 0 && <span className="font-medium text-stone-400">· {ts(streak.recordedToday ? 'doneToday' : 'keepGoing')}</span>}
+                {streak.longest > streak.current && <span className="font-medium text-stone-400">· {ts('longest', { count: streak.longest })}</span>}
+              </p>
+            )}
           </div>
 
           <div className="bg-white rounded-3xl border border-stone-100 shadow-xl shadow-stone-200/50 overflow-hidden relative">
@@ -342,79 +840,89 @@ const App: React.FC = () => {
                       <Music size={14} className="text-orange-400" /> {t('labelMusic')}
                   </label>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
-                      <div className="group">
-                          <input 
-                            type="text" 
-                            placeholder={t('placeholderSong')}
-                            value={songTitle}
-                            onChange={(e) => setSongTitle(e.target.value)}
-                            className="w-full bg-stone-50 border border-stone-200 text-stone-800 placeholder-stone-400 px-5 py-3.5 rounded-xl outline-none focus:bg-white focus:border-orange-300 focus:ring-4 focus:ring-orange-50 transition-all text-sm group-hover:bg-stone-50/80"
-                          />
-                      </div>
-                      <div className="group">
-                          <input 
-                            type="text" 
-                            placeholder={t('placeholderArtist')}
-                            value={artistName}
-                            onChange={(e) => setArtistName(e.target.value)}
-                            className="w-full bg-stone-50 border border-stone-200 text-stone-800 placeholder-stone-400 px-5 py-3.5 rounded-xl outline-none focus:bg-white focus:border-orange-300 focus:ring-4 focus:ring-orange-50 transition-all text-sm group-hover:bg-stone-50/80"
+                      <SongAutocomplete
+                        song={{ title: songTitle, artist: artistName }}
+                        memories={memories}
+                        aliases={aliases}
+                        language={language}
+                        placeholders={{ title: t('placeholderSong'), artist: t('placeholderArtist') }}
+                        inputClassName="w-full bg-stone-50 border border-stone-200 text-stone-800 placeholder-stone-400 px-5 py-3.5 rounded-xl outline-none focus:bg-white focus:border-orange-300 focus:ring-4 focus:ring-orange-50 transition-all text-sm group-hover:bg-stone-50/80"
+                        onChange={(song) => {
+                          setSongTitle(song.title);
+                          setArtistName(song.artist);
+                        }}
+                      />
+                      <div className="group md:col-span-2">
+                          <input
+                            type="text"
+                            placeholder={t('placeholderTrack')}
+                            value={trackUrl}
+                            onChange={(e) => setTrackUrl(e.target.value)}
+                            className="w-full bg-stone-50 border border-stone-200 text-stone-800 placeholder-stone-400 px-5 py-2.5 rounded-xl outline-none focus:bg-white focus:border-orange-300 focus:ring-4 focus:ring-orange-50 transition-all text-xs group-hover:bg-stone-50/80"
                           />
                       </div>
                   </div>
                 </div>
               </div>
 
-              {/* Mood Slider */}
+              {/* Mood */}
               <div className="space-y-4">
                 <label className="text-xs font-bold text-stone-400 uppercase tracking-wider flex items-center gap-2 mb-1">
                     <Activity size={14} className="text-orange-400" /> {t('labelMood')}
                 </label>
                 <div className="bg-stone-50/50 rounded-2xl p-6 border border-stone-100">
-                  <div className="relative h-12 flex items-center">
-                    <CloudRain className="absolute left-0 text-indigo-300 w-5 h-5" />
-                    <Sun className="absolute right-0 text-orange-400 w-5 h-5" />
-                    
-                    <input 
-                        type="range" 
-                        min="-50" 
-                        max="50" 
-                        value={moodScore} 
-                        onChange={(e) => setMoodScore(parseInt(e.target.value))}
-                        className="w-full h-2 rounded-full appearance-none cursor-pointer bg-gradient-to-r from-indigo-100 via-stone-200 to-orange-100 mx-8 accent-orange-500"
-                    />
-                  </div>
-                  <div className="flex justify-between text-xs font-medium text-stone-400 px-8">
-                    <span>{t('quiet')}</span>
-                    <span>{t('active')}</span>
-                  </div>
+                  <MoodPicker
+                    valence={moodScore}
+                    energy={energy}
+                    onChange={(valence, nextEnergy) => { setMoodScore(valence); setEnergy(nextEnergy); }}
+                    language={language}
+                  />
                 </div>
               </div>
 
               {/* Emotion Tags */}
               <div className="space-y-4">
                 <label className="text-xs font-bold text-stone-400 uppercase tracking-wider flex items-center gap-2 mb-1">
-                    <Tag size={14} className="text-orange-400" /> {t('labelTags')} <span className="text-[10px] text-stone-300 font-normal ml-auto">(max 3)</span>
+                    <Tag size={14} className="text-orange-400" /> {t('labelTags')} <span className="text-[10px] text-stone-300 font-normal ml-auto">{t('maxTags', { count: settings.maxTags })}</span>
                 </label>
                 <div className="flex flex-wrap gap-2">
-                  {EMOTION_TAGS.map(tagDef => {
-                    const tagLabel = tagDef.label[language];
+                  {activeTags(tags).map(tagDef => {
+                    const label = tagLabel(tagDef.id, language, tags);
                     return (
                         <button
                         key={tagDef.id}
-                        onClick={() => toggleTag(tagLabel)}
+                        onClick={() => toggleTag(tagDef.id)}
                         className={`px-4 py-2 rounded-full text-xs font-medium transition-all duration-200 border ${
-                            selectedTags.includes(tagLabel)
+                            selectedTags.includes(tagDef.id)
                             ? 'bg-stone-700 text-white border-stone-700 shadow-md shadow-stone-200 transform scale-105'
                             : 'bg-white text-stone-600 border-stone-200 hover:border-orange-200 hover:bg-orange-50'
                         }`}
                         >
-                        {tagLabel}
+                        {tagDef.color && <span className="inline-block w-1.5 h-1.5 rounded-full mr-1.5 align-middle" style={{ backgroundColor: tagDef.color }} />}
+                        {label}
                         </button>
                     )
                   })}
                 </div>
               </div>
 
+              {(moodScore !== 0 || energy !== 0 || selectedTags.length > 0) && (
+                <MoodRecommendations
+                  memories={memories}
+                  moodScore={moodScore}
+                  energy={energy}
+                  selectedTags={selectedTags}
+                  tags={tags}
+                  language={language}
+                  canAskAi={aiAvailable}
+                  onPick={(song) => {
+                    setSongTitle(song.title);
+                    setArtistName(song.artist);
+                    setTrackUrl(song.trackUrl ?? '');
+                  }}
+                />
+              )}
+
               {/* Diary Input */}
               <div className="space-y-4">
                 <label className="text-xs font-bold text-stone-400 uppercase tracking-wider flex items-center gap-2 mb-1">
@@ -425,56 +933,37 @@ const App: React.FC = () => {
                   onChange={(e) => setDiaryText(e.target.value)}
                   placeholder={t('placeholderDiary')}
                   className="w-full bg-stone-50 border border-stone-200 text-stone-700 placeholder-stone-400 p-5 rounded-xl min-h-[120px] outline-none resize-none text-sm focus:bg-white focus:border-orange-300 focus:ring-4 focus:ring-orange-50 transition-all leading-relaxed"
-                  disabled={isAnalyzing}
                 />
               </div>
               
               <div className="pt-4 flex items-center gap-3">
                  <button
                    onClick={handleReset}
-                   disabled={isAnalyzing}
                    className="px-6 py-4 rounded-xl font-bold text-sm text-stone-500 bg-stone-100 hover:bg-stone-200 hover:text-stone-700 transition-colors flex items-center gap-2 disabled:opacity-50"
-                   title="Reset"
+                   title={t('reset')}
                  >
                    <RotateCcw size={16} />
                  </button>
                 <button
                   onClick={handleAnalyze}
-                  disabled={!songTitle.trim() || !artistName.trim() || isAnalyzing}
+                  disabled={!songTitle.trim() || !artistName.trim() || !isLoaded}
                   className={`
                     flex-grow flex items-center justify-center gap-3 px-8 py-4 rounded-xl font-bold text-sm transition-all duration-300
-                    ${(!songTitle.trim() || !artistName.trim() || isAnalyzing)
+                    ${(!songTitle.trim() || !artistName.trim() || !isLoaded)
                       ? 'bg-stone-100 text-stone-300 cursor-not-allowed' 
                       : 'bg-gradient-to-r from-orange-400 to-rose-400 text-white hover:shadow-lg hover:shadow-orange-200 hover:-translate-y-0.5'}
                   `}
                 >
-                  {isAnalyzing ? (
-                    <>
-                      <Loader2 size={18} className="animate-spin" />
-                      <span>{t('analyzing')}</span>
-                    </>
-                  ) : (
-                    <>
-                      <Sparkles size={18} className="text-white" />
-                      <span>{t('btnSave')}</span>
-                    </>
-                  )}
+                  <Sparkles size={18} className="text-white" />
+                  <span>{t('btnSave')}</span>
                 </button>
               </div>
             </div>
           </div>
-          
-          {/* Progress Indicator */}
-          {isAnalyzing && (
-             <div className="mt-8 text-center animate-fade-in">
-               <div className="inline-flex items-center gap-3 px-6 py-3 bg-white rounded-full shadow-md shadow-stone-100 border border-stone-100 text-stone-600 text-xs font-medium">
-                 <Loader2 className="animate-spin w-4 h-4 text-orange-400" />
-                 <span>{loadingStep}</span>
-               </div>
-             </div>
-          )}
         </section>
 
+        {isLoaded && <OnThisDay memories={onThisDay} language={language} onRecordAgain={recordAgain} />}
+
         {/* View Toggle */}
         <div className="flex flex-col sm:flex-row items-center justify-between mb-8 pb-6 gap-4 border-b border-stone-200">
           <div className="flex items-center gap-3">
@@ -484,6 +973,41 @@ const App: React.FC = () => {
             <h3 className="text-lg font-bold text-stone-700">
               {t('timeline')}
             </h3>
+            <div className="flex items-center gap-1 ml-2">
+              <button
+                onClick={handleExport}
+                disabled={!isLoaded || memories.length === 0}
+                className="px-3 py-1.5 rounded-lg text-[10px] font-bold flex items-center gap-1.5 text-stone-400 hover:text-stone-700 hover:bg-white transition-all disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <Download size={12} />
+                <span>{t('exportBackup')}</span>
+              </button>
+              <button
+                onClick={() => setPassphrasePrompt({ mode: 'export' })}
+                disabled={!isLoaded || memories.length === 0}
+                className="px-3 py-1.5 rounded-lg text-[10px] font-bold flex items-center gap-1.5 text-stone-400 hover:text-stone-700 hover:bg-white transition-all disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <FileLock size={12} />
+                <span>{t('exportEncrypted')}</span>
+              </button>
+              <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={!isLoaded}
+                className="px-3 py-1.5 rounded-lg text-[10px] font-bold flex items-center gap-1.5 text-stone-400 hover:text-stone-700 hover:bg-white transition-all disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <Upload size={12} />
+                <span>{t('importBackup')}</span>
+              </button>
+              <PlaylistMenu memories={filteredMemories} title={playlistTitle} language={language} />
+              <ProfileTransferMenu
+                memories={filteredMemories}
+                profiles={profiles.profiles}
+                activeId={profiles.activeId}
+                language={language}
+                onTransfer={transferMemories}
+              />
+              <input ref={importInputRef} type="file" accept="application/json,.json" onChange={handleImportFile} className="hidden" />
+            </div>
           </div>
           <div className="flex bg-stone-200/50 p-1.5 rounded-xl">
             <button
@@ -491,21 +1015,45 @@ const App: React.FC = () => {
               className={`px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 transition-all ${viewMode === 'list' ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`}
             >
               <LayoutGrid size={14} />
-              <span>List</span>
+              <span>{t('viewList')}</span>
             </button>
             <button
               onClick={() => setViewMode('calendar')}
               className={`px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 transition-all ${viewMode === 'calendar' ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`}
             >
               <CalendarIcon size={14} />
-              <span>Calendar</span>
+              <span>{t('viewCalendar')}</span>
+            </button>
+            <button
+              onClick={() => setViewMode('insights')}
+              className={`px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 transition-all ${viewMode === 'insights' ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`}
+            >
+              <ChartLine size={14} />
+              <span>{t('viewInsights')}</span>
             </button>
           </div>
         </div>
 
+        {isLoaded && memories.length > 0 && (
+          <FilterBar
+            filter={filter}
+            language={language}
+            availableTags={filterTags}
+            tagLabel={labelFor}
+            matchCount={filteredMemories.length}
+            totalCount={memories.length}
+            onChange={setFilter}
+          />
+        )}
+
         {/* Content Area */}
         <section>
-          {memories.length === 0 ? (
+          {!isLoaded ? (
+            <div className="flex items-center justify-center gap-3 py-24 text-stone-400 text-xs font-medium">
+              <Loader2 className="animate-spin w-4 h-4 text-orange-400" />
+              <span>{t('loading')}</span>
+            </div>
+          ) : memories.length === 0 ? (
             <div className="text-center py-24 bg-white/50 rounded-3xl border border-dashed border-stone-200">
               <div className="w-16 h-16 bg-white rounded-2xl flex items-center justify-center mx-auto mb-4 shadow-sm border border-stone-100">
                 <Music className="text-stone-300 w-8 h-8" />
@@ -515,52 +1063,110 @@ const App: React.FC = () => {
             </div>
           ) : (
             <>
-              {viewMode === 'list' ? (
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-                  {memories.map((memory) => (
-                    <div key={memory.id} className="h-full">
-                      <MemoryCard memory={memory} language={language} onFeedback={handleFeedback} onDelete={deleteMemory} />
-                    </div>
-                  ))}
-                </div>
-              ) : (
-                <div className="bg-white rounded-3xl shadow-sm border border-stone-100 overflow-hidden">
-                  {/* Calendar Header */}
-                  <div className="flex items-center justify-between px-8 py-6 border-b border-stone-100">
-                    <button onClick={() => changeMonth(-1)} className="p-2 hover:bg-stone-50 rounded-full transition-colors text-stone-500">
-                      <ChevronLeft size={20} />
-                    </button>
-                    <h2 className="text-xl font-bold text-stone-700 tracking-wide">
-                      {currentDate.toLocaleDateString(language === 'ja' ? 'ja-JP' : 'en-US', { year: 'numeric', month: 'long' })}
-                    </h2>
-                    <button onClick={() => changeMonth(1)} className="p-2 hover:bg-stone-50 rounded-full transition-colors text-stone-500">
-                      <ChevronRight size={20} />
-                    </button>
-                  </div>
-                  
-                  {/* Calendar Grid Header */}
-                  <div className="grid grid-cols-7 border-b border-stone-100 bg-stone-50/50">
-                    {(language === 'ja' 
-                        ? ['日', '月', '火', '水', '木', '金', '土'] 
-                        : ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
-                     ).map((day, i) => (
-                      <div key={day} className={`py-4 text-center text-[10px] font-bold tracking-widest ${i === 0 ? 'text-rose-400' : i === 6 ? 'text-sky-400' : 'text-stone-400'}`}>
-                        {day}
+              {viewMode === 'insights' ? (
+                <InsightsView memories={filteredMemories} language={language} tagLabel={labelFor} />
+              ) : viewMode === 'list' ? (
+                filteredMemories.length === 0 ? (
+                  <p className="text-center py-16 text-stone-400 text-xs">{t('noMatches')}</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                    {filteredMemories.map((memory) => (
+                      <div key={memory.id} className="h-full">
+                        {renderMemoryCard(memory)}
                       </div>
                     ))}
                   </div>
-
-                  {/* Calendar Grid Body */}
-                  <div className="grid grid-cols-7 bg-stone-100 gap-px border-b border-stone-100">
-                    {renderCalendar()}
-                  </div>
-                </div>
+                )
+              ) : (
+                <CalendarView
+                  memories={filteredMemories}
+                  language={language}
+                  month={currentDate}
+                  onChangeMonth={setCurrentDate}
+                  renderMemory={renderMemoryCard}
+                  onRecordForDay={recordForDay}
+                  recaps={recaps}
+                  onOpenRecap={(period, date) => setRecapTarget({ period, date })}
+                />
               )}
             </>
           )}
         </section>
 
       </main>
+
+      {importPlan && (
+        <ImportPreview
+          plan={importPlan}
+          language={language}
+          onConfirm={confirmImport}
+          onCancel={() => setImportPlan(null)}
+        />
+      )}
+
+      {passphrasePrompt && (
+        <PassphraseDialog
+          key={passphrasePrompt.mode}
+          language={language}
+          mode={passphrasePrompt.mode}
+          onSubmit={passphrasePrompt.mode === 'export' ? exportEncrypted : importEncrypted}
+          onCancel={() => setPassphrasePrompt(null)}
+        />
+      )}
+
+      {shareMemory && (
+        <ShareCardDialog
+          memory={shareMemory}
+          language={language}
+          onClose={() => setShareId(null)}
+        />
+      )}
+
+      {recapTarget && (
+        <RecapPanel
+          period={recapTarget.period}
+          date={recapTarget.date}
+          memories={memories}
+          recaps={recaps}
+          language={language}
+          tagLabel={labelFor}
+          onNavigate={(period, date) => setRecapTarget({ period, date })}
+          onGenerate={writeRecap}
+          onDelete={removeRecap}
+          onClose={() => setRecapTarget(null)}
+        />
+      )}
+
+      {historySubject && (
+        <SongHistoryPanel
+          subject={historySubject}
+          memories={memories}
+          tags={tags}
+          language={language}
+          onNavigate={setHistorySubject}
+          onClose={() => setHistorySubject(null)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsPanel
+          language={language}
+          settings={settings}
+          tags={tags}
+          memories={memories}
+          aliases={aliases}
+          onChangeSettings={updateSettings}
+          onChangeTags={updateTags}
+          onChangeAliases={updateAliases}
+          onMergeArtists={handleMergeArtists}
+          lockEnabled={lockEnabled}
+          onEnableLock={handleEnableLock}
+          onChangePassphrase={changePassphrase}
+          onDisableLock={handleDisableLock}
+          onLockNow={lockNow}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
     </div>
   );
 };
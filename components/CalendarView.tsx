@@ -0,0 +1,276 @@
+import React, { useMemo, useState } from 'react';
+import { Memory, Language, Recap, RecapPeriod } from '../types';
+import { translator, LOCALE_TAGS, weekdayNames } from '../i18n';
+import { groupByDay, dayTint, DayShading } from '../services/calendarService';
+import { recapId } from '../services/recapService';
+import { toDateInputValue, getTodayString, parseDateInput } from '../utils/date';
+import { ChevronLeft, ChevronRight, Music, X, PenLine, Image as ImageIcon, Gauge, Droplet, CalendarDays, Grid3x3, BookOpen } from 'lucide-react';
+
+interface CalendarViewProps {
+  memories: Memory[];
+  language: Language;
+  month: Date; // any day in the month shown
+  onChangeMonth: (month: Date) => void;
+  renderMemory: (memory: Memory) => React.ReactNode;
+  onRecordForDay: (date: string) => void; // YYYY-MM-DD
+  recaps: Recap[];
+  onOpenRecap: (period: RecapPeriod, date: Date) => void;
+}
+
+type CalendarScope = 'month' | 'year';
+
+const CalendarView: React.FC<CalendarViewProps> = ({ memories, language, month, onChangeMonth, renderMemory, onRecordForDay, recaps, onOpenRecap }) => {
+  const [scope, setScope] = useState<CalendarScope>('month');
+  const [shading, setShading] = useState<DayShading>('art');
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const t = translator(language, 'calendar');
+  const locale = LOCALE_TAGS[language];
+
+  const byDay = useMemo(() => groupByDay(memories), [memories]);
+  const memoriesOn = (key: string) => byDay.get(key) ?? [];
+  const todayKey = getTodayString();
+
+  const year = month.getFullYear();
+  const monthIndex = month.getMonth();
+  const hasRecap = recaps.some(recap => recap.id === recapId(scope, month));
+
+  const showMonth = (target: Date) => {
+    setSelectedDay(null);
+    onChangeMonth(new Date(target.getFullYear(), target.getMonth(), 1));
+  };
+
+  const step = (offset: number) => {
+    if (scope === 'year') {
+      showMonth(new Date(year + offset, monthIndex, 1));
+    } else {
+      showMonth(new Date(year, monthIndex + offset, 1));
+    }
+  };
+
+  // Year view drills down: a month label opens the month, a day opens it too
+  const openDay = (key: string) => {
+    const date = parseDateInput(key);
+    onChangeMonth(new Date(date.getFullYear(), date.getMonth(), 1));
+    setScope('month');
+    setSelectedDay(key);
+  };
+
+  const segmentClass = (active: boolean) =>
+    `px-2.5 py-1.5 rounded-lg text-[10px] font-bold flex items-center gap-1 transition-all ${active ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`;
+
+  const renderMonth = () => {
+    const daysInMonth = new Date(year, monthIndex + 1, 0).getDate();
+    const firstDay = new Date(year, monthIndex, 1).getDay();
+    const days = [];
+
+    // Empty cells
+    for (let i = 0; i < firstDay; i++) {
+      days.push(<div key={`empty-${i}`} className="h-28 bg-stone-50 border border-stone-100"></div>);
+    }
+
+    // Days
+    for (let day = 1; day <= daysInMonth; day++) {
+      const key = toDateInputValue(new Date(year, monthIndex, day));
+      const dayMemories = memoriesOn(key);
+      const isToday = key === todayKey;
+      const isSelected = key === selectedDay;
+      const tint = dayTint(dayMemories, shading);
+
+      days.push(
+        <div
+          key={day}
+          onClick={() => setSelectedDay(isSelected ? null : key)}
+          className={`h-28 border p-1 relative group cursor-pointer hover:bg-white transition-colors ${isSelected ? 'border-orange-300 ring-2 ring-inset ring-orange-200' : 'border-stone-100'} ${isToday ? 'bg-white shadow-inner' : 'bg-stone-50/50'}`}
+          style={tint ? { backgroundColor: tint } : undefined}
+        >
+          <span className={`absolute top-2 left-2 w-6 h-6 flex items-center justify-center text-xs rounded-full z-10 font-medium ${isToday ? 'bg-orange-500 text-white' : tint ? 'text-stone-700' : 'text-stone-400'}`}>
+            {day}
+          </span>
+
+          {tint ? (
+            dayMemories.length > 0 && (
+              <span className="absolute bottom-2 right-2 text-[10px] font-bold text-stone-700/70">
+                {dayMemories.length}
+              </span>
+            )
+          ) : (
+            <div className="w-full h-full pt-8 grid grid-cols-2 gap-1 content-start overflow-y-auto custom-scrollbar">
+              {dayMemories.map((m) => (
+                <div
+                  key={m.id}
+                  className="aspect-square rounded-md overflow-hidden relative cursor-pointer group/item shadow-sm border border-stone-100"
+                  title={`${m.song.title} - ${m.analysis.inferredEmotion}`}
+                >
+                  {m.imageUrl ? (
+                    <img src={m.imageUrl} alt="art" className="w-full h-full object-cover grayscale-[0.2] group-hover/item:grayscale-0 transition-all" />
+                  ) : (
+                    <div className="w-full h-full bg-stone-100 flex items-center justify-center">
+                      <Music size={12} className="text-stone-300" />
+                    </div>
+                  )}
+                   <div
+                     className="absolute inset-0 opacity-0 group-hover/item:opacity-100 transition-opacity flex items-center justify-center p-1 bg-black/60 backdrop-blur-[1px]"
+                   >
+                     <p className="text-[9px] text-white text-center leading-tight font-medium">{m.analysis.inferredEmotion}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    return days;
+  };
+
+  // Year in pixels: one row per month, one cell per day
+  const renderYear = () => (
+    <div className="p-6 overflow-x-auto">
+      <div className="min-w-[640px] space-y-1">
+        {Array.from({ length: 12 }, (_, m) => {
+          const daysInMonth = new Date(year, m + 1, 0).getDate();
+          return (
+            <div key={m} className="flex items-center gap-1">
+              <button
+                onClick={() => { showMonth(new Date(year, m, 1)); setScope('month'); }}
+                className="w-12 shrink-0 text-left text-[10px] font-bold text-stone-400 hover:text-orange-500 transition-colors"
+              >
+                {new Date(year, m, 1).toLocaleDateString(locale, { month: 'short' })}
+              </button>
+              {Array.from({ length: 31 }, (_, d) => {
+                if (d >= daysInMonth) return <div key={d} className="flex-1 aspect-square" />;
+                const key = toDateInputValue(new Date(year, m, d + 1));
+                const dayMemories = memoriesOn(key);
+                // Thumbnails don't fit in a pixel; art mode shows the colors
+                const tint = dayTint(dayMemories, shading === 'art' ? 'color' : shading);
+                return (
+                  <button
+                    key={d}
+                    onClick={() => openDay(key)}
+                    title={`${parseDateInput(key).toLocaleDateString(locale, { month: 'short', day: 'numeric' })}${dayMemories.length ? ` · ${t('memoriesCount', { count: dayMemories.length })}` : ''}`}
+                    className={`flex-1 aspect-square rounded-[3px] transition-transform hover:scale-125 ${key === todayKey ? 'ring-1 ring-orange-400' : ''} ${tint ? '' : 'bg-stone-100'}`}
+                    style={tint ? { backgroundColor: tint } : undefined}
+                  />
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  const selectedMemories = selectedDay ? memoriesOn(selectedDay) : [];
+
+  return (
+    <div className="space-y-8">
+      <div className="bg-white rounded-3xl shadow-sm border border-stone-100 overflow-hidden">
+        {/* Calendar Header */}
+        <div className="flex items-center justify-between px-8 py-6 border-b border-stone-100">
+          <button onClick={() => step(-1)} className="p-2 hover:bg-stone-50 rounded-full transition-colors text-stone-500">
+            <ChevronLeft size={20} />
+          </button>
+          <h2 className="text-xl font-bold text-stone-700 tracking-wide">
+            {scope === 'year'
+              ? month.toLocaleDateString(locale, { year: 'numeric' })
+              : month.toLocaleDateString(locale, { year: 'numeric', month: 'long' })}
+          </h2>
+          <button onClick={() => step(1)} className="p-2 hover:bg-stone-50 rounded-full transition-colors text-stone-500">
+            <ChevronRight size={20} />
+          </button>
+        </div>
+
+        {/* Scope and shading */}
+        <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-3 border-b border-stone-100 bg-stone-50/50">
+          <div className="inline-flex bg-stone-100 p-1 rounded-xl">
+            <button onClick={() => setScope('month')} className={segmentClass(scope === 'month')}>
+              <CalendarDays size={12} /> {t('monthView')}
+            </button>
+            <button onClick={() => { setScope('year'); setSelectedDay(null); }} className={segmentClass(scope === 'year')}>
+              <Grid3x3 size={12} /> {t('yearView')}
+            </button>
+          </div>
+          <button
+            onClick={() => onOpenRecap(scope, month)}
+            className="relative px-3 py-1.5 rounded-lg text-[10px] font-bold flex items-center gap-1.5 text-stone-500 bg-white border border-stone-200 hover:border-orange-200 hover:text-orange-600 transition-all"
+          >
+            <BookOpen size={12} /> {t(scope === 'year' ? 'yearRecap' : 'monthRecap')}
+            {hasRecap && <span className="absolute -top-1 -right-1 w-2 h-2 rounded-full bg-orange-400" />}
+          </button>
+          <div className="inline-flex bg-stone-100 p-1 rounded-xl">
+            {([
+              { value: 'art', icon: ImageIcon },
+              { value: 'mood', icon: Gauge },
+              { value: 'color', icon: Droplet },
+            ] as const).map(({ value, icon: Icon }) => (
+              <button key={value} onClick={() => setShading(value)} className={segmentClass(shading === value)}>
+                <Icon size={12} /> {t(value)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {scope === 'year' ? renderYear() : (
+          <>
+            {/* Calendar Grid Header */}
+            <div className="grid grid-cols-7 border-b border-stone-100 bg-stone-50/50">
+              {weekdayNames(language).map((day, i) => (
+                <div key={day} className={`py-4 text-center text-[10px] font-bold tracking-widest uppercase ${i === 0 ? 'text-rose-400' : i === 6 ? 'text-sky-400' : 'text-stone-400'}`}>
+                  {day}
+                </div>
+              ))}
+            </div>
+
+            {/* Calendar Grid Body */}
+            <div className="grid grid-cols-7 bg-stone-100 gap-px border-b border-stone-100">
+              {renderMonth()}
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Day Detail */}
+      {scope === 'month' && selectedDay && (
+        <div className="space-y-6 animate-fade-in">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="text-lg font-bold text-stone-700">
+              {parseDateInput(selectedDay).toLocaleDateString(locale, { year: 'numeric', month: 'long', day: 'numeric', weekday: 'short' })}
+            </h3>
+            <div className="flex items-center gap-2">
+              {selectedDay <= todayKey && (
+                <button
+                  onClick={() => onRecordForDay(selectedDay)}
+                  className="px-4 py-2 rounded-xl text-xs font-bold text-white bg-gradient-to-r from-orange-400 to-rose-400 hover:shadow-lg hover:shadow-orange-200 transition-all flex items-center gap-2"
+                >
+                  <PenLine size={14} /> {t('recordForDay')}
+                </button>
+              )}
+              <button
+                onClick={() => setSelectedDay(null)}
+                className="p-2 text-stone-400 hover:text-stone-600 rounded-full hover:bg-white transition-colors"
+                title={t('close')}
+              >
+                <X size={16} />
+              </button>
+            </div>
+          </div>
+          {selectedMemories.length === 0 ? (
+            <p className="text-center py-10 text-stone-400 text-xs bg-white rounded-2xl border border-dashed border-stone-200">{t('noMemoriesOnDay')}</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+              {selectedMemories.map((memory) => (
+                <div key={memory.id} className="h-full">
+                  {renderMemory(memory)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CalendarView;
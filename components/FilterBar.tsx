@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Language } from '../types';
+import { translator, LANGUAGES, LANGUAGE_NAMES } from '../i18n';
+import { MemoryFilter, FeedbackFilter, EMPTY_FILTER, MOOD_MIN, MOOD_MAX, countActiveFilters } from '../services/filterService';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+
+interface FilterBarProps {
+  filter: MemoryFilter;
+  language: Language;
+  availableTags: string[]; // tag ids
+  tagLabel: (id: string) => string;
+  matchCount: number;
+  totalCount: number;
+  onChange: (filter: MemoryFilter) => void;
+}
+
+const FilterBar: React.FC<FilterBarProps> = ({ filter, language, availableTags, tagLabel, matchCount, totalCount, onChange }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const t = translator(language, 'filter');
+
+  const update = (changes: Partial<MemoryFilter>) => onChange({ ...filter, ...changes });
+
+  const toggleTag = (tag: string) => {
+    update({ tags: filter.tags.includes(tag) ? filter.tags.filter(t => t !== tag) : [...filter.tags, tag] });
+  };
+
+  const activeCount = countActiveFilters(filter);
+
+  const segmentClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-[10px] font-bold transition-all ${active ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`;
+
+  const labelClass = "text-[10px] font-bold text-stone-400 uppercase tracking-wider";
+
+  const inputClass = "bg-stone-50 border border-stone-200 text-stone-700 px-3 py-2 rounded-lg outline-none focus:bg-white focus:border-orange-300 transition-all text-xs";
+
+  return (
+    <div className="mb-8 space-y-3">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-grow">
+          <Search size={14} className="absolute left-4 top-1/2 -translate-y-1/2 text-stone-400" />
+          <input
+            type="search"
+            value={filter.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder={t('searchPlaceholder')}
+            className="w-full bg-white border border-stone-200 text-stone-800 placeholder-stone-400 pl-10 pr-4 py-3 rounded-xl outline-none focus:border-orange-300 focus:ring-4 focus:ring-orange-50 transition-all text-sm"
+          />
+        </div>
+        <button
+          onClick={() => setIsExpanded(!isExpanded)}
+          className={`px-4 py-3 rounded-xl text-xs font-bold flex items-center gap-2 border transition-all ${isExpanded || activeCount > 0 ? 'bg-stone-700 text-white border-stone-700' : 'bg-white text-stone-500 border-stone-200 hover:border-orange-200'}`}
+        >
+          <SlidersHorizontal size={14} />
+          <span className="hidden sm:inline">{t('filters')}</span>
+          {activeCount > 0 && (
+            <span className="w-4 h-4 rounded-full bg-orange-400 text-white text-[9px] flex items-center justify-center">{activeCount}</span>
+          )}
+        </button>
+      </div>
+
+      {isExpanded && (
+        <div className="bg-white rounded-2xl border border-stone-100 shadow-sm p-5 space-y-5 animate-fade-in">
+          {availableTags.length > 0 && (
+            <div className="space-y-2">
+              <p className={labelClass}>{t('tags')}</p>
+              <div className="flex flex-wrap gap-1.5">
+                {availableTags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    className={`px-3 py-1 rounded-full text-[10px] font-medium border transition-all ${filter.tags.includes(tag) ? 'bg-stone-700 text-white border-stone-700' : 'bg-white text-stone-600 border-stone-200 hover:border-orange-200 hover:bg-orange-50'}`}
+                  >
+                    #{tagLabel(tag)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
+            <div className="space-y-2">
+              <p className={labelClass}>{t('mood')}: {filter.moodMin} 〜 {filter.moodMax}</p>
+              <div className="flex items-center gap-3">
+                <input
+                  type="range"
+                  min={MOOD_MIN}
+                  max={MOOD_MAX}
+                  value={filter.moodMin}
+                  onChange={(e) => update({ moodMin: Math.min(parseInt(e.target.value), filter.moodMax) })}
+                  className="w-full accent-indigo-400"
+                />
+                <input
+                  type="range"
+                  min={MOOD_MIN}
+                  max={MOOD_MAX}
+                  value={filter.moodMax}
+                  onChange={(e) => update({ moodMax: Math.max(parseInt(e.target.value), filter.moodMin) })}
+                  className="w-full accent-orange-500"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className={labelClass}>{t('period')}</p>
+              <div className="flex items-center gap-2">
+                <input type="date" value={filter.dateFrom} max={filter.dateTo || undefined} onChange={(e) => update({ dateFrom: e.target.value })} className={inputClass} />
+                <span className="text-stone-300 text-xs">〜</span>
+                <input type="date" value={filter.dateTo} min={filter.dateFrom || undefined} onChange={(e) => update({ dateTo: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className={labelClass}>{t('feedback')}</p>
+              <div className="inline-flex bg-stone-100 p-1 rounded-xl">
+                {(['any', 'correct', 'incorrect', 'none'] as FeedbackFilter[]).map(value => (
+                  <button key={value} onClick={() => update({ feedback: value })} className={segmentClass(filter.feedback === value)}>
+                    {t(value)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <p className={labelClass}>{t('language')}</p>
+              <div className="inline-flex bg-stone-100 p-1 rounded-xl">
+                {(['any', ...LANGUAGES] as const).map(value => (
+                  <button key={value} onClick={() => update({ language: value })} className={segmentClass(filter.language === value)}>
+                    {value === 'any' ? t('any') : LANGUAGE_NAMES[value]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {activeCount > 0 && (
+        <div className="flex items-center justify-between text-xs text-stone-400 px-1">
+          <span>{t('results', { matched: matchCount, count: totalCount })}</span>
+          <button onClick={() => onChange(EMPTY_FILTER)} className="flex items-center gap-1 font-bold hover:text-orange-500 transition-colors">
+            <X size={12} /> {t('clear')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
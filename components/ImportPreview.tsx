@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Memory, Language } from '../types';
+import { translator, formatDate } from '../i18n';
+import { ImportPlan, ConflictResolution } from '../services/backupService';
+import { recapLabel } from '../services/recapService';
+import { tagLabel } from '../services/tagService';
+import { Upload, X, Plus, Equal, GitCompare } from 'lucide-react';
+
+interface ImportPreviewProps {
+  plan: ImportPlan;
+  language: Language;
+  onConfirm: (resolution: ConflictResolution) => void;
+  onCancel: () => void;
+}
+
+const ImportPreview: React.FC<ImportPreviewProps> = ({ plan, language, onConfirm, onCancel }) => {
+  // Default to keeping what is already in the diary
+  const [resolution, setResolution] = useState<ConflictResolution>({});
+
+  const t = translator(language, 'importPreview');
+
+  const formatDay = (memory: Memory) => formatDate(memory.timestamp, language, {
+    year: 'numeric', month: 'short', day: 'numeric',
+  });
+
+  const hasChanges = plan.added.length > 0 || plan.conflicts.length > 0 || plan.newTags.length > 0 || plan.newRecaps.length > 0;
+
+  const renderVersion = (memory: Memory, selected: boolean, label: string, onSelect: () => void) => (
+    <button
+      onClick={onSelect}
+      className={`text-left p-3 rounded-xl border transition-all ${selected ? 'border-orange-300 bg-orange-50/60 shadow-sm' : 'border-stone-100 bg-white hover:border-stone-200'}`}
+    >
+      <span className={`text-[10px] font-bold uppercase tracking-wider ${selected ? 'text-orange-500' : 'text-stone-400'}`}>{label}</span>
+      <p className="text-xs font-bold text-stone-700 truncate mt-1">{memory.song.title} / {memory.song.artist}</p>
+      <p className="text-[10px] text-stone-400 mt-0.5">{formatDay(memory)} · {memory.analysis.inferredEmotion}</p>
+      {memory.content && <p className="text-[10px] text-stone-500 mt-1 line-clamp-2">{memory.content}</p>}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-stone-900/30 backdrop-blur-sm flex items-center justify-center p-6 animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-8 py-5 border-b border-stone-100">
+          <h2 className="text-lg font-bold text-stone-700 flex items-center gap-2">
+            <Upload size={18} className="text-orange-400" /> {t('title')}
+          </h2>
+          <button onClick={onCancel} className="p-2 text-stone-400 hover:text-stone-600 rounded-full hover:bg-stone-50 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-8 py-6 overflow-y-auto space-y-6">
+          <div className="grid grid-cols-3 gap-3">
+            {[
+              { icon: Plus, label: t('added'), count: plan.added.length, color: 'text-teal-600' },
+              { icon: Equal, label: t('identical'), count: plan.identical.length, color: 'text-stone-400' },
+              { icon: GitCompare, label: t('conflicts'), count: plan.conflicts.length, color: 'text-rose-500' },
+            ].map(({ icon: Icon, label, count, color }) => (
+              <div key={label} className="bg-stone-50 rounded-2xl p-4 border border-stone-100">
+                <div className={`flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider ${color}`}>
+                  <Icon size={12} /> {label}
+                </div>
+                <p className="text-2xl font-bold text-stone-700 mt-1">{count}</p>
+              </div>
+            ))}
+          </div>
+
+          {plan.newTags.length > 0 && (
+            <p className="text-xs text-stone-500">
+              {t('newTags')}: {plan.newTags.map(tag => tagLabel(tag.id, language, plan.newTags)).join(', ')}
+            </p>
+          )}
+          {plan.newRecaps.length > 0 && (
+            <p className="text-xs text-stone-500">
+              {t('newRecaps')}: {plan.newRecaps.map(recap => recapLabel(recap.period, recap.start, language)).join(', ')}
+            </p>
+          )}
+
+          {plan.conflicts.length > 0 && (
+            <div className="space-y-3">
+              <p className="text-xs text-stone-500">{t('conflictHelp')}</p>
+              {plan.conflicts.map(({ existing, incoming }) => {
+                const useIncoming = !!resolution[incoming.id];
+                const choose = (value: boolean) => setResolution({ ...resolution, [incoming.id]: value });
+                return (
+                  <div key={incoming.id} className="grid grid-cols-2 gap-3">
+                    {renderVersion(existing, !useIncoming, t('keepMine'), () => choose(false))}
+                    {renderVersion(incoming, useIncoming, t('useBackup'), () => choose(true))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {!hasChanges && (
+            <p className="text-center text-xs text-stone-400 py-4">{t('nothingToDo')}</p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-8 py-5 border-t border-stone-100 bg-stone-50/50">
+          <button
+            onClick={onCancel}
+            className="px-5 py-2.5 rounded-xl font-bold text-xs text-stone-500 bg-stone-100 hover:bg-stone-200 hover:text-stone-700 transition-colors"
+          >
+            {t('cancel')}
+          </button>
+          <button
+            onClick={() => onConfirm(resolution)}
+            disabled={!hasChanges}
+            className="px-5 py-2.5 rounded-xl font-bold text-xs text-white bg-gradient-to-r from-orange-400 to-rose-400 hover:shadow-lg hover:shadow-orange-200 transition-all disabled:opacity-40 disabled:hover:shadow-none"
+          >
+            {t('confirm')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreview;
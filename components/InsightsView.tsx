@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from 'react';
+import { Memory, Language } from '../types';
+import { translator, LOCALE_TAGS, weekdayNames } from '../i18n';
+import {
+  moodTrend, tagFrequency, tagCooccurrence, artistRanking, songRanking, weekdayMood,
+  byPlayCount, byAverageMood, MoodRanking,
+} from '../services/insightsService';
+import { TrendingUp, Tag, Mic2, CalendarDays, Link2 } from 'lucide-react';
+
+interface InsightsViewProps {
+  memories: Memory[];
+  language: Language;
+  tagLabel: (id: string) => string;
+}
+
+type RankingSubject = 'artist' | 'song';
+type RankingOrder = 'plays' | 'mood';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 12;
+const TOP_TAGS = 10;
+const MATRIX_TAGS = 6;
+const TOP_RANKED = 8;
+
+const InsightsView: React.FC<InsightsViewProps> = ({ memories, language, tagLabel }) => {
+  const [subject, setSubject] = useState<RankingSubject>('artist');
+  const [order, setOrder] = useState<RankingOrder>('plays');
+
+  const t = translator(language, 'insights');
+  const locale = LOCALE_TAGS[language];
+
+  const trend = useMemo(() => moodTrend(memories), [memories]);
+  const tags = useMemo(() => tagFrequency(memories).slice(0, TOP_TAGS), [memories]);
+  const pairs = useMemo(() => tagCooccurrence(memories), [memories]);
+  const weekdays = useMemo(() => weekdayMood(memories), [memories]);
+  const ranking = useMemo(() => {
+    const entries = subject === 'artist' ? artistRanking(memories) : songRanking(memories);
+    return entries.sort(order === 'plays' ? byPlayCount : byAverageMood).slice(0, TOP_RANKED);
+  }, [memories, subject, order]);
+
+  // Mood trend chart geometry
+  const first = trend[0]?.timestamp ?? 0;
+  const span = Math.max((trend[trend.length - 1]?.timestamp ?? 0) - first, 1);
+  const x = (timestamp: number) =>
+    trend.length === 1 ? CHART_WIDTH / 2 : CHART_PADDING + ((timestamp - first) / span) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (score: number) => CHART_HEIGHT / 2 - (score / 50) * (CHART_HEIGHT / 2 - CHART_PADDING);
+  const linePath = (key: 'weeklyAverage' | 'monthlyAverage') =>
+    trend.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.timestamp).toFixed(1)},${y(p[key]).toFixed(1)}`).join(' ');
+
+  const matrixTags = tags.slice(0, MATRIX_TAGS).map(({ tag }) => tag);
+  const pairCount = (a: string, b: string) =>
+    pairs.find(p => (p.a === a && p.b === b) || (p.a === b && p.b === a))?.count ?? 0;
+  const maxPair = Math.max(1, ...pairs.map(p => p.count));
+  const maxTag = Math.max(1, ...tags.map(tag => tag.count));
+  const maxPlays = Math.max(1, ...ranking.map(r => r.count));
+
+  const weekdayLabels = useMemo(() => weekdayNames(language), [language]);
+
+  const moodBarColor = (score: number) => score >= 0 ? '#fb923c' : '#818cf8';
+
+  const cardClass = "bg-white rounded-3xl shadow-sm border border-stone-100 p-6 md:p-8";
+  const headingClass = "text-xs font-bold text-stone-400 uppercase tracking-wider flex items-center gap-2 mb-5";
+  const segmentClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-[10px] font-bold transition-all ${active ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`;
+
+  const renderRankingRow = (entry: MoodRanking) => (
+    <div key={entry.key} className="flex items-center gap-3">
+      <div className="w-1/3 min-w-0">
+        <p className="text-xs font-bold text-stone-700 truncate">{entry.label}</p>
+        {entry.sublabel && <p className="text-[10px] text-stone-400 truncate">{entry.sublabel}</p>}
+      </div>
+      <div className="flex-grow h-2 bg-stone-100 rounded-full overflow-hidden">
+        {order === 'plays' ? (
+          <div className="h-full bg-orange-300 rounded-full" style={{ width: `${(entry.count / maxPlays) * 100}%` }} />
+        ) : (
+          <div className="h-full rounded-full" style={{ width: `${entry.averageMood + 50}%`, backgroundColor: moodBarColor(entry.averageMood) }} />
+        )}
+      </div>
+      <span className="w-16 text-right text-[10px] font-medium text-stone-500">
+        {order === 'plays' ? t('times', { count: entry.count }) : entry.averageMood.toFixed(1)}
+      </span>
+    </div>
+  );
+
+  if (memories.length === 0) {
+    return <p className="text-center py-16 text-stone-400 text-xs">{t('notEnough')}</p>;
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Mood Trend */}
+      <div className={cardClass}>
+        <h4 className={headingClass}><TrendingUp size={14} className="text-orange-400" /> {t('trendTitle')}</h4>
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+          <line x1={0} x2={CHART_WIDTH} y1={y(0)} y2={y(0)} stroke="#e7e5e4" strokeDasharray="4 4" />
+          <path d={linePath('monthlyAverage')} fill="none" stroke="#818cf8" strokeWidth={2} strokeLinejoin="round" />
+          <path d={linePath('weeklyAverage')} fill="none" stroke="#fb923c" strokeWidth={2} strokeLinejoin="round" />
+          {trend.map((p, i) => (
+            <circle key={i} cx={x(p.timestamp)} cy={y(p.score)} r={4} fill={p.color || '#d6d3d1'} stroke="#fff" strokeWidth={1.5}>
+              <title>{`${new Date(p.timestamp).toLocaleDateString(locale)}: ${p.score}`}</title>
+            </circle>
+          ))}
+        </svg>
+        <div className="flex items-center justify-between mt-3 text-[10px] text-stone-400">
+          <span>{new Date(first).toLocaleDateString(locale)}</span>
+          <div className="flex items-center gap-4">
+            <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-orange-400 rounded" />{t('weekly')}</span>
+            <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-indigo-400 rounded" />{t('monthly')}</span>
+          </div>
+          <span>{new Date(first + (trend.length > 1 ? span : 0)).toLocaleDateString(locale)}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {/* Tag Frequency */}
+        <div className={cardClass}>
+          <h4 className={headingClass}><Tag size={14} className="text-orange-400" /> {t('tagsTitle')}</h4>
+          {tags.length === 0 ? (
+            <p className="text-xs text-stone-400">{t('notEnough')}</p>
+          ) : (
+            <div className="space-y-2.5">
+              {tags.map(({ tag, count }) => (
+                <div key={tag} className="flex items-center gap-3">
+                  <span className="w-24 text-xs text-stone-600 truncate">#{tagLabel(tag)}</span>
+                  <div className="flex-grow h-2 bg-stone-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-gradient-to-r from-orange-300 to-rose-300 rounded-full" style={{ width: `${(count / maxTag) * 100}%` }} />
+                  </div>
+                  <span className="w-6 text-right text-[10px] text-stone-400">{count}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Tag Co-occurrence */}
+        <div className={cardClass}>
+          <h4 className={headingClass}><Link2 size={14} className="text-orange-400" /> {t('pairsTitle')}</h4>
+          {pairs.length === 0 ? (
+            <p className="text-xs text-stone-400">{t('notEnough')}</p>
+          ) : (
+            <div className="grid gap-1" style={{ gridTemplateColumns: `5rem repeat(${matrixTags.length}, minmax(0, 1fr))` }}>
+              <div />
+              {matrixTags.map(tag => (
+                <div key={tag} className="text-[9px] text-stone-400 truncate text-center">{tagLabel(tag)}</div>
+              ))}
+              {matrixTags.map(row => (
+                <React.Fragment key={row}>
+                  <div className="text-[10px] text-stone-500 truncate pr-1 self-center">{tagLabel(row)}</div>
+                  {matrixTags.map(col => {
+                    const count = row === col ? 0 : pairCount(row, col);
+                    return (
+                      <div
+                        key={col}
+                        className="aspect-square rounded-md flex items-center justify-center text-[9px] font-bold"
+                        style={{
+                          backgroundColor: row === col ? '#f5f5f4' : `rgba(251, 146, 60, ${count / maxPair})`,
+                          color: count / maxPair > 0.5 ? '#fff' : '#a8a29e',
+                        }}
+                        title={row === col ? tagLabel(row) : `${tagLabel(row)} + ${tagLabel(col)}: ${count}`}
+                      >
+                        {row !== col && count > 0 ? count : ''}
+                      </div>
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Artists & Songs */}
+      <div className={cardClass}>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-5">
+          <h4 className={`${headingClass} mb-0`}><Mic2 size={14} className="text-orange-400" /> {t('rankingTitle')}</h4>
+          <div className="flex gap-2">
+            <div className="inline-flex bg-stone-100 p-1 rounded-xl">
+              <button onClick={() => setSubject('artist')} className={segmentClass(subject === 'artist')}>{t('artists')}</button>
+              <button onClick={() => setSubject('song')} className={segmentClass(subject === 'song')}>{t('songs')}</button>
+            </div>
+            <div className="inline-flex bg-stone-100 p-1 rounded-xl">
+              <button onClick={() => setOrder('plays')} className={segmentClass(order === 'plays')}>{t('byPlays')}</button>
+              <button onClick={() => setOrder('mood')} className={segmentClass(order === 'mood')}>{t('byMood')}</button>
+            </div>
+          </div>
+        </div>
+        <div className="space-y-3">
+          {ranking.map(renderRankingRow)}
+        </div>
+      </div>
+
+      {/* Weekday */}
+      <div className={cardClass}>
+        <h4 className={headingClass}><CalendarDays size={14} className="text-orange-400" /> {t('weekdayTitle')}</h4>
+        <div className="grid grid-cols-7 gap-3">
+          {weekdays.map(({ weekday, count, averageMood }) => (
+            <div key={weekday} className="flex flex-col items-center gap-2">
+              <div className="relative w-full h-32 bg-stone-50 rounded-xl overflow-hidden">
+                <div className="absolute left-0 right-0 top-1/2 border-t border-dashed border-stone-200" />
+                {averageMood !== null && (
+                  <div
+                    className="absolute left-1/4 right-1/4 rounded-md"
+                    style={{
+                      backgroundColor: moodBarColor(averageMood),
+                      height: `${(Math.abs(averageMood) / 50) * 50}%`,
+                      ...(averageMood >= 0 ? { bottom: '50%' } : { top: '50%' }),
+                    }}
+                    title={`${averageMood.toFixed(1)} (${count})`}
+                  />
+                )}
+              </div>
+              <span className={`text-[10px] font-bold ${weekday === 0 ? 'text-rose-400' : weekday === 6 ? 'text-sky-400' : 'text-stone-400'}`}>
+                {weekdayLabels[weekday]}
+              </span>
+              <span className="text-[9px] text-stone-300">{averageMood !== null ? averageMood.toFixed(1) : '—'}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InsightsView;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Language, Profile } from '../types';
+import { translator } from '../i18n';
+import { profileName } from '../services/profileService';
+import { BookHeart, Lock, Loader2, Users } from 'lucide-react';
+
+interface LockScreenProps {
+  language: Language;
+  onUnlock: (passphrase: string) => Promise<boolean>; // false when the passphrase is wrong
+  profiles: Profile[];
+  activeId: string;
+  onSwitchProfile: (id: string) => void; // someone else's diary may not be locked at all
+}
+
+// Shown instead of the diary while it is locked; nothing encrypted is loaded yet
+const LockScreen: React.FC<LockScreenProps> = ({ language, onUnlock, profiles, activeId, onSwitchProfile }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [wrong, setWrong] = useState(false);
+
+  const t = translator(language, 'lock');
+  const tp = translator(language, 'profiles');
+
+  const active = profiles.find(profile => profile.id === activeId);
+  const others = profiles.filter(profile => profile.id !== activeId);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passphrase || isChecking) return;
+    setIsChecking(true);
+    setWrong(false);
+    try {
+      if (!(await onUnlock(passphrase))) {
+        setWrong(true);
+        setPassphrase('');
+      }
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6 font-sans text-stone-700">
+      <form onSubmit={submit} className="w-full max-w-sm bg-white rounded-3xl shadow-xl shadow-stone-100 border border-stone-100 p-8 space-y-6 animate-fade-in">
+        <div className="flex flex-col items-center gap-3 text-center">
+          <div className="w-12 h-12 rounded-2xl bg-gradient-to-br from-orange-400 to-rose-400 flex items-center justify-center shadow-md shadow-orange-100">
+            <BookHeart className="text-white w-6 h-6" />
+          </div>
+          <h1 className="text-lg font-bold text-stone-800 flex items-center gap-2">
+            <Lock size={16} className="text-orange-400" /> {t('title')}
+          </h1>
+          {active && profiles.length > 1 && (
+            <p className="text-xs font-bold text-stone-600 flex items-center gap-1.5">
+              <Users size={12} className="text-stone-400" /> {profileName(active, language)}
+            </p>
+          )}
+          <p className="text-xs text-stone-400">{t('description')}</p>
+        </div>
+
+        <div className="space-y-2">
+          <input
+            type="password"
+            value={passphrase}
+            placeholder={t('passphrase')}
+            aria-label={t('passphrase')}
+            autoComplete="current-password"
+            autoFocus
+            disabled={isChecking}
+            onChange={(e) => { setPassphrase(e.target.value); setWrong(false); }}
+            className="w-full bg-stone-50 border border-stone-200 text-stone-700 placeholder-stone-400 px-4 py-3 rounded-xl outline-none focus:bg-white focus:border-orange-300 transition-all text-sm"
+          />
+          {wrong && <p className="text-[10px] text-rose-500">{t('wrongPassphrase')}</p>}
+        </div>
+
+        <button
+          type="submit"
+          disabled={!passphrase || isChecking}
+          className="w-full py-3 rounded-xl bg-stone-800 text-white text-sm font-bold flex items-center justify-center gap-2 hover:bg-stone-700 transition-all disabled:opacity-40"
+        >
+          {isChecking ? <><Loader2 size={14} className="animate-spin" /> {t('checking')}</> : t('unlock')}
+        </button>
+
+        {others.length > 0 && (
+          <div className="pt-4 border-t border-stone-100 space-y-2">
+            <p className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">{tp('openOther')}</p>
+            <div className="flex flex-wrap gap-1.5">
+              {others.map(profile => (
+                <button
+                  key={profile.id}
+                  type="button"
+                  onClick={() => onSwitchProfile(profile.id)}
+                  disabled={isChecking}
+                  className="px-3 py-1 rounded-full text-[10px] font-medium border border-stone-200 bg-white text-stone-600 hover:border-orange-200 hover:bg-orange-50 transition-all disabled:opacity-40"
+                >
+                  {profileName(profile, language)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </form>
+    </div>
+  );
+};
+
+export default LockScreen;
@@ -1,49 +1,176 @@
 import React, { useState } from 'react';
-import { Memory, Language } from '../types';
-import { Play, Music, Calendar, Check, X, Share2, MessageCircleHeart, Trash2 } from 'lucide-react';
+import { Memory, Language, TagDefinition, ArtStyleId, StreamingSettings } from '../types';
+import { translator, formatDate, formatDateTime, formatTime, languageName } from '../i18n';
+import { MemoryEdit } from '../services/revisionService';
+import { tagLabel, activeTags } from '../services/tagService';
+import { hasAnalysis } from '../services/analysisQueue';
+import { needsTranslation, cachedTranslation } from '../services/translationService';
+import { songSubject, artistSubject, HistorySubject } from '../services/songHistoryService';
+import { galleryOf } from '../services/artworkService';
+import { moodPointColor } from '../services/calendarService';
+import { describeMood } from '../services/moodService';
+import { ART_STYLES } from '../services/ai/prompts';
+import { primaryLink, searchLinks } from '../services/streamingService';
+import { toDateInputValue, getTodayString, parseDateInput } from '../utils/date';
+import MoodPicker from './MoodPicker';
+import { Play, Music, Calendar, Check, X, Share2, MessageCircleHeart, Trash2, Pencil, History, Loader2, RotateCcw, Sparkles, RefreshCw, AlertCircle, Clock, Palette, Languages } from 'lucide-react';
 
 interface MemoryCardProps {
   memory: Memory;
   language: Language;
+  availableTags: TagDefinition[];
+  maxTags: number;
+  streaming: StreamingSettings;
   onFeedback: (id: string, isCorrect: boolean) => void;
+  onCorrect: (id: string, correction: string) => void;
   onDelete: (id: string) => void;
+  onUpdate: (id: string, edit: MemoryEdit, reanalyze: boolean) => void;
+  onRestore: (id: string, editedAt: number) => void;
+  onRetry: (id: string) => void;
+  onRegenerateArt: (id: string, prompt: string, style: ArtStyleId) => void;
+  onSelectCover: (id: string, url: string) => void;
+  onShare: (id: string) => void;
+  onOpenHistory: (subject: HistorySubject) => void;
+  onTranslate?: (id: string) => void; // missing when the provider can't translate right now
+  isAnalyzing: boolean; // the queue is working on this memory right now
+  translationStatus?: 'translating' | 'failed';
 }
 
-const MemoryCard: React.FC<MemoryCardProps> = ({ memory, language, onFeedback, onDelete }) => {
+type CardMode = 'view' | 'edit' | 'history' | 'art';
+
+const MemoryCard: React.FC<MemoryCardProps> = ({ memory, language, availableTags, maxTags, streaming, onFeedback, onCorrect, onDelete, onUpdate, onRestore, onRetry, onRegenerateArt, onSelectCover, onShare, onOpenHistory, onTranslate, isAnalyzing, translationStatus }) => {
   const [isHovered, setIsHovered] = useState(false);
-  const [copied, setCopied] = useState(false);
+  const [mode, setMode] = useState<CardMode>('view');
+
+  // Edit form
+  const [draftDate, setDraftDate] = useState('');
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftArtist, setDraftArtist] = useState('');
+  const [draftTrack, setDraftTrack] = useState('');
+  const [draftScore, setDraftScore] = useState(0);
+  const [draftEnergy, setDraftEnergy] = useState(0);
+  const [draftTags, setDraftTags] = useState<string[]>([]);
+  const [draftContent, setDraftContent] = useState('');
+  const [reanalyze, setReanalyze] = useState(false);
+
+  // Artwork
+  const [draftPrompt, setDraftPrompt] = useState('');
+  const [draftStyle, setDraftStyle] = useState<ArtStyleId>('classic');
+
+  // Correction after an "incorrect" answer
+  const [correction, setCorrection] = useState('');
+
+  // A cached translation is shown unless the original is asked for
+  const [showOriginal, setShowOriginal] = useState(false);
 
-  const formattedDate = new Date(memory.timestamp).toLocaleDateString(language === 'ja' ? 'ja-JP' : 'en-US', {
+  const formattedDate = formatDate(memory.timestamp, language, {
     year: 'numeric',
-    month: language === 'ja' ? 'long' : 'short',
+    month: language === 'en' ? 'short' : 'long',
     day: 'numeric',
   });
 
-  const searchUrl = `https://www.youtube.com/results?search_query=${encodeURIComponent(`${memory.song.artist} ${memory.song.title}`)}`;
-  const moodPercent = memory.moodScore + 50; 
-  
-  const translations = {
-    share: { ja: "シェア", en: "Share" },
-    copied: { ja: "コピー完了", en: "Copied" },
-    messageTitle: { ja: "Message for You", en: "Message for You" }, // Keeping English title as it's stylistic
-    feedbackQuestion: { ja: "気持ちに合っていましたか？", en: "Did this match your mood?" },
-    confirmDelete: { ja: "この記録を削除してもよろしいですか？", en: "Are you sure you want to delete this memory?" },
-    deleteTitle: { ja: "削除する", en: "Delete" },
-    listenOnYT: { ja: "YouTubeで聴く", en: "Listen on YouTube" },
-    artAlt: { ja: "思い出のアート", en: "Mood art" }
+  const playLink = primaryLink(memory.song, streaming);
+  const otherLinks = searchLinks(memory.song, streaming).filter(link => link.url !== playLink.url);
+  const t = translator(language, 'memoryCard');
+
+  const startEditing = () => {
+    setDraftDate(toDateInputValue(new Date(memory.timestamp)));
+    setDraftTitle(memory.song.title);
+    setDraftArtist(memory.song.artist);
+    setDraftTrack(memory.song.trackUrl ?? '');
+    setDraftScore(memory.moodScore);
+    setDraftEnergy(memory.energy);
+    setDraftTags(memory.moodTags || []);
+    setDraftContent(memory.content);
+    setReanalyze(false);
+    setMode('edit');
   };
 
-  const t = (key: keyof typeof translations) => translations[key][language];
+  const gallery = galleryOf(memory);
 
-  const handleShare = (e: React.MouseEvent) => {
-    e.stopPropagation();
-    const text = `MusicDiary: ${formattedDate}\n🎵 ${memory.song.title} / ${memory.song.artist}\n💌 ${memory.analysis.inferredEmotion}\n\n"${memory.analysis.analysisText.slice(0, 60)}..."`;
-    navigator.clipboard.writeText(text).then(() => {
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
-    });
+  const startArt = () => {
+    const cover = gallery.find(variant => variant.url === memory.imageUrl);
+    setDraftPrompt(cover?.prompt || memory.analysis.imagePrompt);
+    setDraftStyle(cover?.style ?? 'classic');
+    setMode('art');
+  };
+
+  const handleRegenerate = () => {
+    if (!draftPrompt.trim()) return;
+    onRegenerateArt(memory.id, draftPrompt.trim(), draftStyle);
+    setMode('view');
+  };
+
+  const toggleDraftTag = (tag: string) => {
+    if (draftTags.includes(tag)) {
+      setDraftTags(draftTags.filter(t => t !== tag));
+    } else if (draftTags.length < maxTags) {
+      setDraftTags([...draftTags, tag]);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draftTitle.trim() || !draftArtist.trim() || !draftDate) return;
+    onUpdate(memory.id, {
+      content: draftContent,
+      moodScore: draftScore,
+      energy: draftEnergy,
+      moodTags: draftTags,
+      timestamp: parseDateInput(draftDate).getTime(),
+      song: {
+        title: draftTitle.trim(),
+        artist: draftArtist.trim(),
+        ...(draftTrack.trim() && { trackUrl: draftTrack.trim() }),
+      },
+    }, reanalyze);
+    setMode('view');
+  };
+
+  const handleRestore = (editedAt: number) => {
+    if (window.confirm(t('confirmRestore'))) {
+      onRestore(memory.id, editedAt);
+      setMode('view');
+    }
   };
 
+  const handleCorrect = () => {
+    if (!correction.trim()) return;
+    onCorrect(memory.id, correction.trim());
+    setCorrection('');
+  };
+
+  const pending = memory.pending;
+  const analyzed = hasAnalysis(memory);
+  // Feedback only makes sense on an analysis that is not about to be replaced
+  const canGiveFeedback = analyzed && !pending?.tasks.includes('analysis');
+
+  const canTranslate = analyzed && needsTranslation(memory, language);
+  const translation = analyzed ? cachedTranslation(memory, language) : undefined;
+  const shownAnalysis = translation && !showOriginal ? translation : memory.analysis;
+  const showTranslationBar = canTranslate && (translation || translationStatus === 'translating' || onTranslate);
+
+  const pendingLabel = () => {
+    if (!pending) return '';
+    const imageOnly = pending.tasks[0] === 'image';
+    if (isAnalyzing) return t(imageOnly ? 'drawingNow' : 'analyzingNow');
+    if (pending.status === 'failed') return t(imageOnly ? 'failedImage' : 'failed');
+    return t(imageOnly ? 'queuedImage' : 'queued');
+  };
+
+  const formatEditedAt = (editedAt: number) => formatDateTime(editedAt, language, {
+    year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit',
+  });
+
+  // Archived or unknown tags already on the memory still show up so they can be removed
+  const draftTagOptions = [
+    ...activeTags(availableTags).map(tagDef => tagDef.id),
+    ...draftTags.filter(tag => !activeTags(availableTags).some(tagDef => tagDef.id === tag)),
+  ];
+
+  const tagColor = (id: string) => availableTags.find(tagDef => tagDef.id === id)?.color;
+
+  const inputClass = "w-full bg-stone-50 border border-stone-200 text-stone-800 placeholder-stone-400 px-3 py-2 rounded-lg outline-none focus:bg-white focus:border-orange-300 focus:ring-2 focus:ring-orange-50 transition-all text-xs";
+
   const handleDelete = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (window.confirm(t('confirmDelete'))) {
@@ -57,61 +184,258 @@ const MemoryCard: React.FC<MemoryCardProps> = ({ memory, language, onFeedback, o
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
     >
-      {/* Delete Button */}
-      <button 
-        onClick={handleDelete}
-        className="absolute top-3 right-3 z-20 p-2 bg-white/80 backdrop-blur rounded-full text-stone-400 hover:text-red-500 hover:bg-white transition-all opacity-0 group-hover:opacity-100 shadow-sm"
-        title={t('deleteTitle')}
-      >
-        <Trash2 size={14} />
-      </button>
+      {/* Actions */}
+      <div className="absolute top-3 right-3 z-20 flex gap-1.5 opacity-0 group-hover:opacity-100 transition-all">
+        <button
+          onClick={() => mode === 'history' ? setMode('view') : setMode('history')}
+          className={`p-2 bg-white/80 backdrop-blur rounded-full hover:bg-white transition-all shadow-sm ${mode === 'history' ? 'text-orange-500' : 'text-stone-400 hover:text-orange-500'}`}
+          title={t('historyTitle')}
+        >
+          <History size={14} />
+        </button>
+        <button
+          onClick={() => mode === 'art' ? setMode('view') : startArt()}
+          className={`p-2 bg-white/80 backdrop-blur rounded-full hover:bg-white transition-all shadow-sm ${mode === 'art' ? 'text-orange-500' : 'text-stone-400 hover:text-orange-500'}`}
+          title={t('artTitle')}
+        >
+          <Palette size={14} />
+        </button>
+        <button
+          onClick={() => mode === 'edit' ? setMode('view') : startEditing()}
+          className={`p-2 bg-white/80 backdrop-blur rounded-full hover:bg-white transition-all shadow-sm ${mode === 'edit' ? 'text-orange-500' : 'text-stone-400 hover:text-orange-500'}`}
+          title={t('editTitle')}
+        >
+          <Pencil size={14} />
+        </button>
+        <button 
+          onClick={handleDelete}
+          className="p-2 bg-white/80 backdrop-blur rounded-full text-stone-400 hover:text-red-500 hover:bg-white transition-all shadow-sm"
+          title={t('deleteTitle')}
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
 
       {/* Image Section */}
       <div className="relative aspect-square overflow-hidden bg-stone-100">
         {memory.imageUrl ? (
           <img 
             src={memory.imageUrl} 
-            alt={`${t('artAlt')} for ${memory.song.title}`} 
+            alt={t('artAlt', { title: memory.song.title })}
             className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
           />
         ) : (
           <div className="w-full h-full flex items-center justify-center bg-stone-100">
-            <Music className="w-12 h-12 text-stone-300" />
+            {isAnalyzing
+              ? <Loader2 className="w-10 h-10 text-stone-300 animate-spin" />
+              : <Music className="w-12 h-12 text-stone-300" />}
           </div>
         )}
         
-        {/* Play Button */}
-        <a 
-          href={searchUrl}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="absolute bottom-4 right-4 z-10 w-12 h-12 rounded-full bg-white/95 backdrop-blur shadow-md flex items-center justify-center text-stone-800 hover:bg-stone-800 hover:text-white transition-all opacity-0 translate-y-2 group-hover:opacity-100 group-hover:translate-y-0 duration-300"
-          aria-label={t('listenOnYT')}
-        >
-          <Play size={18} fill="currentColor" className="ml-0.5" />
-        </a>
+        {/* Play Button, with searches on the other chosen services beside it */}
+        <div className="absolute bottom-4 right-4 z-10 flex items-center gap-2 opacity-0 translate-y-2 group-hover:opacity-100 group-hover:translate-y-0 transition-all duration-300">
+          {otherLinks.map(link => (
+            <a
+              key={link.url}
+              href={link.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-2.5 py-1 rounded-full bg-white/90 backdrop-blur shadow-sm text-[10px] font-bold text-stone-600 hover:bg-stone-800 hover:text-white transition-colors"
+              title={t('searchOn', { service: link.label })}
+            >
+              {link.label}
+            </a>
+          ))}
+          <a 
+            href={playLink.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="w-12 h-12 rounded-full bg-white/95 backdrop-blur shadow-md flex items-center justify-center text-stone-800 hover:bg-stone-800 hover:text-white transition-all"
+            aria-label={t('listenOn', { service: playLink.label })}
+            title={t('listenOn', { service: playLink.label })}
+          >
+            <Play size={18} fill="currentColor" className="ml-0.5" />
+          </a>
+        </div>
         
         {/* Mood Analysis Overlay */}
-        <div className="absolute top-3 left-3 opacity-0 group-hover:opacity-100 transition-all duration-300">
-            <span className="text-[10px] font-bold text-white uppercase tracking-widest bg-black/40 px-3 py-1.5 rounded-full backdrop-blur-md shadow-sm">
-                {memory.analysis.inferredEmotion}
-            </span>
-        </div>
+        {analyzed && (
+          <div className="absolute top-3 left-3 opacity-0 group-hover:opacity-100 transition-all duration-300">
+              <span className="text-[10px] font-bold text-white uppercase tracking-widest bg-black/40 px-3 py-1.5 rounded-full backdrop-blur-md shadow-sm">
+                  {shownAnalysis.inferredEmotion}
+              </span>
+          </div>
+        )}
       </div>
 
-      {/* Mood Bar */}
-      <div className="h-1.5 bg-stone-100 w-full relative">
-        <div 
-            className="absolute top-0 bottom-0 h-full transition-all duration-500 rounded-r-full"
-            style={{ 
-                left: 0, 
-                width: `${moodPercent}%`,
-                backgroundColor: memory.analysis.moodColor || '#d6d3d1'
-            }}
-        />
+      {/* Mood Bar: valence on top, energy below */}
+      <div className="w-full flex flex-col gap-px bg-white" title={describeMood(memory.moodScore, memory.energy, language)}>
+        {[
+          { value: memory.moodScore, color: memory.analysis.moodColor || moodPointColor(memory.moodScore, memory.energy) },
+          { value: memory.energy, color: moodPointColor(memory.moodScore, memory.energy) },
+        ].map(({ value, color }, i) => (
+          <div key={i} className="h-1 bg-stone-100 relative">
+            <div
+              className="absolute top-0 bottom-0 left-0 transition-all duration-500 rounded-r-full"
+              style={{ width: `${value + 50}%`, backgroundColor: color }}
+            />
+          </div>
+        ))}
       </div>
 
-      {/* Content Section */}
+      {mode === 'edit' ? (
+        /* Edit Form */
+        <div className="p-6 flex flex-col flex-grow space-y-3">
+          <input type="date" value={draftDate} max={getTodayString()} onChange={(e) => setDraftDate(e.target.value)} className={inputClass} />
+          <input type="text" value={draftTitle} placeholder={t('placeholderSong')} onChange={(e) => setDraftTitle(e.target.value)} className={inputClass} />
+          <input type="text" value={draftArtist} placeholder={t('placeholderArtist')} onChange={(e) => setDraftArtist(e.target.value)} className={inputClass} />
+          <input type="text" value={draftTrack} placeholder={t('placeholderTrack')} onChange={(e) => setDraftTrack(e.target.value)} className={inputClass} />
+          <MoodPicker
+            valence={draftScore}
+            energy={draftEnergy}
+            onChange={(valence, energy) => { setDraftScore(valence); setDraftEnergy(energy); }}
+            language={language}
+            compact
+          />
+          <div className="flex flex-wrap gap-1.5">
+            {draftTagOptions.map(tag => (
+              <button
+                key={tag}
+                onClick={() => toggleDraftTag(tag)}
+                className={`px-2 py-1 rounded-md text-[10px] font-medium border transition-all ${draftTags.includes(tag) ? 'bg-stone-700 text-white border-stone-700' : 'bg-white text-stone-600 border-stone-200 hover:border-orange-200'}`}
+              >
+                {tagLabel(tag, language, availableTags)}
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={draftContent}
+            onChange={(e) => setDraftContent(e.target.value)}
+            className={`${inputClass} min-h-[80px] resize-none leading-relaxed`}
+          />
+          <label className="flex items-start gap-2 text-[10px] text-stone-500 cursor-pointer">
+            <input type="checkbox" checked={reanalyze} onChange={(e) => setReanalyze(e.target.checked)} className="mt-0.5 accent-orange-500" />
+            <span className="flex items-center gap-1"><Sparkles size={10} className="text-orange-400 shrink-0" />{t('reanalyze')}</span>
+          </label>
+          <div className="flex gap-2 pt-2 mt-auto">
+            <button
+              onClick={() => setMode('view')}
+              className="flex-1 px-3 py-2 rounded-lg text-xs font-bold text-stone-500 bg-stone-100 hover:bg-stone-200 transition-colors"
+            >
+              {t('cancel')}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!draftTitle.trim() || !draftArtist.trim() || !draftDate}
+              className="flex-1 px-3 py-2 rounded-lg text-xs font-bold text-white bg-gradient-to-r from-orange-400 to-rose-400 hover:shadow-md hover:shadow-orange-200 transition-all disabled:opacity-50"
+            >
+              {t('save')}
+            </button>
+          </div>
+        </div>
+      ) : mode === 'art' ? (
+        /* Artwork gallery and regeneration */
+        <div className="p-6 flex flex-col flex-grow space-y-4">
+          <div className="flex items-center gap-1.5">
+            <Palette size={12} className="text-orange-400" />
+            <span className="text-[10px] font-bold uppercase tracking-wider text-stone-400">{t('artTitle')}</span>
+          </div>
+          {gallery.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-[10px] text-stone-400">{t('gallery')}</p>
+              <div className="grid grid-cols-4 gap-2">
+                {gallery.map(variant => (
+                  <button
+                    key={variant.url}
+                    onClick={() => onSelectCover(memory.id, variant.url)}
+                    className={`aspect-square rounded-lg overflow-hidden border-2 transition-all ${variant.url === memory.imageUrl ? 'border-orange-400 shadow-sm' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                    title={`${t(variant.style)} · ${variant.prompt}`}
+                  >
+                    <img src={variant.url} alt="" className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="space-y-2">
+            <p className="text-[10px] text-stone-400">{t('artPrompt')}</p>
+            <textarea
+              value={draftPrompt}
+              onChange={(e) => setDraftPrompt(e.target.value)}
+              className={`${inputClass} min-h-[72px] resize-none leading-relaxed`}
+            />
+          </div>
+          <div className="space-y-2">
+            <p className="text-[10px] text-stone-400">{t('artStyle')}</p>
+            <div className="flex flex-wrap gap-1.5">
+              {ART_STYLES.map(style => (
+                <button
+                  key={style}
+                  onClick={() => setDraftStyle(style)}
+                  className={`px-2 py-1 rounded-md text-[10px] font-medium border transition-all ${draftStyle === style ? 'bg-stone-700 text-white border-stone-700' : 'bg-white text-stone-600 border-stone-200 hover:border-orange-200'}`}
+                >
+                  {t(style)}
+                </button>
+              ))}
+            </div>
+          </div>
+          {!analyzed || pending?.tasks.includes('analysis') ? (
+            <p className="text-[10px] text-stone-400 text-center mt-auto">{t('artWaiting')}</p>
+          ) : (
+            <div className="flex gap-2 pt-2 mt-auto">
+              <button
+                onClick={() => setMode('view')}
+                className="flex-1 px-3 py-2 rounded-lg text-xs font-bold text-stone-500 bg-stone-100 hover:bg-stone-200 transition-colors"
+              >
+                {t('cancel')}
+              </button>
+              <button
+                onClick={handleRegenerate}
+                disabled={!draftPrompt.trim() || isAnalyzing}
+                className="flex-1 px-3 py-2 rounded-lg text-xs font-bold text-white bg-gradient-to-r from-orange-400 to-rose-400 hover:shadow-md hover:shadow-orange-200 transition-all disabled:opacity-50 flex items-center justify-center gap-1.5"
+              >
+                <Sparkles size={12} /> {t('regenerate')}
+              </button>
+            </div>
+          )}
+        </div>
+      ) : mode === 'history' ? (
+        /* Revision History */
+        <div className="p-6 flex flex-col flex-grow space-y-3">
+          <div className="flex items-center gap-1.5">
+            <History size={12} className="text-orange-400" />
+            <span className="text-[10px] font-bold uppercase tracking-wider text-stone-400">{t('historyTitle')}</span>
+          </div>
+          {!memory.revisions || memory.revisions.length === 0 ? (
+            <p className="text-xs text-stone-400 py-6 text-center">{t('noHistory')}</p>
+          ) : (
+            [...memory.revisions].reverse().map(revision => (
+              <div key={revision.editedAt} className="flex gap-3 p-3 rounded-xl bg-stone-50 border border-stone-100">
+                <div className="w-12 h-12 rounded-lg overflow-hidden bg-stone-100 shrink-0">
+                  {revision.imageUrl ? (
+                    <img src={revision.imageUrl} alt="" className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center"><Music size={14} className="text-stone-300" /></div>
+                  )}
+                </div>
+                <div className="min-w-0 flex-grow">
+                  <p className="text-[10px] text-stone-400">{t('editedAt')}: {formatEditedAt(revision.editedAt)}</p>
+                  <p className="text-xs font-bold text-stone-700 truncate">{revision.song.title} / {revision.song.artist}</p>
+                  <p className="text-[10px] text-stone-500 truncate">{revision.analysis.inferredEmotion}</p>
+                  {revision.content && <p className="text-[10px] text-stone-400 line-clamp-2 mt-0.5">{revision.content}</p>}
+                  <button
+                    onClick={() => handleRestore(revision.editedAt)}
+                    className="mt-1.5 flex items-center gap-1 text-[10px] font-bold text-stone-400 hover:text-orange-500 transition-colors"
+                  >
+                    <RotateCcw size={10} /> {t('restore')}
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      ) : (
+      /* Content Section */
       <div className="p-6 flex flex-col flex-grow">
         
         {/* Header Info */}
@@ -121,19 +445,26 @@ const MemoryCard: React.FC<MemoryCardProps> = ({ memory, language, onFeedback, o
             <span>{formattedDate}</span>
           </div>
           <button 
-             onClick={handleShare}
+             onClick={() => onShare(memory.id)}
              className="flex items-center gap-1 hover:text-orange-500 transition-colors"
-             title="Copy Text"
           >
-             {copied ? <Check size={12} className="text-green-500"/> : <Share2 size={12} />}
-             <span>{copied ? t('copied') : t('share')}</span>
+             <Share2 size={12} />
+             <span>{t('share')}</span>
           </button>
         </div>
 
         {/* User's Song */}
         <div className="mb-4">
-            <h3 className="text-stone-800 font-bold text-lg truncate leading-tight group-hover:text-orange-800 transition-colors">{memory.song.title}</h3>
-            <p className="text-stone-500 text-sm truncate mt-1">{memory.song.artist}</p>
+            <h3 className="text-stone-800 font-bold text-lg leading-tight group-hover:text-orange-800 transition-colors">
+              <button onClick={() => onOpenHistory(songSubject(memory.song))} className="block max-w-full truncate text-left hover:underline decoration-orange-300 underline-offset-4" title={t('openSongHistory')}>
+                {memory.song.title}
+              </button>
+            </h3>
+            <p className="text-stone-500 text-sm mt-1">
+              <button onClick={() => onOpenHistory(artistSubject(memory.song.artist))} className="block max-w-full truncate text-left hover:text-orange-500 transition-colors" title={t('openArtistHistory')}>
+                {memory.song.artist}
+              </button>
+            </p>
         </div>
 
         {/* User's Diary & Tags */}
@@ -148,7 +479,8 @@ const MemoryCard: React.FC<MemoryCardProps> = ({ memory, language, onFeedback, o
                 <div className="flex flex-wrap gap-1.5 pt-1">
                     {memory.moodTags.map(tag => (
                         <span key={tag} className="inline-flex items-center px-2 py-1 rounded-md text-[10px] font-medium bg-stone-100 text-stone-600">
-                            #{tag}
+                            {tagColor(tag) && <span className="w-1.5 h-1.5 rounded-full mr-1" style={{ backgroundColor: tagColor(tag) }} />}
+                            #{tagLabel(tag, language, availableTags)}
                         </span>
                     ))}
                 </div>
@@ -162,30 +494,120 @@ const MemoryCard: React.FC<MemoryCardProps> = ({ memory, language, onFeedback, o
              <span className="text-[10px] font-bold uppercase tracking-wider text-stone-400">{t('messageTitle')}</span>
           </div>
           
-          <p className="text-xs text-stone-600 leading-relaxed mb-4">
-             {memory.analysis.analysisText}
-          </p>
+          {analyzed && (
+            <p className="text-xs text-stone-600 leading-relaxed mb-4">
+               {shownAnalysis.analysisText}
+            </p>
+          )}
 
-          {/* Feedback UI */}
-          <div className="flex items-center justify-between mt-auto bg-stone-50 rounded-lg p-2">
-              <span className="text-[10px] text-stone-400 font-medium pl-1">{t('feedbackQuestion')}</span>
-              <div className="flex gap-1">
-                  <button 
-                    onClick={() => onFeedback(memory.id, true)}
-                    className={`w-7 h-7 rounded-md flex items-center justify-center transition-all ${memory.userFeedback === 'correct' ? 'bg-white shadow-sm text-teal-600' : 'text-stone-400 hover:bg-white hover:text-stone-600'}`}
-                  >
-                    <Check size={14} />
+          {/* Translation into the current language */}
+          {showTranslationBar && (
+            <div className="flex items-center gap-1.5 -mt-2 mb-4 pl-1 text-[10px] text-stone-400">
+              {translationStatus === 'translating' ? (
+                <>
+                  <Loader2 size={10} className="animate-spin text-orange-400 shrink-0" />
+                  <span>{t('translating')}</span>
+                </>
+              ) : translation ? (
+                <>
+                  <Languages size={10} className="shrink-0" />
+                  {!showOriginal && <span>{t('translatedFrom', { language: languageName(memory.language!, language) })} ·</span>}
+                  <button onClick={() => setShowOriginal(!showOriginal)} className="font-bold text-stone-500 hover:text-orange-500 transition-colors">
+                    {t(showOriginal ? 'showTranslation' : 'showOriginal')}
                   </button>
-                  <button 
-                    onClick={() => onFeedback(memory.id, false)}
-                    className={`w-7 h-7 rounded-md flex items-center justify-center transition-all ${memory.userFeedback === 'incorrect' ? 'bg-white shadow-sm text-rose-500' : 'text-stone-400 hover:bg-white hover:text-stone-600'}`}
-                  >
-                    <X size={14} />
+                </>
+              ) : onTranslate && (
+                <>
+                  <Languages size={10} className="shrink-0" />
+                  {translationStatus === 'failed' && <span className="text-rose-500">{t('translateFailed')} ·</span>}
+                  <button onClick={() => onTranslate(memory.id)} className="font-bold text-stone-500 hover:text-orange-500 transition-colors">
+                    {t(translationStatus === 'failed' ? 'retry' : 'translate')}
                   </button>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Queued / failed analysis */}
+          {pending && (
+            <div className={`flex items-center justify-between gap-2 rounded-lg p-2 mb-2 text-[10px] font-medium ${pending.status === 'failed' && !isAnalyzing ? 'bg-rose-50 text-rose-500' : 'bg-stone-50 text-stone-500'}`}>
+              <span className="flex items-center gap-1.5 pl-1 min-w-0" title={pending.lastError}>
+                {isAnalyzing
+                  ? <Loader2 size={12} className="animate-spin text-orange-400 shrink-0" />
+                  : pending.status === 'failed'
+                    ? <AlertCircle size={12} className="shrink-0" />
+                    : <Clock size={12} className="shrink-0" />}
+                <span className="truncate">{pendingLabel()}</span>
+                {!isAnalyzing && pending.status === 'pending' && pending.attempts > 0 && (
+                  <span className="text-stone-400 shrink-0">
+                    · {t('nextAttempt')} {formatTime(pending.nextAttemptAt, language, { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                )}
+              </span>
+              {!isAnalyzing && (
+                <button
+                  onClick={() => onRetry(memory.id)}
+                  className="flex items-center gap-1 px-2 py-1 rounded-md font-bold text-stone-500 hover:bg-white hover:text-orange-500 transition-all shrink-0"
+                >
+                  <RefreshCw size={10} /> {t('retry')}
+                </button>
+              )}
+            </div>
+          )}
+
+          {/* Feedback UI */}
+          {canGiveFeedback && (
+            <div className="flex items-center justify-between mt-auto bg-stone-50 rounded-lg p-2">
+                <span className="text-[10px] text-stone-400 font-medium pl-1">{t('feedbackQuestion')}</span>
+                <div className="flex gap-1">
+                    <button 
+                      onClick={() => onFeedback(memory.id, true)}
+                      className={`w-7 h-7 rounded-md flex items-center justify-center transition-all ${memory.userFeedback === 'correct' ? 'bg-white shadow-sm text-teal-600' : 'text-stone-400 hover:bg-white hover:text-stone-600'}`}
+                    >
+                      <Check size={14} />
+                    </button>
+                    <button 
+                      onClick={() => onFeedback(memory.id, false)}
+                      className={`w-7 h-7 rounded-md flex items-center justify-center transition-all ${memory.userFeedback === 'incorrect' ? 'bg-white shadow-sm text-rose-500' : 'text-stone-400 hover:bg-white hover:text-stone-600'}`}
+                    >
+                      <X size={14} />
+                    </button>
+                </div>
+            </div>
+          )}
+
+          {/* Correction */}
+          {memory.userFeedback === 'incorrect' && (
+            <div className="mt-2 space-y-2 animate-fade-in">
+              <p className="text-[10px] text-stone-500 font-medium pl-1">{t('correctionPrompt')}</p>
+              <div className="flex gap-1.5">
+                <input
+                  type="text"
+                  value={correction}
+                  onChange={(e) => setCorrection(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter' && !e.nativeEvent.isComposing) handleCorrect(); }}
+                  placeholder={t('correctionPlaceholder')}
+                  className={`${inputClass} flex-grow`}
+                />
+                <button
+                  onClick={handleCorrect}
+                  disabled={!correction.trim()}
+                  className="px-2.5 rounded-lg text-white bg-gradient-to-r from-orange-400 to-rose-400 disabled:opacity-40 flex items-center"
+                  title={t('correctionSubmit')}
+                >
+                  <Sparkles size={12} />
+                </button>
               </div>
-          </div>
+            </div>
+          )}
+          {memory.userCorrection && memory.userFeedback !== 'incorrect' && (
+            <p className="mt-2 text-[10px] text-stone-400 pl-1">
+              {t('yourWords')}: <span className="text-stone-600 font-medium">{memory.userCorrection}</span>
+            </p>
+          )}
         </div>
       </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,92 @@
+import React, { useRef } from 'react';
+import { Language } from '../types';
+import { translator } from '../i18n';
+import { moodPointColor } from '../services/calendarService';
+import { describeMood, clampMood } from '../services/moodService';
+
+interface MoodPickerProps {
+  valence: number;
+  energy: number;
+  onChange: (valence: number, energy: number) => void;
+  language: Language;
+  compact?: boolean; // for the edit form on a card
+}
+
+const KEY_STEP = 5;
+
+// Valence across, energy up: a point on the circumplex rather than one slider
+const MoodPicker: React.FC<MoodPickerProps> = ({ valence, energy, onChange, language, compact = false }) => {
+  const padRef = useRef<HTMLDivElement>(null);
+  const t = translator(language, 'mood');
+
+  const pickAt = (event: React.PointerEvent) => {
+    const rect = padRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    onChange(
+      clampMood(((event.clientX - rect.left) / rect.width) * 100 - 50),
+      clampMood(50 - ((event.clientY - rect.top) / rect.height) * 100)
+    );
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-KEY_STEP, 0],
+      ArrowRight: [KEY_STEP, 0],
+      ArrowUp: [0, KEY_STEP],
+      ArrowDown: [0, -KEY_STEP],
+    };
+    const move = moves[event.key];
+    if (!move) return;
+    event.preventDefault();
+    onChange(clampMood(valence + move[0]), clampMood(energy + move[1]));
+  };
+
+  const valueText = describeMood(valence, energy, language);
+  const axisClass = `absolute text-stone-400 font-medium pointer-events-none ${compact ? 'text-[9px]' : 'text-[10px]'}`;
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={padRef}
+        role="slider"
+        tabIndex={0}
+        aria-label={t('pickerLabel')}
+        aria-valuetext={valueText}
+        onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); pickAt(e); }}
+        onPointerMove={(e) => { if (e.currentTarget.hasPointerCapture(e.pointerId)) pickAt(e); }}
+        onKeyDown={handleKeyDown}
+        className={`relative w-full ${compact ? 'h-32' : 'h-48'} rounded-xl overflow-hidden cursor-crosshair touch-none select-none border border-stone-200 focus:outline-none focus:ring-2 focus:ring-orange-200`}
+      >
+        {/* Lower corners underneath, upper corners fading in toward the top */}
+        <div className="absolute inset-0" style={{ background: `linear-gradient(to right, ${moodPointColor(-50, -50)}, ${moodPointColor(50, -50)})` }} />
+        <div
+          className="absolute inset-0"
+          style={{
+            background: `linear-gradient(to right, ${moodPointColor(-50, 50)}, ${moodPointColor(50, 50)})`,
+            maskImage: 'linear-gradient(to bottom, black, transparent)',
+            WebkitMaskImage: 'linear-gradient(to bottom, black, transparent)',
+          }}
+        />
+        <div className="absolute inset-0 bg-[radial-gradient(circle,rgba(255,255,255,0.85),rgba(255,255,255,0.25)_70%)]" />
+        <div className="absolute left-0 right-0 top-1/2 h-px bg-stone-300/70" />
+        <div className="absolute top-0 bottom-0 left-1/2 w-px bg-stone-300/70" />
+
+        <span className={`${axisClass} top-1.5 left-1/2 -translate-x-1/2`}>{t('energetic')}</span>
+        <span className={`${axisClass} bottom-1.5 left-1/2 -translate-x-1/2`}>{t('calm')}</span>
+        <span className={`${axisClass} left-2 top-1/2 -translate-y-1/2`}>{t('unpleasant')}</span>
+        <span className={`${axisClass} right-2 top-1/2 -translate-y-1/2`}>{t('pleasant')}</span>
+
+        <div
+          className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white shadow-md pointer-events-none transition-[background-color] duration-200"
+          style={{ left: `${valence + 50}%`, top: `${50 - energy}%`, backgroundColor: moodPointColor(valence, energy) }}
+        />
+      </div>
+      <div className="flex items-center justify-between gap-3 text-[10px]">
+        <span className="font-bold text-stone-600">{valueText}</span>
+        {!compact && <span className="text-stone-400 text-right">{t('hint')}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default MoodPicker;
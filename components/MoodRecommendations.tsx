@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Memory, Language, TagDefinition, UserSongInput, SongRecommendation } from '../types';
+import { translator } from '../i18n';
+import { matchHistory, recommendNewSongs } from '../services/recommendationService';
+import { Compass, WandSparkles, Loader2, CircleCheck, RefreshCw } from 'lucide-react';
+
+interface MoodRecommendationsProps {
+  memories: Memory[];
+  moodScore: number;
+  energy: number;
+  selectedTags: string[];
+  tags: TagDefinition[];
+  language: Language;
+  canAskAi: boolean; // false for the offline provider, or while offline
+  onPick: (song: UserSongInput) => void;
+}
+
+const MoodRecommendations: React.FC<MoodRecommendationsProps> = ({ memories, moodScore, energy, selectedTags, tags, language, canAskAi, onPick }) => {
+  const [newSongs, setNewSongs] = useState<SongRecommendation[] | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+  const [failed, setFailed] = useState(false);
+  // Answers to an older mood are ignored once the mood or tags move on
+  const requestRef = useRef(0);
+
+  const t = translator(language, 'recommendations');
+
+  const tagKey = selectedTags.join(',');
+  const matches = useMemo(() => matchHistory(memories, moodScore, energy, selectedTags), [memories, moodScore, energy, tagKey]);
+
+  useEffect(() => {
+    requestRef.current++;
+    setNewSongs(null);
+    setFailed(false);
+    setIsAsking(false);
+  }, [moodScore, energy, tagKey, language]);
+
+  const ask = async () => {
+    const request = ++requestRef.current;
+    setIsAsking(true);
+    setFailed(false);
+    try {
+      const songs = await recommendNewSongs(memories, moodScore, energy, selectedTags, language, tags);
+      if (request === requestRef.current) setNewSongs(songs);
+    } catch (error) {
+      console.error("Failed to get recommendations", error);
+      if (request === requestRef.current) setFailed(true);
+    } finally {
+      if (request === requestRef.current) setIsAsking(false);
+    }
+  };
+
+  if (matches.length === 0 && !canAskAi) return null;
+
+  const songButtonClass = 'text-left px-3 py-2 rounded-xl border border-stone-200 bg-white hover:border-orange-200 hover:bg-orange-50 transition-all min-w-0';
+
+  return (
+    <div className="bg-stone-50/50 rounded-2xl p-5 border border-stone-100 space-y-4 animate-fade-in">
+      <p className="text-[10px] font-bold text-stone-400 uppercase tracking-wider flex items-center gap-1.5">
+        <Compass size={12} className="text-orange-400" /> {t('title')}
+      </p>
+
+      <div className="space-y-2">
+        <p className="text-[10px] text-stone-400">{t('fromHistory')}</p>
+        {matches.length === 0 ? (
+          <p className="text-xs text-stone-400">{t('noHistory')}</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {matches.map(match => (
+              <button key={`${match.song.artist}/${match.song.title}`} onClick={() => onPick(match.song)} className={songButtonClass} title={t('use')}>
+                <span className="block text-xs font-bold text-stone-700 truncate">{match.song.title}</span>
+                <span className="flex items-center gap-1.5 text-[10px] text-stone-400">
+                  <span className="truncate">{match.song.artist}</span>
+                  <span className="shrink-0">· {t('times', { count: match.count })}</span>
+                  {match.confirmed > 0 && (
+                    <span className="flex items-center gap-0.5 text-teal-600 shrink-0" title={t('confirmed', { count: match.confirmed })}>
+                      <CircleCheck size={10} /> {match.confirmed}
+                    </span>
+                  )}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {canAskAi && (
+        <div className="space-y-2">
+          {newSongs && (
+            <>
+              <p className="text-[10px] text-stone-400">{t('newSongs')}</p>
+              {newSongs.length === 0 ? (
+                <p className="text-xs text-stone-400">{t('noneNew')}</p>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  {newSongs.map(song => (
+                    <button key={`${song.artist}/${song.title}`} onClick={() => onPick({ title: song.title, artist: song.artist })} className={songButtonClass} title={t('use')}>
+                      <span className="block text-xs font-bold text-stone-700 truncate">{song.title}</span>
+                      <span className="block text-[10px] text-stone-400 truncate">{song.artist}</span>
+                      <span className="block text-[10px] text-stone-500 leading-relaxed mt-1">{song.reason}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+          {isAsking ? (
+            <p className="flex items-center gap-2 text-[10px] text-stone-500">
+              <Loader2 size={12} className="animate-spin text-orange-400" /> {t('asking')}
+            </p>
+          ) : (
+            <button
+              onClick={ask}
+              className="px-3 py-1.5 rounded-lg text-[10px] font-bold flex items-center gap-1.5 text-stone-500 hover:text-orange-500 hover:bg-white transition-all"
+            >
+              {newSongs ? <RefreshCw size={12} /> : <WandSparkles size={12} />} {t(newSongs ? 'askAgain' : 'ask')}
+            </button>
+          )}
+          {failed && <p className="text-[10px] text-rose-500">{t('failed')}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MoodRecommendations;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { Memory, Language } from '../types';
+import { translator, formatDate } from '../i18n';
+import { moodPointColor } from '../services/calendarService';
+import { CalendarHeart, Music, PenLine } from 'lucide-react';
+
+interface OnThisDayProps {
+  memories: Memory[]; // from memoriesOnThisDay
+  language: Language;
+  onRecordAgain: (memory: Memory) => void;
+}
+
+const OnThisDay: React.FC<OnThisDayProps> = ({ memories, language, onRecordAgain }) => {
+  const t = translator(language, 'onThisDay');
+
+  if (memories.length === 0) return null;
+
+  const thisYear = new Date().getFullYear();
+
+  return (
+    <section className="mb-12 animate-fade-in">
+      <h3 className="text-xs font-bold text-stone-400 uppercase tracking-wider flex items-center gap-2 mb-4">
+        <CalendarHeart size={14} className="text-orange-400" /> {t('title')}
+      </h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {memories.map(memory => {
+          const date = new Date(memory.timestamp);
+          return (
+            <div key={memory.id} className="flex gap-4 p-4 bg-white rounded-2xl border border-stone-100 shadow-sm">
+              {memory.imageUrl ? (
+                <img src={memory.imageUrl} alt="" className="w-16 h-16 rounded-xl object-cover shrink-0" />
+              ) : (
+                <div className="w-16 h-16 rounded-xl shrink-0 flex items-center justify-center" style={{ backgroundColor: moodPointColor(memory.moodScore, memory.energy) }}>
+                  <Music size={18} className="text-white/80" />
+                </div>
+              )}
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="text-[10px] text-stone-400">
+                  <span className="font-bold text-orange-500">{t('yearsAgo', { count: thisYear - date.getFullYear() })}</span>
+                  {' · '}{formatDate(date, language, { year: 'numeric', month: 'short', day: 'numeric' })}
+                </p>
+                <p className="text-sm font-bold text-stone-700 truncate">{memory.song.title}</p>
+                <p className="text-[10px] text-stone-400 truncate">{memory.song.artist}</p>
+                {memory.content && <p className="text-[10px] text-stone-500 line-clamp-2">{memory.content}</p>}
+                <button
+                  onClick={() => onRecordAgain(memory)}
+                  className="mt-1 px-2.5 py-1 rounded-lg text-[10px] font-bold flex items-center gap-1.5 text-stone-500 bg-stone-50 hover:text-orange-600 hover:bg-orange-50 transition-colors"
+                  title={t('recordAgainHelp')}
+                >
+                  <PenLine size={12} /> {t('recordAgain')}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default OnThisDay;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Language } from '../types';
+import { translator } from '../i18n';
+import { MIN_PASSPHRASE_LENGTH } from '../services/cryptoService';
+import { FileLock, X, Loader2 } from 'lucide-react';
+
+interface PassphraseDialogProps {
+  language: Language;
+  mode: 'export' | 'import' | 'transfer' | 'delete'; // export chooses a new passphrase, so it is entered twice
+  target?: string; // for transfer and delete, the name of the locked diary
+  onSubmit: (passphrase: string) => Promise<boolean>; // false keeps the dialog open with the wrong-passphrase note
+  onCancel: () => void;
+}
+
+const PassphraseDialog: React.FC<PassphraseDialogProps> = ({ language, mode, target = '', onSubmit, onCancel }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [wrong, setWrong] = useState(false);
+
+  const t = translator(language, 'lock');
+
+  const texts = {
+    export: { title: t('exportTitle'), help: t('exportHelp'), submit: t('export') },
+    import: { title: t('importTitle'), help: t('importHelp'), submit: t('import') },
+    transfer: { title: t('lockedTitle'), help: t('transferHelp', { name: target }), submit: t('transfer') },
+    delete: { title: t('lockedTitle'), help: t('deleteHelp', { name: target }), submit: t('delete') },
+  }[mode];
+
+  const problem = mode !== 'export' || !passphrase
+    ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? t('tooShort', { count: MIN_PASSPHRASE_LENGTH })
+      : confirm && confirm !== passphrase ? t('mismatch') : null;
+  const canSubmit = !!passphrase && !problem && (mode !== 'export' || confirm === passphrase) && !isWorking;
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canSubmit) return;
+    setIsWorking(true);
+    setWrong(false);
+    try {
+      if (!(await onSubmit(passphrase))) setWrong(true);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const inputClass = "w-full bg-stone-50 border border-stone-200 text-stone-700 placeholder-stone-400 px-3 py-2 rounded-lg outline-none focus:bg-white focus:border-orange-300 transition-all text-xs";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-stone-900/30 backdrop-blur-sm flex items-center justify-center p-6 animate-fade-in">
+      <form onSubmit={submit} className="bg-white rounded-3xl shadow-xl w-full max-w-md flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-8 py-5 border-b border-stone-100">
+          <h2 className="text-lg font-bold text-stone-700 flex items-center gap-2">
+            <FileLock size={18} className="text-orange-400" /> {texts.title}
+          </h2>
+          <button type="button" onClick={onCancel} className="p-2 text-stone-400 hover:text-stone-600 rounded-full hover:bg-stone-50 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-8 py-6 space-y-3">
+          <p className="text-xs text-stone-500 leading-relaxed">{texts.help}</p>
+          <input
+            type="password"
+            value={passphrase}
+            placeholder={t('passphrase')}
+            aria-label={t('passphrase')}
+            autoComplete={mode === 'export' ? 'new-password' : 'off'}
+            autoFocus
+            onChange={(e) => { setPassphrase(e.target.value); setWrong(false); }}
+            className={inputClass}
+          />
+          {mode === 'export' && (
+            <input
+              type="password"
+              value={confirm}
+              placeholder={t('confirmPassphrase')}
+              aria-label={t('confirmPassphrase')}
+              autoComplete="new-password"
+              onChange={(e) => setConfirm(e.target.value)}
+              className={inputClass}
+            />
+          )}
+          {problem && <p className="text-[10px] text-rose-500">{problem}</p>}
+          {wrong && <p className="text-[10px] text-rose-500">{t('wrongPassphrase')}</p>}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 px-8 py-5 border-t border-stone-100 bg-stone-50/50">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-5 py-2.5 rounded-xl font-bold text-xs text-stone-500 bg-stone-100 hover:bg-stone-200 hover:text-stone-700 transition-colors"
+          >
+            {t('cancel')}
+          </button>
+          <button
+            type="submit"
+            disabled={!canSubmit}
+            className="px-5 py-2.5 rounded-xl font-bold text-xs text-white bg-gradient-to-r from-orange-400 to-rose-400 hover:shadow-lg hover:shadow-orange-200 transition-all disabled:opacity-40 disabled:hover:shadow-none flex items-center gap-2"
+          >
+            {isWorking && <Loader2 size={12} className="animate-spin" />}
+            {texts.submit}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default PassphraseDialog;
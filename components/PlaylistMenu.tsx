@@ -0,0 +1,55 @@
+import React, { useMemo, useState } from 'react';
+import { Memory, Language } from '../types';
+import { translator } from '../i18n';
+import { PlaylistFormat, PLAYLIST_FORMATS, playlistTracks, createPlaylist, playlistFileName } from '../services/playlistService';
+import { downloadBlob } from '../utils/download';
+import { ListMusic } from 'lucide-react';
+
+interface PlaylistMenuProps {
+  memories: Memory[]; // the selection to export
+  title: string; // playlist title, also used for the file name
+  language: Language;
+  placement?: 'below' | 'above';
+}
+
+const PlaylistMenu: React.FC<PlaylistMenuProps> = ({ memories, title, language, placement = 'below' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const t = translator(language, 'playlist');
+
+  const trackCount = useMemo(() => playlistTracks(memories).length, [memories]);
+
+  const exportAs = (format: PlaylistFormat) => {
+    downloadBlob(createPlaylist(memories, format, title), playlistFileName(title, format));
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={trackCount === 0}
+        className="px-3 py-1.5 rounded-lg text-[10px] font-bold flex items-center gap-1.5 text-stone-400 hover:text-stone-700 hover:bg-white transition-all disabled:opacity-40 disabled:hover:bg-transparent"
+      >
+        <ListMusic size={12} />
+        <span>{t('playlist')}</span>
+      </button>
+      {isOpen && (
+        <div className={`absolute left-0 ${placement === 'above' ? 'bottom-full mb-2' : 'top-full mt-2'} z-30 w-56 bg-white rounded-xl border border-stone-100 shadow-lg p-1.5 animate-fade-in`}>
+          <p className="px-3 py-1.5 text-[10px] text-stone-400">{t('songs', { count: trackCount })}</p>
+          {PLAYLIST_FORMATS.map(format => (
+            <button
+              key={format}
+              onClick={() => exportAs(format)}
+              className="w-full text-left px-3 py-2 rounded-lg text-xs text-stone-600 hover:bg-orange-50 hover:text-orange-600 transition-colors"
+            >
+              {t(format)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaylistMenu;
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Language, Profile } from '../types';
+import { translator } from '../i18n';
+import { profileName } from '../services/profileService';
+import { DEFAULT_PROFILE_ID } from '../services/storageService';
+import PassphraseDialog from './PassphraseDialog';
+import { Users, Check, Pencil, Trash2, Plus } from 'lucide-react';
+
+interface ProfileMenuProps {
+  profiles: Profile[];
+  activeId: string;
+  language: Language;
+  disabled?: boolean; // while a profile is opening
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void; // and switch to it
+  onRename: (id: string, name: string) => void;
+  // Resolves false when that profile is locked and the passphrase is missing or wrong
+  onDelete: (id: string, passphrase?: string) => Promise<boolean>;
+}
+
+// Header switcher; the open profile can be renamed, the others deleted
+const ProfileMenu: React.FC<ProfileMenuProps> = ({ profiles, activeId, language, disabled = false, onSwitch, onCreate, onRename, onDelete }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  // A locked profile asks for its passphrase before it is deleted
+  const [needsPassphrase, setNeedsPassphrase] = useState<Profile | null>(null);
+
+  const t = translator(language, 'profiles');
+
+  const active = profiles.find(profile => profile.id === activeId);
+
+  const choose = (id: string) => {
+    setIsOpen(false);
+    if (id !== activeId) onSwitch(id);
+  };
+
+  const create = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) return;
+    onCreate(newName);
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  const saveRename = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (renaming === null) return;
+    onRename(activeId, renaming);
+    setRenaming(null);
+  };
+
+  const remove = async (profile: Profile) => {
+    if (!window.confirm(t('confirmDelete', { name: profileName(profile, language) }))) return;
+    if (!(await onDelete(profile.id))) setNeedsPassphrase(profile);
+  };
+
+  const removeLocked = async (passphrase: string): Promise<boolean> => {
+    if (!needsPassphrase || !(await onDelete(needsPassphrase.id, passphrase))) return false;
+    setNeedsPassphrase(null);
+    return true;
+  };
+
+  const iconButtonClass = 'p-1.5 rounded-md text-stone-400 hover:text-stone-700 hover:bg-stone-100 transition-colors';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => { setIsOpen(!isOpen); setRenaming(null); }}
+        disabled={disabled}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-[10px] font-bold text-stone-500 hover:text-stone-700 hover:bg-stone-100 transition-colors disabled:opacity-40"
+        title={t('switch')}
+      >
+        <Users size={14} />
+        <span className="max-w-[8rem] truncate">{active ? profileName(active, language) : ''}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-30 w-64 bg-white rounded-xl border border-stone-100 shadow-lg p-1.5 animate-fade-in">
+          {profiles.map(profile => (
+            <div key={profile.id} className="flex items-center gap-1">
+              {profile.id === activeId && renaming !== null ? (
+                <form onSubmit={saveRename} className="flex-1 flex items-center gap-1 px-1 py-1">
+                  <input
+                    type="text"
+                    value={renaming}
+                    placeholder={t('defaultName')}
+                    autoFocus
+                    onChange={(e) => setRenaming(e.target.value)}
+                    className="flex-1 min-w-0 bg-stone-50 border border-stone-200 text-stone-700 placeholder-stone-400 px-2 py-1.5 rounded-lg outline-none focus:bg-white focus:border-orange-300 transition-all text-xs"
+                  />
+                  <button type="submit" className={iconButtonClass} title={t('rename')}>
+                    <Check size={14} />
+                  </button>
+                </form>
+              ) : (
+                <>
+                  <button
+                    onClick={() => choose(profile.id)}
+                    className={`flex-1 min-w-0 text-left px-3 py-2 rounded-lg text-xs flex items-center gap-2 transition-colors ${profile.id === activeId ? 'text-stone-800 font-bold' : 'text-stone-600 hover:bg-orange-50 hover:text-orange-600'}`}
+                  >
+                    <span className="w-3.5 shrink-0">{profile.id === activeId && <Check size={14} className="text-orange-400" />}</span>
+                    <span className="truncate">{profileName(profile, language)}</span>
+                  </button>
+                  {profile.id === activeId ? (
+                    <button onClick={() => setRenaming(profile.name)} className={iconButtonClass} title={t('rename')}>
+                      <Pencil size={12} />
+                    </button>
+                  ) : profile.id !== DEFAULT_PROFILE_ID && (
+                    <button onClick={() => remove(profile)} className={`${iconButtonClass} hover:text-rose-500`} title={t('delete')}>
+                      <Trash2 size={12} />
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+          <form onSubmit={create} className="flex items-center gap-1 px-1 pt-2 mt-1 border-t border-stone-100">
+            <input
+              type="text"
+              value={newName}
+              placeholder={t('namePlaceholder')}
+              aria-label={t('newProfile')}
+              onChange={(e) => setNewName(e.target.value)}
+              className="flex-1 min-w-0 bg-stone-50 border border-stone-200 text-stone-700 placeholder-stone-400 px-2 py-1.5 rounded-lg outline-none focus:bg-white focus:border-orange-300 transition-all text-xs"
+            />
+            <button type="submit" disabled={!newName.trim()} className={`${iconButtonClass} disabled:opacity-30`} title={t('add')}>
+              <Plus size={14} />
+            </button>
+          </form>
+        </div>
+      )}
+      {needsPassphrase && (
+        <PassphraseDialog
+          language={language}
+          mode="delete"
+          target={profileName(needsPassphrase, language)}
+          onSubmit={removeLocked}
+          onCancel={() => setNeedsPassphrase(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProfileMenu;
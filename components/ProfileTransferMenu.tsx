@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { Memory, Language, Profile } from '../types';
+import { translator } from '../i18n';
+import { profileName } from '../services/profileService';
+import PassphraseDialog from './PassphraseDialog';
+import { ArrowRightLeft, Loader2 } from 'lucide-react';
+
+interface ProfileTransferMenuProps {
+  memories: Memory[]; // the selection to send
+  profiles: Profile[];
+  activeId: string;
+  language: Language;
+  // Resolves false when the other profile is locked and the passphrase is missing or wrong
+  onTransfer: (targetId: string, move: boolean, passphrase?: string) => Promise<boolean>;
+}
+
+interface PendingTransfer {
+  target: Profile;
+  move: boolean;
+}
+
+const ProfileTransferMenu: React.FC<ProfileTransferMenuProps> = ({ memories, profiles, activeId, language, onTransfer }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  // A locked target asks for its passphrase before anything is sent
+  const [needsPassphrase, setNeedsPassphrase] = useState<PendingTransfer | null>(null);
+
+  const t = translator(language, 'profiles');
+
+  const others = profiles.filter(profile => profile.id !== activeId);
+  if (others.length === 0) return null;
+
+  // The count is taken before a move empties the selection
+  const send = async ({ target, move }: PendingTransfer, passphrase?: string): Promise<boolean> => {
+    const count = memories.length;
+    const name = profileName(target, language);
+    setIsSending(true);
+    setStatus(null);
+    try {
+      if (!(await onTransfer(target.id, move, passphrase))) {
+        setNeedsPassphrase({ target, move });
+        return false;
+      }
+      setNeedsPassphrase(null);
+      setStatus(t(move ? 'moved' : 'copied', { count, name }));
+    } catch (error) {
+      console.error("Failed to send memories to another profile", error);
+      setNeedsPassphrase(null);
+      setStatus(t('failed'));
+    } finally {
+      setIsSending(false);
+    }
+    return true;
+  };
+
+  const start = (target: Profile, move: boolean) => {
+    if (move && !window.confirm(t('confirmMove', { count: memories.length, name: profileName(target, language) }))) return;
+    send({ target, move });
+  };
+
+  const actionClass = 'px-2 py-1 rounded-md text-[10px] font-bold text-stone-500 hover:text-orange-600 hover:bg-orange-50 transition-colors disabled:opacity-40';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => { setIsOpen(!isOpen); setStatus(null); }}
+        disabled={memories.length === 0}
+        className="px-3 py-1.5 rounded-lg text-[10px] font-bold flex items-center gap-1.5 text-stone-400 hover:text-stone-700 hover:bg-white transition-all disabled:opacity-40 disabled:hover:bg-transparent"
+      >
+        <ArrowRightLeft size={12} />
+        <span>{t('transfer')}</span>
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 z-30 w-64 bg-white rounded-xl border border-stone-100 shadow-lg p-1.5 animate-fade-in">
+          <p className="px-3 py-1.5 text-[10px] text-stone-400">{t('transferCount', { count: memories.length })}</p>
+          {others.map(profile => (
+            <div key={profile.id} className="flex items-center gap-1 px-3 py-1.5">
+              <span className="flex-1 min-w-0 truncate text-xs text-stone-600">{profileName(profile, language)}</span>
+              <button onClick={() => start(profile, false)} disabled={isSending || memories.length === 0} className={actionClass}>{t('copy')}</button>
+              <button onClick={() => start(profile, true)} disabled={isSending || memories.length === 0} className={actionClass}>{t('move')}</button>
+            </div>
+          ))}
+          {(isSending || status) && (
+            <p className="flex items-center gap-1.5 px-3 py-1.5 text-[10px] text-stone-500 border-t border-stone-100 mt-1">
+              {isSending ? <><Loader2 size={12} className="animate-spin text-orange-400" /> {t('sending')}</> : status}
+            </p>
+          )}
+        </div>
+      )}
+      {needsPassphrase && (
+        <PassphraseDialog
+          language={language}
+          mode="transfer"
+          target={profileName(needsPassphrase.target, language)}
+          onSubmit={(passphrase) => send(needsPassphrase, passphrase)}
+          onCancel={() => setNeedsPassphrase(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ProfileTransferMenu;
@@ -0,0 +1,258 @@
+import React, { useMemo, useState } from 'react';
+import { Memory, Language, Recap, RecapPeriod, RecapStats } from '../types';
+import { translator, LOCALE_TAGS } from '../i18n';
+import { computeRecapStats, memoriesInPeriod, recapId, recapLabel, recapStart, formatScore } from '../services/recapService';
+import { moodScoreColor } from '../services/calendarService';
+import PlaylistMenu from './PlaylistMenu';
+import { BookOpen, X, Loader2, Sparkles, RefreshCw, Trash2, Music, Mic2, Tag, TrendingUp, Sun, CloudRain, Mail } from 'lucide-react';
+
+interface RecapPanelProps {
+  period: RecapPeriod;
+  date: Date; // any day in the period
+  memories: Memory[];
+  recaps: Recap[];
+  language: Language;
+  tagLabel: (id: string) => string;
+  onNavigate: (period: RecapPeriod, date: Date) => void;
+  onGenerate: (period: RecapPeriod, date: Date) => Promise<void>;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const RecapPanel: React.FC<RecapPanelProps> = ({ period, date, memories, recaps, language, tagLabel, onNavigate, onGenerate, onDelete, onClose }) => {
+  const [isWriting, setIsWriting] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const t = translator(language, 'recap');
+  const locale = LOCALE_TAGS[language];
+
+  const start = recapStart(period, date).getTime();
+  const saved = recaps.find(recap => recap.id === recapId(period, date));
+  const periodMemories = useMemo(() => memoriesInPeriod(memories, period, date), [memories, period, start]);
+  const live = useMemo(() => computeRecapStats(periodMemories, period, date), [periodMemories, period, start]);
+  // A saved recap is shown as it was written; the live numbers fill in until then
+  const stats: RecapStats = saved?.stats ?? live;
+  const isOutdated = !!saved && saved.stats.memoryCount !== live.memoryCount;
+
+  const write = async () => {
+    setIsWriting(true);
+    setFailed(false);
+    try {
+      await onGenerate(period, date);
+    } catch (error) {
+      console.error("Failed to write recap", error);
+      setFailed(true);
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (saved && window.confirm(t('confirmDelete'))) onDelete(saved.id);
+  };
+
+  const formatDay = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(locale, { month: 'short', day: 'numeric', weekday: 'short' });
+
+  const segmentClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-[10px] font-bold transition-all ${active ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`;
+
+  const sectionTitle = (Icon: React.ElementType, label: string) => (
+    <h3 className="text-[10px] font-bold text-stone-400 uppercase tracking-wider flex items-center gap-1.5 mb-3">
+      <Icon size={12} className="text-orange-400" /> {label}
+    </h3>
+  );
+
+  const arcMax = 50;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-stone-900/30 backdrop-blur-sm flex items-center justify-center p-6 animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between gap-4 px-8 py-5 border-b border-stone-100">
+          <h2 className="text-lg font-bold text-stone-700 flex items-center gap-2">
+            <BookOpen size={18} className="text-orange-400" /> {t('title')}: {recapLabel(period, start, language)}
+          </h2>
+          <div className="flex items-center gap-2">
+            <div className="inline-flex bg-stone-100 p-1 rounded-xl">
+              <button onClick={() => onNavigate('month', date)} className={segmentClass(period === 'month')}>{t('month')}</button>
+              <button onClick={() => onNavigate('year', date)} className={segmentClass(period === 'year')}>{t('year')}</button>
+            </div>
+            <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-600 rounded-full hover:bg-stone-50 transition-colors">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        <div className="px-8 py-6 overflow-y-auto space-y-8">
+          {recaps.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">{t('saved')}</p>
+              <div className="flex flex-wrap gap-1.5">
+                {recaps.map(recap => (
+                  <button
+                    key={recap.id}
+                    onClick={() => onNavigate(recap.period, new Date(recap.start))}
+                    className={`px-3 py-1 rounded-full text-[10px] font-medium border transition-all ${recap.id === saved?.id ? 'bg-stone-700 text-white border-stone-700' : 'bg-white text-stone-600 border-stone-200 hover:border-orange-200 hover:bg-orange-50'}`}
+                  >
+                    {recapLabel(recap.period, recap.start, language)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {stats.memoryCount === 0 ? (
+            <p className="text-center py-12 text-stone-400 text-xs">{t('empty')}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="bg-stone-50 rounded-2xl p-4 border border-stone-100">
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-stone-400">{t('memories')}</p>
+                  <p className="text-2xl font-bold text-stone-700 mt-1">{stats.memoryCount}</p>
+                </div>
+                <div className="bg-stone-50 rounded-2xl p-4 border border-stone-100">
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-stone-400">{t('averageMood')}</p>
+                  <p className="text-2xl font-bold mt-1" style={{ color: moodScoreColor(stats.averageMood) }}>{formatScore(stats.averageMood)}</p>
+                </div>
+              </div>
+
+              {/* Mood arc */}
+              <section>
+                {sectionTitle(TrendingUp, t('moodArc'))}
+                <div className="flex items-stretch gap-1 h-24">
+                  {stats.moodArc.map(point => {
+                    const label = new Date(point.start).toLocaleDateString(locale, period === 'year' ? { month: 'short' } : { month: 'numeric', day: 'numeric' });
+                    const height = point.averageMood === null ? 0 : (Math.abs(point.averageMood) / arcMax) * 50;
+                    return (
+                      <div key={point.start} className="flex-1 flex flex-col items-center gap-1" title={point.averageMood === null ? label : `${label}: ${formatScore(point.averageMood)} (${point.count})`}>
+                        <div className="relative flex-1 w-full bg-stone-50 rounded-md overflow-hidden">
+                          <div className="absolute left-0 right-0 top-1/2 h-px bg-stone-200" />
+                          {point.averageMood !== null && (
+                            <div
+                              className="absolute left-1 right-1 rounded-sm"
+                              style={{
+                                backgroundColor: moodScoreColor(point.averageMood),
+                                height: `${Math.max(height, 2)}%`,
+                                ...(point.averageMood >= 0 ? { bottom: '50%' } : { top: '50%' }),
+                              }}
+                            />
+                          )}
+                        </div>
+                        <span className="text-[9px] text-stone-400">{label}</span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <section>
+                  {sectionTitle(Music, t('topSongs'))}
+                  <ol className="space-y-1.5">
+                    {stats.topSongs.map(song => (
+                      <li key={`${song.label}/${song.sublabel}`} className="text-xs text-stone-600 flex justify-between gap-2">
+                        <span className="truncate">{song.label} <span className="text-stone-400">/ {song.sublabel}</span></span>
+                        <span className="text-stone-400 shrink-0">{t('times', { count: song.count })}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+                <section>
+                  {sectionTitle(Mic2, t('topArtists'))}
+                  <ol className="space-y-1.5">
+                    {stats.topArtists.map(artist => (
+                      <li key={artist.label} className="text-xs text-stone-600 flex justify-between gap-2">
+                        <span className="truncate">{artist.label}</span>
+                        <span className="text-stone-400 shrink-0">{t('times', { count: artist.count })}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+                <section>
+                  {sectionTitle(Tag, t('topTags'))}
+                  <div className="flex flex-wrap gap-1.5">
+                    {stats.topTags.map(({ tag, count }) => (
+                      <span key={tag} className="px-2 py-1 rounded-md text-[10px] font-medium bg-stone-100 text-stone-600">
+                        #{tagLabel(tag)} <span className="text-stone-400">{count}</span>
+                      </span>
+                    ))}
+                  </div>
+                </section>
+              </div>
+
+              {/* Standout days */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {([
+                  { highlight: stats.highest, icon: Sun, label: t('highest') },
+                  { highlight: stats.lowest, icon: CloudRain, label: t('lowest') },
+                ]).filter(({ highlight }) => highlight).map(({ highlight, icon: Icon, label }) => (
+                  <div key={label} className="p-4 rounded-2xl border border-stone-100 bg-stone-50/60">
+                    <p className="text-[10px] font-bold uppercase tracking-wider text-stone-400 flex items-center gap-1.5">
+                      <Icon size={12} className="text-orange-400" /> {label}
+                    </p>
+                    <p className="text-xs font-bold text-stone-700 mt-2 truncate">{highlight!.song.title} / {highlight!.song.artist}</p>
+                    <p className="text-[10px] text-stone-500 mt-0.5">
+                      {formatDay(highlight!.timestamp)} · {formatScore(highlight!.moodScore)}{highlight!.emotion && ` · ${highlight!.emotion}`}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              {/* Letter */}
+              <section className="bg-orange-50/40 rounded-2xl border border-orange-100 p-6">
+                {sectionTitle(Mail, t('letter'))}
+                {saved ? (
+                  <>
+                    <p className="text-sm text-stone-600 leading-relaxed whitespace-pre-wrap">{saved.letter}</p>
+                    <p className="text-[10px] text-stone-400 mt-4">
+                      {t('createdAt')}: {new Date(saved.createdAt).toLocaleDateString(locale)}
+                      {isOutdated && ` · ${t('outdated')}`}
+                    </p>
+                  </>
+                ) : !isWriting && (
+                  <button
+                    onClick={write}
+                    className="w-full px-5 py-3 rounded-xl font-bold text-xs text-white bg-gradient-to-r from-orange-400 to-rose-400 hover:shadow-lg hover:shadow-orange-200 transition-all flex items-center justify-center gap-2"
+                  >
+                    <Sparkles size={14} /> {t('write')}
+                  </button>
+                )}
+                {isWriting && (
+                  <p className="flex items-center justify-center gap-2 text-xs text-stone-500 py-3">
+                    <Loader2 size={14} className="animate-spin text-orange-400" /> {t('writing')}
+                  </p>
+                )}
+                {failed && <p className="text-xs text-rose-500 mt-3">{t('failed')}</p>}
+              </section>
+            </>
+          )}
+        </div>
+
+        {(saved || periodMemories.length > 0) && (
+          <div className="flex items-center justify-between gap-3 px-8 py-5 border-t border-stone-100 bg-stone-50/50">
+            <PlaylistMenu memories={periodMemories} title={`MusicDiary ${recapLabel(period, start, language)}`} language={language} placement="above" />
+            {saved && (
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={handleDelete}
+                  className="px-4 py-2.5 rounded-xl font-bold text-xs text-stone-400 hover:text-red-500 hover:bg-white transition-colors flex items-center gap-1.5"
+                >
+                  <Trash2 size={12} /> {t('delete')}
+                </button>
+                <button
+                  onClick={write}
+                  disabled={isWriting || live.memoryCount === 0}
+                  className="px-5 py-2.5 rounded-xl font-bold text-xs text-stone-600 bg-white border border-stone-200 hover:border-orange-200 transition-colors disabled:opacity-40 flex items-center gap-1.5"
+                >
+                  <RefreshCw size={12} /> {t('rewrite')}
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecapPanel;
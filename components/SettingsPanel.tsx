@@ -0,0 +1,660 @@
+import React, { useMemo, useState } from 'react';
+import { Memory, Language, TagDefinition, DiarySettings, AiSettings, ReminderSettings, AiProviderId, ArtistAlias, MetadataSettings, MetadataSourceId, StreamingSettings, StreamingProviderId } from '../types';
+import { translator, LANGUAGE_NAMES } from '../i18n';
+import { createTag } from '../services/tagService';
+import { addAlias, removeAlias, artistSpellings } from '../services/catalogService';
+import { MUSICBRAINZ_DEFAULT_ENDPOINT } from '../services/metadata/musicBrainzSource';
+import { STREAMING_PROVIDERS, STREAMING_PROVIDER_IDS, isValidTemplate } from '../services/streamingService';
+import { GEMINI_DEFAULT_MODEL, GEMINI_DEFAULT_IMAGE_MODEL } from '../services/ai/geminiProvider';
+import { OPENAI_COMPATIBLE_DEFAULT_ENDPOINT } from '../services/ai/openAiCompatibleProvider';
+import { MIN_PASSPHRASE_LENGTH } from '../services/cryptoService';
+import { remindersSupported, requestReminderPermission } from '../services/reminderService';
+import { Settings, X, Tag, ChevronUp, ChevronDown, Archive, ArchiveRestore, Plus, Bot, Library, ArrowRight, Trash2, GitMerge, Headphones, Lock, Loader2, BellRing } from 'lucide-react';
+
+interface SettingsPanelProps {
+  language: Language;
+  settings: DiarySettings;
+  tags: TagDefinition[];
+  memories: Memory[];
+  aliases: ArtistAlias[];
+  onChangeSettings: (settings: DiarySettings) => void;
+  onChangeTags: (tags: TagDefinition[]) => void;
+  onChangeAliases: (aliases: ArtistAlias[]) => void;
+  onMergeArtists: (names: string[], canonical: string) => void;
+  lockEnabled: boolean;
+  onEnableLock: (passphrase: string) => Promise<void>;
+  onChangePassphrase: (current: string, next: string) => Promise<boolean>; // false when `current` is wrong
+  onDisableLock: (current: string) => Promise<boolean>;
+  onLockNow: () => void;
+  onClose: () => void;
+}
+
+type LockAction = 'enable' | 'change' | 'disable';
+
+const AUTO_LOCK_MINUTES = [0, 1, 5, 15, 30, 60];
+
+const DEFAULT_TAG_COLOR = '#fb923c';
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ language, settings, tags, memories, aliases, onChangeSettings, onChangeTags, onChangeAliases, onMergeArtists, lockEnabled, onEnableLock, onChangePassphrase, onDisableLock, onLockNow, onClose }) => {
+  const [newLabel, setNewLabel] = useState<Partial<Record<Language, string>>>({});
+  const [newColor, setNewColor] = useState(DEFAULT_TAG_COLOR);
+  const [newAlias, setNewAlias] = useState('');
+  const [newCanonical, setNewCanonical] = useState('');
+  const [mergeNames, setMergeNames] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [lockAction, setLockAction] = useState<LockAction | null>(null);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isLocking, setIsLocking] = useState(false);
+  const [lockError, setLockError] = useState<string | null>(null);
+  const [notificationPermission, setNotificationPermission] = useState(remindersSupported() ? Notification.permission : null);
+
+  const t = translator(language, 'settings');
+  const tl = translator(language, 'lock');
+  const tr = translator(language, 'reminder');
+
+  // Every tag has ja and en labels; other languages are edited while they're in use
+  const labelLanguages: Language[] = language === 'ja' || language === 'en' ? ['ja', 'en'] : ['ja', 'en', language];
+
+  const { ai, metadata, streaming } = settings;
+
+  const spellings = useMemo(() => artistSpellings(memories), [memories]);
+
+  const updateTag = (id: string, changes: Partial<TagDefinition>) => {
+    onChangeTags(tags.map(tag => tag.id === id ? { ...tag, ...changes } : tag));
+  };
+
+  const updateAi = (changes: Partial<AiSettings>) => {
+    onChangeSettings({ ...settings, ai: { ...settings.ai, ...changes } });
+  };
+
+  const updateMetadata = (changes: Partial<MetadataSettings>) => {
+    onChangeSettings({ ...settings, metadata: { ...settings.metadata, ...changes } });
+  };
+
+  const updateStreaming = (changes: Partial<StreamingSettings>) => {
+    onChangeSettings({ ...settings, streaming: { ...settings.streaming, ...changes } });
+  };
+
+  const updateReminder = (changes: Partial<ReminderSettings>) => {
+    onChangeSettings({ ...settings, reminder: { ...settings.reminder, ...changes } });
+  };
+
+  // Turning it on is what asks the browser, so the prompt follows a click
+  const toggleReminder = async (enabled: boolean) => {
+    if (enabled) {
+      await requestReminderPermission();
+      setNotificationPermission(remindersSupported() ? Notification.permission : null);
+    }
+    updateReminder({ enabled });
+  };
+
+  // Order of picking is the order of the links; at least one stays selected
+  const toggleProvider = (provider: StreamingProviderId) => {
+    if (!streaming.providers.includes(provider)) {
+      updateStreaming({ providers: [...streaming.providers, provider] });
+    } else if (streaming.providers.length > 1) {
+      updateStreaming({ providers: streaming.providers.filter(p => p !== provider) });
+    }
+  };
+
+  const addAliasEntry = () => {
+    if (!newAlias.trim() || !newCanonical.trim()) return;
+    onChangeAliases(addAlias(aliases, newAlias, newCanonical));
+    setNewAlias('');
+    setNewCanonical('');
+  };
+
+  // The first pick suggests the name to keep; the user can type another
+  const toggleMergeName = (name: string) => {
+    const next = mergeNames.includes(name) ? mergeNames.filter(n => n !== name) : [...mergeNames, name];
+    setMergeNames(next);
+    if (!mergeTarget.trim() || (mergeNames.includes(mergeTarget) && !next.includes(mergeTarget))) setMergeTarget(next[0] ?? '');
+  };
+
+  const merge = () => {
+    const affected = spellings.filter(s => mergeNames.includes(s.name) && s.name !== mergeTarget.trim()).reduce((sum, s) => sum + s.count, 0);
+    if (!window.confirm(t('confirmMerge', { count: affected }))) return;
+    onMergeArtists(mergeNames, mergeTarget);
+    setMergeNames([]);
+    setMergeTarget('');
+  };
+
+  const moveTag = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= tags.length) return;
+    const reordered = [...tags];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChangeTags(reordered);
+  };
+
+  const addTag = () => {
+    const entered = labelLanguages.map(lang => newLabel[lang]?.trim() ?? '');
+    const fallback = entered.find(Boolean);
+    if (!fallback) return;
+    // ja and en are always needed, so a missing one falls back to the first one entered
+    const label: TagDefinition['label'] = { ja: fallback, en: fallback };
+    labelLanguages.forEach((lang, i) => {
+      if (entered[i]) label[lang] = entered[i];
+    });
+    onChangeTags([...tags, createTag(label, newColor)]);
+    setNewLabel({});
+  };
+
+  const startLockAction = (action: LockAction | null) => {
+    setLockAction(action);
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setConfirmPassphrase('');
+    setLockError(null);
+  };
+
+  // Only the fields for a new passphrase are checked here; a wrong current one
+  // comes back from the storage layer
+  const needsNew = lockAction === 'enable' || lockAction === 'change';
+  const newProblem = !needsNew || !newPassphrase
+    ? null
+    : newPassphrase.length < MIN_PASSPHRASE_LENGTH
+      ? tl('tooShort', { count: MIN_PASSPHRASE_LENGTH })
+      : confirmPassphrase && confirmPassphrase !== newPassphrase ? tl('mismatch') : null;
+  const canSubmitLock = !isLocking
+    && (lockAction === 'enable' || !!currentPassphrase)
+    && (!needsNew || (!!newPassphrase && !newProblem && confirmPassphrase === newPassphrase));
+
+  // Re-encrypting every memory takes a moment, so the form stays up until it's done
+  const submitLock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!lockAction || !canSubmitLock) return;
+    setIsLocking(true);
+    setLockError(null);
+    try {
+      let accepted = true;
+      if (lockAction === 'enable') await onEnableLock(newPassphrase);
+      else if (lockAction === 'change') accepted = await onChangePassphrase(currentPassphrase, newPassphrase);
+      else accepted = await onDisableLock(currentPassphrase);
+      if (accepted) startLockAction(null);
+      else setLockError(tl('wrongPassphrase'));
+    } catch (error) {
+      console.error("Failed to update the lock", error);
+      setLockError(tl('failed'));
+    } finally {
+      setIsLocking(false);
+    }
+  };
+
+  const inputClass = "min-w-0 bg-stone-50 border border-stone-200 text-stone-700 placeholder-stone-400 px-3 py-2 rounded-lg outline-none focus:bg-white focus:border-orange-300 transition-all text-xs";
+  const lockButtonClass = "px-3 py-1.5 rounded-lg text-[10px] font-bold border border-stone-200 bg-white text-stone-600 hover:border-orange-200 hover:bg-orange-50 transition-all disabled:opacity-40";
+  const iconButtonClass = "p-1.5 rounded-md text-stone-400 hover:text-stone-700 hover:bg-stone-100 transition-colors disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-stone-900/30 backdrop-blur-sm flex items-center justify-center p-6 animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-xl w-full max-w-2xl max-h-[85vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-8 py-5 border-b border-stone-100">
+          <h2 className="text-lg font-bold text-stone-700 flex items-center gap-2">
+            <Settings size={18} className="text-orange-400" /> {t('title')}
+          </h2>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-600 rounded-full hover:bg-stone-50 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-8 py-6 overflow-y-auto space-y-8">
+          {/* Keywords */}
+          <section className="space-y-4">
+            <h3 className="text-xs font-bold text-stone-400 uppercase tracking-wider flex items-center gap-2">
+              <Tag size={14} className="text-orange-400" /> {t('tagsSection')}
+            </h3>
+
+            <label className="flex items-center justify-between gap-4 text-xs text-stone-600">
+              <span>{t('maxTags')}</span>
+              <input
+                type="number"
+                min={1}
+                max={Math.max(1, tags.length)}
+                value={settings.maxTags}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value);
+                  if (value >= 1) onChangeSettings({ ...settings, maxTags: value });
+                }}
+                className={`${inputClass} w-20 text-center`}
+              />
+            </label>
+
+            <div className="space-y-2">
+              {tags.map((tag, index) => (
+                <div key={tag.id} className={`flex items-center gap-2 ${tag.archived ? 'opacity-50' : ''}`}>
+                  <input
+                    type="color"
+                    value={tag.color || DEFAULT_TAG_COLOR}
+                    onChange={(e) => updateTag(tag.id, { color: e.target.value })}
+                    className="w-8 h-8 rounded-lg border border-stone-200 bg-white cursor-pointer shrink-0"
+                  />
+                  {labelLanguages.map(lang => (
+                    <input
+                      key={lang}
+                      type="text"
+                      value={tag.label[lang] ?? ''}
+                      placeholder={LANGUAGE_NAMES[lang]}
+                      onChange={(e) => updateTag(tag.id, { label: { ...tag.label, [lang]: e.target.value } })}
+                      className={`${inputClass} flex-1`}
+                    />
+                  ))}
+                  <button onClick={() => moveTag(index, -1)} disabled={index === 0} className={iconButtonClass} title={t('moveUp')}>
+                    <ChevronUp size={14} />
+                  </button>
+                  <button onClick={() => moveTag(index, 1)} disabled={index === tags.length - 1} className={iconButtonClass} title={t('moveDown')}>
+                    <ChevronDown size={14} />
+                  </button>
+                  <button
+                    onClick={() => updateTag(tag.id, { archived: !tag.archived })}
+                    className={iconButtonClass}
+                    title={tag.archived ? t('unarchive') : t('archive')}
+                  >
+                    {tag.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2 pt-2 border-t border-stone-100">
+              <input
+                type="color"
+                value={newColor}
+                onChange={(e) => setNewColor(e.target.value)}
+                className="w-8 h-8 rounded-lg border border-stone-200 bg-white cursor-pointer shrink-0"
+              />
+              {labelLanguages.map(lang => (
+                <input
+                  key={lang}
+                  type="text"
+                  value={newLabel[lang] ?? ''}
+                  placeholder={LANGUAGE_NAMES[lang]}
+                  onChange={(e) => setNewLabel({ ...newLabel, [lang]: e.target.value })}
+                  className={`${inputClass} flex-1`}
+                />
+              ))}
+              <button
+                onClick={addTag}
+                disabled={!labelLanguages.some(lang => newLabel[lang]?.trim())}
+                className="px-3 py-2 rounded-lg text-xs font-bold text-white bg-stone-700 hover:bg-stone-800 transition-colors disabled:opacity-30 flex items-center gap-1"
+              >
+                <Plus size={12} /> {t('add')}
+              </button>
+            </div>
+          </section>
+
+          {/* AI */}
+          <section className="space-y-4">
+            <h3 className="text-xs font-bold text-stone-400 uppercase tracking-wider flex items-center gap-2">
+              <Bot size={14} className="text-orange-400" /> {t('aiSection')}
+            </h3>
+
+            <div className="flex items-center justify-between gap-4 text-xs text-stone-600">
+              <span>{t('provider')}</span>
+              <div className="inline-flex bg-stone-100 p-1 rounded-xl">
+                {(['gemini', 'openai-compatible', 'offline'] as AiProviderId[]).map(provider => (
+                  <button
+                    key={provider}
+                    onClick={() => updateAi({ provider })}
+                    className={`px-3 py-1.5 rounded-lg text-[10px] font-bold transition-all ${ai.provider === provider ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`}
+                  >
+                    {t(provider)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-[10px] text-stone-400 leading-relaxed">
+              {t(ai.provider === 'gemini' ? 'geminiHelp' : ai.provider === 'offline' ? 'offlineHelp' : 'localHelp')}
+            </p>
+
+            {ai.provider !== 'offline' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {ai.provider === 'openai-compatible' && (
+                  <label className="space-y-1 sm:col-span-2">
+                    <span className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">{t('endpoint')}</span>
+                    <input
+                      type="url"
+                      value={ai.endpoint}
+                      placeholder={OPENAI_COMPATIBLE_DEFAULT_ENDPOINT}
+                      onChange={(e) => updateAi({ endpoint: e.target.value })}
+                      className={`${inputClass} w-full`}
+                    />
+                  </label>
+                )}
+                <label className="space-y-1">
+                  <span className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">{t('model')}</span>
+                  <input
+                    type="text"
+                    value={ai.model}
+                    placeholder={ai.provider === 'gemini' ? GEMINI_DEFAULT_MODEL : 'llama3.1'}
+                    onChange={(e) => updateAi({ model: e.target.value })}
+                    className={`${inputClass} w-full`}
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">{t('imageModel')}</span>
+                  <input
+                    type="text"
+                    value={ai.imageModel}
+                    placeholder={ai.provider === 'gemini' ? GEMINI_DEFAULT_IMAGE_MODEL : t('optional')}
+                    onChange={(e) => updateAi({ imageModel: e.target.value })}
+                    className={`${inputClass} w-full`}
+                  />
+                </label>
+                <label className="space-y-1 sm:col-span-2">
+                  <span className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">{t('apiKey')}</span>
+                  <input
+                    type="password"
+                    value={ai.apiKey}
+                    placeholder={t('optional')}
+                    autoComplete="off"
+                    onChange={(e) => updateAi({ apiKey: e.target.value })}
+                    className={`${inputClass} w-full`}
+                  />
+                </label>
+              </div>
+            )}
+
+            {ai.provider !== 'offline' && (
+              <div className="space-y-1">
+                <label className="flex items-center gap-2 text-xs text-stone-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.autoTranslate}
+                    onChange={(e) => onChangeSettings({ ...settings, autoTranslate: e.target.checked })}
+                    className="accent-orange-500"
+                  />
+                  {t('autoTranslate')}
+                </label>
+                <p className="text-[10px] text-stone-400 leading-relaxed pl-5">{t('autoTranslateHelp')}</p>
+              </div>
+            )}
+          </section>
+
+          {/* Songs & artists */}
+          <section className="space-y-4">
+            <h3 className="text-xs font-bold text-stone-400 uppercase tracking-wider flex items-center gap-2">
+              <Library size={14} className="text-orange-400" /> {t('artistsSection')}
+            </h3>
+
+            <div className="flex items-center justify-between gap-4 text-xs text-stone-600">
+              <span>{t('catalog')}</span>
+              <div className="inline-flex bg-stone-100 p-1 rounded-xl">
+                {(['none', 'musicbrainz'] as MetadataSourceId[]).map(source => (
+                  <button
+                    key={source}
+                    onClick={() => updateMetadata({ source })}
+                    className={`px-3 py-1.5 rounded-lg text-[10px] font-bold transition-all ${metadata.source === source ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`}
+                  >
+                    {t(source)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <p className="text-[10px] text-stone-400 leading-relaxed">
+              {t(metadata.source === 'none' ? 'noneHelp' : 'musicbrainzHelp')}
+            </p>
+
+            {metadata.source === 'musicbrainz' && (
+              <label className="block space-y-1">
+                <span className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">{t('endpoint')}</span>
+                <input
+                  type="url"
+                  value={metadata.endpoint}
+                  placeholder={MUSICBRAINZ_DEFAULT_ENDPOINT}
+                  onChange={(e) => updateMetadata({ endpoint: e.target.value })}
+                  className={`${inputClass} w-full`}
+                />
+              </label>
+            )}
+
+            <div className="space-y-2 pt-2 border-t border-stone-100">
+              <p className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">{t('aliases')}</p>
+              <p className="text-[10px] text-stone-400 leading-relaxed">{t('aliasHelp')}</p>
+              {aliases.map(entry => (
+                <div key={entry.alias} className="flex items-center gap-2 text-xs text-stone-600">
+                  <span className="flex-1 truncate">{entry.alias}</span>
+                  <ArrowRight size={12} className="text-stone-300 shrink-0" />
+                  <span className="flex-1 truncate font-bold">{entry.canonical}</span>
+                  <button onClick={() => onChangeAliases(removeAlias(aliases, entry.alias))} className={iconButtonClass} title={t('removeAlias')}>
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <input type="text" value={newAlias} placeholder={t('alias')} onChange={(e) => setNewAlias(e.target.value)} className={`${inputClass} flex-1`} />
+                <ArrowRight size={12} className="text-stone-300 shrink-0" />
+                <input type="text" value={newCanonical} placeholder={t('canonical')} onChange={(e) => setNewCanonical(e.target.value)} className={`${inputClass} flex-1`} />
+                <button
+                  onClick={addAliasEntry}
+                  disabled={!newAlias.trim() || !newCanonical.trim()}
+                  className="px-3 py-2 rounded-lg text-xs font-bold text-white bg-stone-700 hover:bg-stone-800 transition-colors disabled:opacity-30 flex items-center gap-1"
+                >
+                  <Plus size={12} /> {t('add')}
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-2 pt-2 border-t border-stone-100">
+              <p className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">{t('merge')}</p>
+              <p className="text-[10px] text-stone-400 leading-relaxed">{t('mergeHelp')}</p>
+              {spellings.length === 0 ? (
+                <p className="text-xs text-stone-400">{t('noArtists')}</p>
+              ) : (
+                <div className="flex flex-wrap gap-1.5 max-h-40 overflow-y-auto">
+                  {spellings.map(({ name, count }) => (
+                    <button
+                      key={name}
+                      onClick={() => toggleMergeName(name)}
+                      className={`px-3 py-1 rounded-full text-[10px] font-medium border transition-all ${mergeNames.includes(name) ? 'bg-stone-700 text-white border-stone-700' : 'bg-white text-stone-600 border-stone-200 hover:border-orange-200 hover:bg-orange-50'}`}
+                    >
+                      {name} <span className="opacity-60">{count}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+              {mergeNames.length > 0 && (
+                <div className="flex items-center gap-2">
+                  <input type="text" value={mergeTarget} placeholder={t('mergeInto')} onChange={(e) => setMergeTarget(e.target.value)} className={`${inputClass} flex-1`} />
+                  <button
+                    onClick={merge}
+                    disabled={!mergeTarget.trim() || (mergeNames.length === 1 && mergeNames[0] === mergeTarget.trim())}
+                    className="px-3 py-2 rounded-lg text-xs font-bold text-white bg-stone-700 hover:bg-stone-800 transition-colors disabled:opacity-30 flex items-center gap-1"
+                  >
+                    <GitMerge size={12} /> {t('mergeButton')}
+                  </button>
+                </div>
+              )}
+            </div>
+          </section>
+
+          {/* Streaming */}
+          <section className="space-y-4">
+            <h3 className="text-xs font-bold text-stone-400 uppercase tracking-wider flex items-center gap-2">
+              <Headphones size={14} className="text-orange-400" /> {t('streamingSection')}
+            </h3>
+
+            <div className="flex flex-wrap gap-1.5">
+              {STREAMING_PROVIDER_IDS.map(provider => {
+                const order = streaming.providers.indexOf(provider);
+                return (
+                  <button
+                    key={provider}
+                    onClick={() => toggleProvider(provider)}
+                    className={`px-3 py-1 rounded-full text-[10px] font-medium border transition-all flex items-center gap-1.5 ${order >= 0 ? 'bg-stone-700 text-white border-stone-700' : 'bg-white text-stone-600 border-stone-200 hover:border-orange-200 hover:bg-orange-50'}`}
+                  >
+                    {order >= 0 && <span className="w-3.5 h-3.5 rounded-full bg-orange-400 text-white text-[9px] flex items-center justify-center">{order + 1}</span>}
+                    {provider === 'custom' ? t('custom') : STREAMING_PROVIDERS[provider].label}
+                  </button>
+                );
+              })}
+            </div>
+
+            <p className="text-[10px] text-stone-400 leading-relaxed">{t('streamingHelp')}</p>
+
+            {streaming.providers.includes('custom') && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <label className="space-y-1">
+                  <span className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">{t('customLabel')}</span>
+                  <input
+                    type="text"
+                    value={streaming.customLabel}
+                    placeholder={t('optional')}
+                    onChange={(e) => updateStreaming({ customLabel: e.target.value })}
+                    className={`${inputClass} w-full`}
+                  />
+                </label>
+                <label className="space-y-1 sm:col-span-2">
+                  <span className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">{t('customTemplate')}</span>
+                  <input
+                    type="url"
+                    value={streaming.customTemplate}
+                    placeholder="https://example.com/search?q={artist}%20{title}"
+                    onChange={(e) => updateStreaming({ customTemplate: e.target.value })}
+                    className={`${inputClass} w-full`}
+                  />
+                </label>
+                <p className={`text-[10px] leading-relaxed sm:col-span-3 ${streaming.customTemplate && !isValidTemplate(streaming.customTemplate) ? 'text-rose-500' : 'text-stone-400'}`}>
+                  {t(streaming.customTemplate && !isValidTemplate(streaming.customTemplate) ? 'invalidTemplate' : 'customHelp')}
+                </p>
+              </div>
+            )}
+          </section>
+
+          {/* Reminder */}
+          <section className="space-y-4">
+            <h3 className="text-xs font-bold text-stone-400 uppercase tracking-wider flex items-center gap-2">
+              <BellRing size={14} className="text-orange-400" /> {tr('section')}
+            </h3>
+
+            {notificationPermission === null ? (
+              <p className="text-[10px] text-stone-400 leading-relaxed">{tr('unsupported')}</p>
+            ) : (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between gap-4">
+                  <label className="flex items-center gap-2 text-xs text-stone-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.reminder.enabled}
+                      onChange={(e) => toggleReminder(e.target.checked)}
+                      className="accent-orange-500"
+                    />
+                    {tr('enable')}
+                  </label>
+                  <input
+                    type="time"
+                    value={settings.reminder.time}
+                    aria-label={tr('time')}
+                    disabled={!settings.reminder.enabled}
+                    onChange={(e) => { if (e.target.value) updateReminder({ time: e.target.value }); }}
+                    className={`${inputClass} w-28 disabled:opacity-40`}
+                  />
+                </div>
+                <p className={`text-[10px] leading-relaxed pl-5 ${settings.reminder.enabled && notificationPermission === 'denied' ? 'text-rose-500' : 'text-stone-400'}`}>
+                  {tr(settings.reminder.enabled && notificationPermission === 'denied' ? 'blocked' : 'help')}
+                </p>
+              </div>
+            )}
+          </section>
+
+          {/* Lock */}
+          <section className="space-y-4">
+            <h3 className="text-xs font-bold text-stone-400 uppercase tracking-wider flex items-center gap-2">
+              <Lock size={14} className="text-orange-400" /> {tl('section')}
+            </h3>
+
+            <p className="text-[10px] text-stone-400 leading-relaxed">{tl('help')}</p>
+
+            {!lockAction && (
+              <div className="flex flex-wrap items-center gap-2">
+                {lockEnabled ? (
+                  <>
+                    <span className="text-xs font-bold text-teal-600 mr-auto">{tl('enabled')}</span>
+                    <button onClick={onLockNow} className={lockButtonClass}>{tl('lockNow')}</button>
+                    <button onClick={() => startLockAction('change')} className={lockButtonClass}>{tl('change')}</button>
+                    <button onClick={() => startLockAction('disable')} className={lockButtonClass}>{tl('disable')}</button>
+                  </>
+                ) : (
+                  <button onClick={() => startLockAction('enable')} className={lockButtonClass}>{tl('enable')}</button>
+                )}
+              </div>
+            )}
+
+            {lockAction && (
+              <form onSubmit={submitLock} className="space-y-2 p-4 rounded-2xl bg-stone-50/50 border border-stone-100">
+                {lockAction !== 'enable' && (
+                  <input
+                    type="password"
+                    value={currentPassphrase}
+                    placeholder={tl('currentPassphrase')}
+                    aria-label={tl('currentPassphrase')}
+                    autoComplete="current-password"
+                    autoFocus
+                    onChange={(e) => { setCurrentPassphrase(e.target.value); setLockError(null); }}
+                    className={`${inputClass} w-full`}
+                  />
+                )}
+                {needsNew && (
+                  <>
+                    <input
+                      type="password"
+                      value={newPassphrase}
+                      placeholder={tl('newPassphrase')}
+                      aria-label={tl('newPassphrase')}
+                      autoComplete="new-password"
+                      autoFocus={lockAction === 'enable'}
+                      onChange={(e) => setNewPassphrase(e.target.value)}
+                      className={`${inputClass} w-full`}
+                    />
+                    <input
+                      type="password"
+                      value={confirmPassphrase}
+                      placeholder={tl('confirmPassphrase')}
+                      aria-label={tl('confirmPassphrase')}
+                      autoComplete="new-password"
+                      onChange={(e) => setConfirmPassphrase(e.target.value)}
+                      className={`${inputClass} w-full`}
+                    />
+                  </>
+                )}
+                {(newProblem || lockError) && <p className="text-[10px] text-rose-500">{newProblem ?? lockError}</p>}
+                <div className="flex items-center justify-end gap-2 pt-1">
+                  <button type="button" onClick={() => startLockAction(null)} disabled={isLocking} className={lockButtonClass}>{tl('cancel')}</button>
+                  <button
+                    type="submit"
+                    disabled={!canSubmitLock}
+                    className="px-3 py-1.5 rounded-lg text-[10px] font-bold bg-stone-700 text-white hover:bg-stone-600 transition-all disabled:opacity-40 flex items-center gap-1.5"
+                  >
+                    {isLocking ? <><Loader2 size={12} className="animate-spin" /> {tl('encrypting')}</> : tl(lockAction === 'disable' ? 'disable' : 'save')}
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {lockEnabled && (
+              <label className="flex items-center justify-between gap-4 text-xs text-stone-600">
+                <span>{tl('autoLock')}</span>
+                <select
+                  value={settings.autoLockMinutes}
+                  onChange={(e) => onChangeSettings({ ...settings, autoLockMinutes: parseInt(e.target.value) })}
+                  className={`${inputClass} w-32`}
+                >
+                  {AUTO_LOCK_MINUTES.map(minutes => (
+                    <option key={minutes} value={minutes}>
+                      {minutes === 0 ? tl('autoLockOff') : tl('autoLockAfter', { count: minutes })}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Memory, Language } from '../types';
+import { translator } from '../i18n';
+import { ShareFormat, renderShareCard, shareFileName, splitSentences, defaultExcerpt, joinSentences } from '../services/shareCardService';
+import { hasAnalysis } from '../services/analysisQueue';
+import { downloadBlob } from '../utils/download';
+import { Share2, X, Loader2, Square, RectangleVertical, Download, Share, AlertCircle } from 'lucide-react';
+
+interface ShareCardDialogProps {
+  memory: Memory;
+  language: Language;
+  onClose: () => void;
+}
+
+const ShareCardDialog: React.FC<ShareCardDialogProps> = ({ memory, language, onClose }) => {
+  const sentences = useMemo(() => (hasAnalysis(memory) ? splitSentences(memory.analysis.analysisText) : []), [memory]);
+
+  const [format, setFormat] = useState<ShareFormat>('square');
+  const [picked, setPicked] = useState<number[]>(() => defaultExcerpt(sentences).map((_, i) => i));
+  const [includeContent, setIncludeContent] = useState(false);
+  const [card, setCard] = useState<{ blob: Blob; url: string } | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  const t = translator(language, 'shareCard');
+
+  const excerpt = joinSentences([...picked].sort((a, b) => a - b).map(i => sentences[i]), memory.language ?? 'ja');
+
+  // Redrawn on every change; the old preview stays up until the new one is ready
+  useEffect(() => {
+    let cancelled = false;
+    setFailed(false);
+    renderShareCard(memory, { format, excerpt, includeContent, language })
+      .then((blob) => {
+        if (!cancelled) setCard({ blob, url: URL.createObjectURL(blob) });
+      })
+      .catch((e) => {
+        console.error("Failed to render share card", e);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [memory, format, excerpt, includeContent, language]);
+
+  useEffect(() => () => {
+    if (card) URL.revokeObjectURL(card.url);
+  }, [card]);
+
+  const file = useMemo(() => (card ? new File([card.blob], shareFileName(memory, format), { type: 'image/png' }) : null), [card]);
+  const canShare = !!file && typeof navigator.canShare === 'function' && navigator.canShare({ files: [file] });
+
+  const share = async () => {
+    if (!file) return;
+    try {
+      await navigator.share({ files: [file], title: `${memory.song.title} / ${memory.song.artist}` });
+    } catch (e) {
+      // Closing the share sheet is not an error worth reporting
+      if (!(e instanceof DOMException && e.name === 'AbortError')) console.error("Failed to share card", e);
+    }
+  };
+
+  const toggleSentence = (index: number) => {
+    setPicked(picked.includes(index) ? picked.filter(i => i !== index) : [...picked, index]);
+  };
+
+  const segmentClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-[10px] font-bold flex items-center gap-1 transition-all ${active ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-500 hover:text-stone-700'}`;
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-stone-900/30 backdrop-blur-sm flex items-center justify-center p-6 animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between px-8 py-5 border-b border-stone-100">
+          <h2 className="text-lg font-bold text-stone-700 flex items-center gap-2">
+            <Share2 size={18} className="text-orange-400" /> {t('title')}
+          </h2>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-600 rounded-full hover:bg-stone-50 transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-8 py-6 overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-8">
+          {/* Preview */}
+          <div className="flex items-center justify-center bg-stone-50 rounded-2xl p-4 min-h-[240px]">
+            {failed ? (
+              <p className="text-xs text-rose-500 flex items-center gap-1.5"><AlertCircle size={14} /> {t('failed')}</p>
+            ) : card ? (
+              <img src={card.url} alt="" className={`rounded-xl shadow-md ${format === 'story' ? 'max-h-[60vh]' : 'w-full'}`} />
+            ) : (
+              <Loader2 size={24} className="text-stone-300 animate-spin" />
+            )}
+          </div>
+
+          {/* Options */}
+          <div className="space-y-6">
+            <div className="inline-flex bg-stone-100 p-1 rounded-xl">
+              <button onClick={() => setFormat('square')} className={segmentClass(format === 'square')}>
+                <Square size={12} /> {t('square')}
+              </button>
+              <button onClick={() => setFormat('story')} className={segmentClass(format === 'story')}>
+                <RectangleVertical size={12} /> {t('story')}
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-[10px] font-bold text-stone-400 uppercase tracking-wider">{t('excerpt')}</p>
+              {sentences.length === 0 ? (
+                <p className="text-xs text-stone-400">{t('noMessage')}</p>
+              ) : (
+                <div className="space-y-1.5">
+                  {sentences.map((sentence, index) => (
+                    <button
+                      key={index}
+                      onClick={() => toggleSentence(index)}
+                      className={`w-full text-left px-3 py-2 rounded-lg text-xs leading-relaxed border transition-all ${picked.includes(index) ? 'bg-orange-50 border-orange-200 text-stone-700' : 'bg-white border-stone-100 text-stone-400 hover:border-stone-200'}`}
+                    >
+                      {sentence}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {memory.content.trim() && (
+              <div className="space-y-1">
+                <label className="flex items-center gap-2 text-xs text-stone-600 cursor-pointer">
+                  <input type="checkbox" checked={includeContent} onChange={(e) => setIncludeContent(e.target.checked)} className="accent-orange-500" />
+                  {t('includeContent')}
+                </label>
+                {includeContent && <p className="text-[10px] text-stone-400 leading-relaxed pl-5">{t('privateHint')}</p>}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 px-8 py-5 border-t border-stone-100 bg-stone-50/50">
+          <button
+            onClick={() => card && downloadBlob(card.blob, shareFileName(memory, format))}
+            disabled={!card}
+            className="px-5 py-2.5 rounded-xl font-bold text-xs text-stone-600 bg-white border border-stone-200 hover:border-orange-200 transition-colors disabled:opacity-40 flex items-center gap-1.5"
+          >
+            <Download size={12} /> {t('download')}
+          </button>
+          {canShare && (
+            <button
+              onClick={share}
+              className="px-5 py-2.5 rounded-xl font-bold text-xs text-white bg-gradient-to-r from-orange-400 to-rose-400 hover:shadow-lg hover:shadow-orange-200 transition-all flex items-center gap-1.5"
+            >
+              <Share size={12} /> {t('share')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareCardDialog;
@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Memory, Language, UserSongInput, ArtistAlias, SongSuggestion } from '../types';
+import { translator } from '../i18n';
+import { artistSuggestions, songSuggestions, canonicalArtist, dedupe } from '../services/catalogService';
+import { searchCatalogSongs, searchCatalogArtists } from '../services/metadataService';
+import { History, Globe } from 'lucide-react';
+
+interface SongAutocompleteProps {
+  song: UserSongInput;
+  memories: Memory[]; // history the suggestions come from
+  aliases: ArtistAlias[];
+  language: Language;
+  placeholders: { title: string; artist: string };
+  inputClassName: string;
+  onChange: (song: UserSongInput) => void;
+}
+
+type Field = 'title' | 'artist';
+
+// Catalog lookups wait for a pause in typing
+const CATALOG_DELAY_MS = 400;
+const CATALOG_MIN_LENGTH = 2;
+
+const SongAutocomplete: React.FC<SongAutocompleteProps> = ({ song, memories, aliases, language, placeholders, inputClassName, onChange }) => {
+  const [openField, setOpenField] = useState<Field | null>(null);
+  const [highlight, setHighlight] = useState(-1);
+  const [catalog, setCatalog] = useState<SongSuggestion[]>([]);
+
+  const t = translator(language, 'autocomplete');
+
+  const query = openField ? song[openField] : '';
+
+  useEffect(() => {
+    setCatalog([]);
+    if (!openField || query.trim().length < CATALOG_MIN_LENGTH) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      const search = openField === 'title' ? searchCatalogSongs : searchCatalogArtists;
+      search(query.trim(), controller.signal)
+        .then(setCatalog)
+        .catch((e) => {
+          if (!controller.signal.aborted) console.warn("Catalog lookup failed", e);
+        });
+    }, CATALOG_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [openField, query]);
+
+  const suggestions = useMemo(() => {
+    if (!openField) return [];
+    const history = openField === 'title'
+      ? songSuggestions(memories, song.title, song.artist)
+      : artistSuggestions(memories, aliases, song.artist);
+    return dedupe([...history, ...catalog]);
+  }, [openField, song.title, song.artist, memories, aliases, catalog]);
+
+  const close = () => {
+    setOpenField(null);
+    setHighlight(-1);
+  };
+
+  const select = (suggestion: SongSuggestion) => {
+    const artist = canonicalArtist(suggestion.artist, aliases);
+    onChange(suggestion.title !== undefined ? { title: suggestion.title, artist } : { ...song, artist });
+    close();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!openField || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlight((highlight + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlight(highlight <= 0 ? suggestions.length - 1 : highlight - 1);
+    } else if (e.key === 'Enter' && highlight >= 0) {
+      e.preventDefault();
+      select(suggestions[highlight]);
+    } else if (e.key === 'Escape') {
+      close();
+    }
+  };
+
+  const renderField = (field: Field) => (
+    <div className="group relative">
+      <input
+        type="text"
+        placeholder={placeholders[field]}
+        value={song[field]}
+        onChange={(e) => {
+          onChange({ ...song, [field]: e.target.value });
+          setOpenField(field);
+          setHighlight(-1);
+        }}
+        onFocus={() => setOpenField(field)}
+        onBlur={close}
+        onKeyDown={handleKeyDown}
+        autoComplete="off"
+        className={inputClassName}
+      />
+      {openField === field && suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 top-full mt-1 z-30 bg-white rounded-xl border border-stone-100 shadow-lg p-1.5 max-h-72 overflow-y-auto animate-fade-in">
+          {suggestions.map((suggestion, index) => (
+            <li key={`${suggestion.source}/${suggestion.artist}/${suggestion.title ?? ''}`}>
+              {/* mousedown fires before the input's blur closes the list */}
+              <button
+                onMouseDown={(e) => { e.preventDefault(); select(suggestion); }}
+                onMouseEnter={() => setHighlight(index)}
+                className={`w-full text-left px-3 py-2 rounded-lg flex items-center gap-2 transition-colors ${index === highlight ? 'bg-orange-50' : ''}`}
+              >
+                <span title={t(suggestion.source === 'history' ? 'fromHistory' : 'fromCatalog')} className="shrink-0">
+                  {suggestion.source === 'history'
+                    ? <History size={12} className="text-orange-400" />
+                    : <Globe size={12} className="text-stone-300" />}
+                </span>
+                <span className="min-w-0 flex-1">
+                  <span className="block text-xs text-stone-700 truncate">{suggestion.title ?? suggestion.artist}</span>
+                  {suggestion.title !== undefined && <span className="block text-[10px] text-stone-400 truncate">{suggestion.artist}</span>}
+                </span>
+                {suggestion.count !== undefined && (
+                  <span className="text-[10px] text-stone-400 shrink-0">{t('times', { count: suggestion.count })}</span>
+                )}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      {renderField('title')}
+      {renderField('artist')}
+    </>
+  );
+};
+
+export default SongAutocomplete;
@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Memory, Language, TagDefinition } from '../types';
+import { translator, formatDate } from '../i18n';
+import { songHistory, songSubject, artistSubject, writeSongSummary, HistorySubject } from '../services/songHistoryService';
+import { formatScore } from '../services/recapService';
+import { moodScoreColor, moodPointColor } from '../services/calendarService';
+import { tagLabel } from '../services/tagService';
+import { emotionIn } from '../services/translationService';
+import PlaylistMenu from './PlaylistMenu';
+import { Disc3, Mic2, X, Loader2, Sparkles, RefreshCw, Music, Tag, TrendingUp, Mail, History } from 'lucide-react';
+
+interface SongHistoryPanelProps {
+  subject: HistorySubject;
+  memories: Memory[];
+  tags: TagDefinition[];
+  language: Language;
+  onNavigate: (subject: HistorySubject) => void;
+  onClose: () => void;
+}
+
+const SongHistoryPanel: React.FC<SongHistoryPanelProps> = ({ subject, memories, tags, language, onNavigate, onClose }) => {
+  const [summary, setSummary] = useState('');
+  const [isWriting, setIsWriting] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const t = translator(language, 'songHistory');
+
+  const subjectKey = subject.kind === 'song' ? `${subject.artist}\u0000${subject.title}` : subject.artist;
+  const history = useMemo(() => songHistory(memories, subject), [memories, subjectKey]);
+  const first = history.memories[0];
+  const last = history.memories[history.memories.length - 1];
+
+  // The summary is written for one song or artist in one language
+  useEffect(() => {
+    setSummary('');
+    setFailed(false);
+  }, [subjectKey, language]);
+
+  const write = async () => {
+    setIsWriting(true);
+    setFailed(false);
+    try {
+      setSummary(await writeSongSummary(history, subject, language, tags));
+    } catch (error) {
+      console.error("Failed to write song summary", error);
+      setFailed(true);
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  const formatDay = (timestamp: number) => formatDate(timestamp, language, { year: 'numeric', month: 'short', day: 'numeric' });
+
+  const sectionTitle = (Icon: React.ElementType, label: string) => (
+    <h3 className="text-[10px] font-bold text-stone-400 uppercase tracking-wider flex items-center gap-1.5 mb-3">
+      <Icon size={12} className="text-orange-400" /> {label}
+    </h3>
+  );
+
+  const linkClass = 'hover:text-orange-500 hover:underline decoration-orange-300 underline-offset-4 transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-stone-900/30 backdrop-blur-sm flex items-center justify-center p-6 animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="flex items-center justify-between gap-4 px-8 py-5 border-b border-stone-100">
+          <div className="min-w-0">
+            <p className="text-[10px] font-bold uppercase tracking-wider text-stone-400 flex items-center gap-1.5">
+              {subject.kind === 'song' ? <Disc3 size={12} className="text-orange-400" /> : <Mic2 size={12} className="text-orange-400" />}
+              {t(subject.kind === 'song' ? 'songTitle' : 'artistTitle')}
+            </p>
+            <h2 className="text-lg font-bold text-stone-700 truncate mt-1">
+              {subject.kind === 'song' ? subject.title : subject.artist}
+              {subject.kind === 'song' && (
+                <>
+                  <span className="text-stone-300 font-normal"> / </span>
+                  <button onClick={() => onNavigate(artistSubject(subject.artist))} className={`font-medium text-stone-500 ${linkClass}`} title={t('openArtist', { artist: subject.artist })}>
+                    {subject.artist}
+                  </button>
+                </>
+              )}
+            </h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-stone-400 hover:text-stone-600 rounded-full hover:bg-stone-50 transition-colors shrink-0">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="px-8 py-6 overflow-y-auto space-y-8">
+          {!first ? (
+            <p className="text-center py-12 text-stone-400 text-xs">{t('empty')}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {[
+                  { label: t('memories'), value: String(history.memories.length) },
+                  { label: t('firstRecorded'), value: formatDay(first.timestamp) },
+                  { label: t('lastRecorded'), value: formatDay(last.timestamp) },
+                ].map(({ label, value }) => (
+                  <div key={label} className="bg-stone-50 rounded-2xl p-4 border border-stone-100">
+                    <p className="text-[10px] font-bold uppercase tracking-wider text-stone-400">{label}</p>
+                    <p className="text-sm font-bold text-stone-700 mt-2">{value}</p>
+                  </div>
+                ))}
+                <div className="bg-stone-50 rounded-2xl p-4 border border-stone-100">
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-stone-400">{t('averageMood')}</p>
+                  <p className="text-sm font-bold mt-2" style={{ color: moodScoreColor(history.averageMood) }}>{formatScore(history.averageMood)}</p>
+                </div>
+              </div>
+
+              {/* One bar per memory, oldest on the left: height is the score, color adds the energy */}
+              <section>
+                {sectionTitle(TrendingUp, t('moodStrip'))}
+                <div className="flex items-stretch gap-px h-20 bg-stone-50 rounded-md overflow-hidden relative">
+                  <div className="absolute left-0 right-0 top-1/2 h-px bg-stone-200" />
+                  {history.memories.map(memory => (
+                    <div
+                      key={memory.id}
+                      className="relative flex-1 min-w-0 max-w-8"
+                      title={`${formatDay(memory.timestamp)}: ${formatScore(memory.moodScore)}${emotionIn(memory, language) ? ` · ${emotionIn(memory, language)}` : ''}`}
+                    >
+                      <div
+                        className="absolute left-0.5 right-0.5 rounded-sm"
+                        style={{
+                          backgroundColor: moodPointColor(memory.moodScore, memory.energy),
+                          height: `${Math.max((Math.abs(memory.moodScore) / 50) * 50, 2)}%`,
+                          ...(memory.moodScore >= 0 ? { bottom: '50%' } : { top: '50%' }),
+                        }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-[9px] text-stone-400 mt-1">
+                  <span>{formatDay(first.timestamp)}</span>
+                  {last !== first && <span>{formatDay(last.timestamp)}</span>}
+                </div>
+              </section>
+
+              <div className={`grid grid-cols-1 gap-6 ${subject.kind === 'artist' ? 'md:grid-cols-2' : ''}`}>
+                {subject.kind === 'artist' && (
+                  <section>
+                    {sectionTitle(Music, t('songs'))}
+                    <ol className="space-y-1.5">
+                      {history.songs.map(song => (
+                        <li key={song.key} className="text-xs text-stone-600 flex justify-between gap-2">
+                          <button onClick={() => onNavigate(songSubject({ title: song.label, artist: subject.artist }))} className={`truncate text-left ${linkClass}`}>
+                            {song.label}
+                          </button>
+                          <span className="text-stone-400 shrink-0">{t('times', { count: song.count })}</span>
+                        </li>
+                      ))}
+                    </ol>
+                  </section>
+                )}
+                {history.tags.length > 0 && (
+                  <section>
+                    {sectionTitle(Tag, t('tags'))}
+                    <div className="flex flex-wrap gap-1.5">
+                      {history.tags.map(({ tag, count }) => (
+                        <span key={tag} className="px-2 py-1 rounded-md text-[10px] font-medium bg-stone-100 text-stone-600">
+                          #{tagLabel(tag, language, tags)} <span className="text-stone-400">{count}</span>
+                        </span>
+                      ))}
+                    </div>
+                  </section>
+                )}
+              </div>
+
+              <section>
+                {sectionTitle(History, t('entries'))}
+                <ol className="space-y-2">
+                  {history.memories.map(memory => (
+                    <li key={memory.id} className="flex items-start gap-3 p-3 rounded-xl border border-stone-100 bg-stone-50/60">
+                      <span className="w-1 self-stretch rounded-full shrink-0" style={{ backgroundColor: memory.analysis.moodColor || moodPointColor(memory.moodScore, memory.energy) }} />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-[10px] text-stone-400">
+                          {formatDay(memory.timestamp)} · <span style={{ color: moodScoreColor(memory.moodScore) }}>{formatScore(memory.moodScore)}</span>
+                          {subject.kind === 'artist' && <> · <span className="text-stone-600">{memory.song.title}</span></>}
+                        </p>
+                        <p className="text-xs font-bold text-stone-700 mt-0.5">
+                          {emotionIn(memory, language) || <span className="font-normal text-stone-400">{t('notAnalyzed')}</span>}
+                        </p>
+                        {memory.content && <p className="text-[10px] text-stone-500 truncate mt-0.5">{memory.content}</p>}
+                        {memory.moodTags.length > 0 && (
+                          <p className="text-[10px] text-stone-400 mt-1">{memory.moodTags.map(tag => `#${tagLabel(tag, language, tags)}`).join(' ')}</p>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </section>
+
+              {/* Summary */}
+              <section className="bg-orange-50/40 rounded-2xl border border-orange-100 p-6">
+                {sectionTitle(Mail, t(subject.kind === 'song' ? 'summarySong' : 'summaryArtist'))}
+                {summary && !isWriting && (
+                  <>
+                    <p className="text-sm text-stone-600 leading-relaxed whitespace-pre-wrap">{summary}</p>
+                    <button
+                      onClick={write}
+                      className="mt-4 px-4 py-2 rounded-xl font-bold text-xs text-stone-600 bg-white border border-stone-200 hover:border-orange-200 transition-colors flex items-center gap-1.5"
+                    >
+                      <RefreshCw size={12} /> {t('rewrite')}
+                    </button>
+                  </>
+                )}
+                {!summary && !isWriting && (
+                  <button
+                    onClick={write}
+                    className="w-full px-5 py-3 rounded-xl font-bold text-xs text-white bg-gradient-to-r from-orange-400 to-rose-400 hover:shadow-lg hover:shadow-orange-200 transition-all flex items-center justify-center gap-2"
+                  >
+                    <Sparkles size={14} /> {t('write')}
+                  </button>
+                )}
+                {isWriting && (
+                  <p className="flex items-center justify-center gap-2 text-xs text-stone-500 py-3">
+                    <Loader2 size={14} className="animate-spin text-orange-400" /> {t('writing')}
+                  </p>
+                )}
+                {failed && <p className="text-xs text-rose-500 mt-3">{t('failed')}</p>}
+              </section>
+            </>
+          )}
+        </div>
+
+        {first && (
+          <div className="flex items-center px-8 py-5 border-t border-stone-100 bg-stone-50/50">
+            <PlaylistMenu
+              memories={history.memories}
+              title={`MusicDiary ${subject.kind === 'song' ? subject.title : subject.artist}`}
+              language={language}
+              placement="above"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SongHistoryPanel;
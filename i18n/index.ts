@@ -0,0 +1,89 @@
+import { Language } from "../types";
+import ja, { Messages } from "./locales/ja";
+import en from "./locales/en";
+import ko from "./locales/ko";
+import zh from "./locales/zh";
+
+export const LANGUAGES: Language[] = ["ja", "en", "ko", "zh"];
+
+// Shown in the language picker, each in its own language
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  ja: "日本語",
+  en: "English",
+  ko: "한국어",
+  zh: "简体中文",
+};
+
+export const LOCALE_TAGS: Record<Language, string> = {
+  ja: "ja-JP",
+  en: "en-US",
+  ko: "ko-KR",
+  zh: "zh-CN",
+};
+
+const RESOURCES: Record<Language, Messages> = { ja, en, ko, zh };
+
+// A message is either a plain template or one template per plural category;
+// `other` is required since it is what Japanese, Korean and Chinese always use
+export type Entry = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+export type Vars = Record<string, string | number>;
+
+export type Namespace = keyof Messages;
+export type MessageKey<N extends Namespace> = keyof Messages[N] & string;
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.includes(value as Language);
+
+// The first of the browser's preferred languages we have, by primary subtag
+export const detectLanguage = (): Language => {
+  const preferred = typeof navigator === "undefined" ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    const primary = tag?.split("-")[0].toLowerCase();
+    if (isLanguage(primary)) return primary;
+  }
+  return "ja";
+};
+
+const pluralRules = new Map<Language, Intl.PluralRules>();
+
+const pluralCategory = (language: Language, count: number) => {
+  if (!pluralRules.has(language)) pluralRules.set(language, new Intl.PluralRules(LOCALE_TAGS[language]));
+  return pluralRules.get(language)!.select(count);
+};
+
+// Fills {name} placeholders; unknown ones are left as written
+export const interpolate = (template: string, vars: Vars = {}): string =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => (name in vars ? String(vars[name]) : match));
+
+// Plural entries are picked by `vars.count`
+export const formatMessage = (language: Language, entry: Entry, vars: Vars = {}): string => {
+  const template = typeof entry === "string"
+    ? entry
+    : entry[pluralCategory(language, Number(vars.count ?? 0))] ?? entry.other;
+  return interpolate(template, vars);
+};
+
+// Every locale has every key (the type checker sees to that), but a
+// language saved by a newer version falls back to Japanese
+export const translator = <N extends Namespace>(language: Language, namespace: N) => {
+  const messages = (RESOURCES[language] ?? ja)[namespace] as Record<string, Entry>;
+  return (key: MessageKey<N>, vars?: Vars): string => formatMessage(language, messages[key], vars);
+};
+
+export const formatDate = (date: Date | number, language: Language, options?: Intl.DateTimeFormatOptions): string =>
+  new Date(date).toLocaleDateString(LOCALE_TAGS[language] ?? LOCALE_TAGS.ja, options);
+
+export const formatDateTime = (date: Date | number, language: Language, options?: Intl.DateTimeFormatOptions): string =>
+  new Date(date).toLocaleString(LOCALE_TAGS[language] ?? LOCALE_TAGS.ja, options);
+
+export const formatTime = (date: Date | number, language: Language, options?: Intl.DateTimeFormatOptions): string =>
+  new Date(date).toLocaleTimeString(LOCALE_TAGS[language] ?? LOCALE_TAGS.ja, options);
+
+// One language's name as written in another, e.g. "韓国語" for Korean in Japanese
+export const languageName = (of: Language, language: Language): string =>
+  new Intl.DisplayNames([LOCALE_TAGS[language] ?? LOCALE_TAGS.ja], { type: "language" }).of(of) ?? LANGUAGE_NAMES[of];
+
+// Short weekday names from Sunday, as the calendar and charts lay them out
+// (2024-01-07 was a Sunday)
+export const weekdayNames = (language: Language): string[] =>
+  Array.from({ length: 7 }, (_, weekday) => formatDate(new Date(2024, 0, 7 + weekday), language, { weekday: "short" }));
@@ -0,0 +1,390 @@
+import type { Messages } from "./ja";
+
+const en: Messages = {
+  app: {
+    subtitle: "Life log of music & emotions",
+    titleRecord: "Record a Memory Song",
+    descRecord: "Capture the moment your heart moved, along with the music.",
+    labelDate: "Date",
+    labelMusic: "Music Info",
+    labelMood: "Emotion Barometer",
+    labelTags: "Keywords",
+    maxTags: "(max {count})",
+    labelDiary: "Diary Note",
+    placeholderSong: "Song Title",
+    placeholderArtist: "Artist Name",
+    placeholderTrack: "Track URL or ID (optional: opens the track instead of a search)",
+    placeholderDiary: "Write down your feelings or what happened (optional)...",
+    btnReset: "Reset input?",
+    reset: "Reset",
+    btnSave: "Save Memory",
+    timeline: "My Timeline",
+    emptyTitle: "No memories yet",
+    emptyDesc: "Let's record your first song.",
+    errorStorage: "Your memories could not be saved. Changes will be lost when this page is closed.",
+    errorQuota: "Browser storage is full. Delete some memories to free up space.",
+    errorLoad: "Saved memories could not be loaded.",
+    loading: "Loading...",
+    exportBackup: "Export",
+    importBackup: "Import",
+    exportEncrypted: "Export encrypted",
+    lockNow: "Lock now",
+    errorExport: "The backup could not be exported.",
+    errorImportFormat: "This file is not a valid MusicDiary backup.",
+    noMatches: "No memories match your search",
+    errorImportNewer: "This backup was created by a newer version of the app.",
+    viewList: "List",
+    viewCalendar: "Calendar",
+    viewInsights: "Insights",
+    settings: "Settings",
+    language: "Language",
+  },
+  calendar: {
+    monthView: "Month",
+    yearView: "Year",
+    art: "Art",
+    mood: "Mood",
+    color: "Color",
+    recordForDay: "Record for this day",
+    noMemoriesOnDay: "No memories on this day",
+    close: "Close",
+    memoriesCount: { one: "{count} memory", other: "{count} memories" },
+    monthRecap: "Month recap",
+    yearRecap: "Year recap",
+  },
+  filter: {
+    searchPlaceholder: "Search diary, messages, songs and artists",
+    filters: "Filters",
+    clear: "Clear",
+    tags: "Keywords",
+    mood: "Mood score",
+    period: "Date range",
+    feedback: "Feedback",
+    language: "Recorded in",
+    any: "Any",
+    correct: "Matched",
+    incorrect: "Didn't match",
+    none: "No answer",
+    results: { one: "{matched} / {count} memory", other: "{matched} / {count} memories" },
+  },
+  importPreview: {
+    title: "Import Backup",
+    added: "New",
+    identical: "Identical",
+    conflicts: "Conflicts",
+    conflictHelp: "These entries differ from the ones in your diary. Choose which version to keep.",
+    keepMine: "Current",
+    useBackup: "Backup",
+    newTags: "New keywords",
+    newRecaps: "New recaps",
+    nothingToDo: "There is nothing new to import.",
+    confirm: "Import",
+    cancel: "Cancel",
+  },
+  insights: {
+    trendTitle: "Mood Over Time",
+    weekly: "7-day average",
+    monthly: "30-day average",
+    tagsTitle: "Tag Frequency",
+    pairsTitle: "Tags Used Together",
+    rankingTitle: "Mood by Artist & Song",
+    artists: "Artists",
+    songs: "Songs",
+    byPlays: "Most recorded",
+    byMood: "Average mood",
+    weekdayTitle: "Mood by Weekday",
+    times: "{count}×",
+    notEnough: "Not enough data yet",
+  },
+  memoryCard: {
+    share: "Share",
+    openSongHistory: "See every memory of this song",
+    openArtistHistory: "See every memory of this artist",
+    messageTitle: "Message for You",
+    translate: "Translate",
+    translating: "Translating…",
+    translateFailed: "Couldn't translate",
+    translatedFrom: "Translated from {language}",
+    showOriginal: "Show original",
+    showTranslation: "Show translation",
+    feedbackQuestion: "Did this match your mood?",
+    confirmDelete: "Are you sure you want to delete this memory?",
+    deleteTitle: "Delete",
+    listenOn: "Listen on {service}",
+    searchOn: "Search on {service}",
+    artAlt: "Mood art for {title}",
+    editTitle: "Edit",
+    historyTitle: "History",
+    placeholderSong: "Song Title",
+    placeholderArtist: "Artist Name",
+    placeholderTrack: "Track URL or ID (optional)",
+    reanalyze: "Re-analyze with AI (new message and art)",
+    save: "Save",
+    cancel: "Cancel",
+    editedAt: "Edited",
+    restore: "Restore",
+    confirmRestore: "Restore this version? The current one will be kept in the history.",
+    correctionPrompt: "What did you actually feel?",
+    correctionPlaceholder: "e.g. Bittersweet but hopeful",
+    correctionSubmit: "Re-analyze with this",
+    yourWords: "In your words",
+    noHistory: "No earlier versions yet",
+    analyzingNow: "Analyzing music and emotions...",
+    drawingNow: "Generating visual...",
+    queued: "Waiting for analysis",
+    queuedImage: "Waiting for artwork",
+    nextAttempt: "Next try",
+    failed: "Analysis failed",
+    failedImage: "Artwork failed",
+    retry: "Retry",
+    artTitle: "Artwork",
+    gallery: "Gallery (the one you pick becomes the cover)",
+    artPrompt: "Image prompt",
+    artStyle: "Style",
+    regenerate: "Regenerate art",
+    artWaiting: "Art can be regenerated once the analysis is done",
+    classic: "Minimal",
+    watercolor: "Watercolor",
+    geometric: "Geometric",
+    photo: "Photo-like",
+    pastel: "Pastel",
+    ink: "Ink wash",
+  },
+  playlist: {
+    playlist: "Playlist",
+    songs: { one: "{count} song", other: "{count} songs" },
+    m3u8: "M3U8 (media players)",
+    xspf: "XSPF (sharing and import tools)",
+    csv: "CSV (spreadsheets)",
+    title: "MusicDiary {date}",
+    titleRange: "MusicDiary {from} – {to}",
+    titleFrom: "MusicDiary from {from}",
+    titleUntil: "MusicDiary until {to}",
+  },
+  recap: {
+    title: "Recap",
+    month: "Month",
+    year: "Year",
+    saved: "Saved recaps",
+    memories: "Memories",
+    averageMood: "Average mood",
+    topSongs: "Top songs",
+    topArtists: "Top artists",
+    topTags: "Top keywords",
+    moodArc: "Mood arc",
+    highest: "Brightest day",
+    lowest: "Quietest day",
+    letter: "A letter for you",
+    write: "Write the recap letter",
+    rewrite: "Rewrite",
+    writing: "Writing your letter...",
+    delete: "Delete",
+    confirmDelete: "Delete this recap?",
+    empty: "No memories in this period yet",
+    failed: "The letter could not be written. Check the AI settings and try again.",
+    createdAt: "Written",
+    outdated: "Memories have changed since this was written",
+    times: "{count}×",
+  },
+  settings: {
+    title: "Settings",
+    tagsSection: "Keywords",
+    maxTags: "Keywords per memory",
+    archive: "Archive (hidden when recording)",
+    unarchive: "Restore",
+    moveUp: "Move up",
+    moveDown: "Move down",
+    add: "Add",
+    aiSection: "AI",
+    provider: "Provider",
+    gemini: "Gemini",
+    "openai-compatible": "Local (OpenAI-compatible)",
+    offline: "Offline",
+    offlineHelp: "Works without a network: messages and abstract art are derived from what you enter.",
+    localHelp: "Uses an OpenAI-compatible server such as llama.cpp, Ollama or LM Studio. Without an image model, abstract art is drawn locally.",
+    autoTranslate: "Translate analyses in other languages automatically",
+    autoTranslateHelp: "Entries on screen are translated into the app's language one at a time and kept. The original is always one click away.",
+    geminiHelp: "Leave the API key empty to use the key the app was built with.",
+    model: "Model",
+    imageModel: "Image model",
+    endpoint: "Endpoint",
+    apiKey: "API key",
+    optional: "Optional",
+    artistsSection: "Songs & artists",
+    catalog: "Suggestion catalog",
+    none: "Diary only",
+    musicbrainz: "MusicBrainz",
+    noneHelp: "Song and artist suggestions come from your own diary.",
+    musicbrainzHelp: "Also looks up suggestions from a MusicBrainz-style API. What you type is sent to that server.",
+    aliases: "Aliases",
+    aliasHelp: "Entries typed with the spelling on the left are saved under the name on the right.",
+    alias: "Spelling",
+    canonical: "Saved as",
+    removeAlias: "Remove",
+    merge: "Merge artists",
+    mergeHelp: "Pick the spellings of one artist to rename them all at once. They are also added as aliases.",
+    mergeInto: "Merge into",
+    mergeButton: "Merge",
+    confirmMerge: { one: "{count} memory will be renamed. Continue?", other: "{count} memories will be renamed. Continue?" },
+    noArtists: "No memories yet",
+    streamingSection: "Streaming services",
+    streamingHelp: "The first service you pick opens from the play button. Memories with a saved track URL or ID open that track directly.",
+    custom: "Custom",
+    customLabel: "Name",
+    customTemplate: "Search URL",
+    customHelp: "{artist} and {title} are replaced with the song's details.",
+    invalidTemplate: "Enter a URL starting with http(s) that contains {artist} or {title}.",
+  },
+  shareCard: {
+    title: "Share as a card",
+    square: "Square",
+    story: "Story",
+    excerpt: "Message excerpt (pick the sentences)",
+    noMessage: "No message yet",
+    includeContent: "Include my diary note",
+    privateHint: "Your diary note is private. Check the preview before sharing.",
+    download: "Save PNG",
+    share: "Share",
+    failed: "The card could not be created",
+    quote: "“{text}”",
+  },
+  autocomplete: {
+    fromHistory: "From your diary",
+    fromCatalog: "From the catalog",
+    times: "{count}×",
+  },
+  songHistory: {
+    songTitle: "Song history",
+    artistTitle: "Artist history",
+    memories: "Memories",
+    firstRecorded: "First recorded",
+    lastRecorded: "Last recorded",
+    averageMood: "Average mood",
+    moodStrip: "Mood over time",
+    tags: "Keywords you chose",
+    songs: "Songs recorded",
+    entries: "Every memory",
+    summarySong: "What this song has meant to you",
+    summaryArtist: "What this artist has meant to you",
+    write: "Ask the AI for a summary",
+    rewrite: "Rewrite",
+    writing: "Writing your summary...",
+    failed: "The summary could not be written. Check the AI settings and try again.",
+    notAnalyzed: "Not analyzed yet",
+    empty: "There are no memories of this any more",
+    times: "{count}×",
+    openArtist: "See the history of {artist}",
+  },
+  recommendations: {
+    title: "Songs that fit this mood",
+    fromHistory: "From your diary",
+    noHistory: "No memories in a similar mood yet",
+    times: "{count}×",
+    confirmed: { one: "The analysis matched how you felt {count} time", other: "The analysis matched how you felt {count} times" },
+    newSongs: "Not in your diary yet",
+    ask: "Ask the AI for new songs",
+    asking: "Looking...",
+    askAgain: "Ask for others",
+    failed: "Couldn't get recommendations. Check the AI settings and try again.",
+    noneNew: "Nothing new turned up",
+    use: "Record this song",
+  },
+  mood: {
+    pickerLabel: "Where your mood sits",
+    hint: "Across is how pleasant, up is how energetic. Click, drag or use the arrow keys.",
+    pleasant: "Pleasant",
+    unpleasant: "Unpleasant",
+    energetic: "Energetic",
+    calm: "Calm",
+    excited: "Excited",
+    content: "Content",
+    tense: "Tense",
+    down: "Down",
+    neutral: "Neutral",
+    valueText: "{quadrant} (mood {valence}, energy {energy})",
+  },
+  lock: {
+    title: "Your diary is locked",
+    description: "Enter your passphrase to open it",
+    passphrase: "Passphrase",
+    unlock: "Unlock",
+    checking: "Checking...",
+    wrongPassphrase: "That passphrase doesn't match",
+    section: "Lock",
+    help: "When on, your memories, artwork and recaps are stored in this browser encrypted with a key made from your passphrase. Settings and keywords are not encrypted. If you forget the passphrase, your memories can't be opened.",
+    enabled: "The lock is on",
+    enable: "Turn on the lock",
+    change: "Change passphrase",
+    disable: "Turn off the lock",
+    lockNow: "Lock now",
+    currentPassphrase: "Current passphrase",
+    newPassphrase: "New passphrase",
+    confirmPassphrase: "Enter it again",
+    tooShort: { one: "Use at least {count} character", other: "Use at least {count} characters" },
+    mismatch: "The passphrases don't match",
+    save: "Confirm",
+    cancel: "Cancel",
+    encrypting: "Encrypting...",
+    failed: "Couldn't make the change. Please try again.",
+    autoLock: "Lock after inactivity",
+    autoLockOff: "Never",
+    autoLockAfter: { one: "After {count} minute", other: "After {count} minutes" },
+    exportTitle: "Export encrypted",
+    exportHelp: "Choose a passphrase for this backup. You'll need it to import it.",
+    export: "Export",
+    importTitle: "Encrypted backup",
+    importHelp: "Enter the passphrase chosen when this backup was exported.",
+    import: "Import",
+    lockedTitle: "Locked diary",
+    transferHelp: "\"{name}\" is locked. Enter its passphrase to send the memories there.",
+    transfer: "Send",
+    deleteHelp: "\"{name}\" is locked. Enter its passphrase to delete it.",
+    delete: "Delete",
+  },
+  profiles: {
+    defaultName: "My diary",
+    switch: "Switch diary",
+    newProfile: "New diary",
+    namePlaceholder: "Name (e.g. Work)",
+    add: "Add",
+    rename: "Rename",
+    delete: "Delete",
+    confirmDelete: "This deletes \"{name}\" and all of its memories. It can't be undone. Continue?",
+    openOther: "Open another diary",
+    transfer: "To another diary",
+    transferCount: { one: "The {count} memory shown", other: "The {count} memories shown" },
+    copy: "Copy",
+    move: "Move",
+    confirmMove: { one: "Move {count} memory to \"{name}\"? It will be removed from this diary.", other: "Move {count} memories to \"{name}\"? They will be removed from this diary." },
+    copied: { one: "Copied {count} memory to \"{name}\"", other: "Copied {count} memories to \"{name}\"" },
+    moved: { one: "Moved {count} memory to \"{name}\"", other: "Moved {count} memories to \"{name}\"" },
+    sending: "Sending...",
+    failed: "Couldn't send them. Please try again.",
+  },
+  reminder: {
+    title: "MusicDiary",
+    body: "What's today's song?",
+    bodyStreak: "Write today to keep your {count}-day streak going. What's today's song?",
+    section: "Reminder",
+    enable: "Remind me every day at a set time",
+    time: "Time",
+    help: "Only sent when there is no memory for today yet, and only while MusicDiary is open in your browser.",
+    blocked: "Notifications are blocked in this browser. Allow them in the site settings.",
+    unsupported: "This browser doesn't support notifications.",
+  },
+  streak: {
+    current: { one: "{count} day in a row", other: "{count} days in a row" },
+    longest: { one: "Best: {count} day", other: "Best: {count} days" },
+    doneToday: "Today is recorded",
+    keepGoing: "Write today to keep it going",
+    start: "Start your streak today",
+  },
+  onThisDay: {
+    title: "On this day",
+    yearsAgo: { one: "{count} year ago", other: "{count} years ago" },
+    recordAgain: "How does it feel today?",
+    recordAgainHelp: "Start today's memory with this song",
+  },
+};
+
+export default en;
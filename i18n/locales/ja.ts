@@ -0,0 +1,394 @@
+import type { Entry } from "..";
+
+// The source locale: every other locale is checked against these keys.
+// Placeholders are written {name}; plural entries are picked by {count}.
+const ja = {
+  app: {
+    subtitle: "音楽と感情のライフログ",
+    titleRecord: "思い出の曲を記録する",
+    descRecord: "心が動いた瞬間と、その時の音楽を残しておきましょう。",
+    labelDate: "日付",
+    labelMusic: "楽曲情報",
+    labelMood: "感情バロメーター",
+    labelTags: "キーワード",
+    maxTags: "（最大{count}つ）",
+    labelDiary: "日記・メモ",
+    placeholderSong: "曲名",
+    placeholderArtist: "アーティスト名",
+    placeholderTrack: "曲のURLまたはID（任意：検索の代わりにその曲を開きます）",
+    placeholderDiary: "今の気持ちや出来事を書き留めましょう（任意）",
+    btnReset: "入力をリセットしますか？",
+    reset: "リセット",
+    btnSave: "思い出を保存",
+    timeline: "マイ・タイムライン",
+    emptyTitle: "記録はまだありません",
+    emptyDesc: "最初の1曲を記録してみましょう",
+    errorStorage: "記録を保存できませんでした。変更はこのページを閉じると失われます。",
+    errorQuota: "ブラウザの保存容量がいっぱいです。不要な記録を削除して空きを作ってください。",
+    errorLoad: "保存された記録を読み込めませんでした。",
+    loading: "読み込み中...",
+    exportBackup: "書き出し",
+    importBackup: "読み込み",
+    exportEncrypted: "暗号化して書き出し",
+    lockNow: "今すぐロック",
+    errorExport: "バックアップを書き出せませんでした。",
+    errorImportFormat: "このファイルはMusicDiaryのバックアップとして読み込めません。",
+    noMatches: "条件に合う記録はありません",
+    errorImportNewer: "このバックアップは新しいバージョンのアプリで作成されています。",
+    viewList: "リスト",
+    viewCalendar: "カレンダー",
+    viewInsights: "分析",
+    settings: "設定",
+    language: "言語",
+  },
+  calendar: {
+    monthView: "月",
+    yearView: "年",
+    art: "アート",
+    mood: "気分",
+    color: "色",
+    recordForDay: "この日の記録を書く",
+    noMemoriesOnDay: "この日の記録はありません",
+    close: "閉じる",
+    memoriesCount: "{count}件",
+    monthRecap: "この月の振り返り",
+    yearRecap: "この年の振り返り",
+  },
+  filter: {
+    searchPlaceholder: "日記・メッセージ・曲名・アーティストを検索",
+    filters: "絞り込み",
+    clear: "クリア",
+    tags: "キーワード",
+    mood: "ムードスコア",
+    period: "期間",
+    feedback: "フィードバック",
+    language: "記録時の言語",
+    any: "すべて",
+    correct: "合っていた",
+    incorrect: "違っていた",
+    none: "未回答",
+    results: "{matched} / {count}件",
+  },
+  importPreview: {
+    title: "バックアップの読み込み",
+    added: "新しい記録",
+    identical: "変更なし",
+    conflicts: "内容が異なる記録",
+    conflictHelp: "同じ記録で内容が異なります。残す方を選んでください。",
+    keepMine: "今の記録",
+    useBackup: "バックアップ",
+    newTags: "追加されるキーワード",
+    newRecaps: "追加される振り返り",
+    nothingToDo: "読み込む新しい内容はありません。",
+    confirm: "読み込む",
+    cancel: "キャンセル",
+  },
+  insights: {
+    trendTitle: "ムードの推移",
+    weekly: "7日移動平均",
+    monthly: "30日移動平均",
+    tagsTitle: "よく使うキーワード",
+    pairsTitle: "一緒に選ばれるキーワード",
+    rankingTitle: "アーティスト・曲ごとのムード",
+    artists: "アーティスト",
+    songs: "曲",
+    byPlays: "記録回数",
+    byMood: "平均ムード",
+    weekdayTitle: "曜日ごとのムード",
+    times: "{count}回",
+    notEnough: "表示できるデータがまだありません",
+  },
+  memoryCard: {
+    share: "シェア",
+    openSongHistory: "この曲の履歴を見る",
+    openArtistHistory: "このアーティストの履歴を見る",
+    messageTitle: "Message for You", // kept in English everywhere; it's part of the card's look
+    translate: "翻訳する",
+    translating: "翻訳しています…",
+    translateFailed: "翻訳できませんでした",
+    translatedFrom: "{language}から翻訳",
+    showOriginal: "原文を見る",
+    showTranslation: "翻訳を見る",
+    feedbackQuestion: "気持ちに合っていましたか？",
+    confirmDelete: "この記録を削除してもよろしいですか？",
+    deleteTitle: "削除する",
+    listenOn: "{service}で聴く",
+    searchOn: "{service}で探す",
+    artAlt: "「{title}」の思い出のアート",
+    editTitle: "編集する",
+    historyTitle: "編集履歴",
+    placeholderSong: "曲名",
+    placeholderArtist: "アーティスト名",
+    placeholderTrack: "曲のURLまたはID（任意）",
+    reanalyze: "AIで分析し直す（メッセージとアートを作り直します）",
+    save: "保存",
+    cancel: "キャンセル",
+    editedAt: "編集日時",
+    restore: "この版に戻す",
+    confirmRestore: "この版に戻しますか？現在の内容は履歴に残ります。",
+    correctionPrompt: "本当はどんな気持ちでしたか？",
+    correctionPlaceholder: "例：切ないけど前向き",
+    correctionSubmit: "この気持ちで分析し直す",
+    yourWords: "あなたの言葉",
+    noHistory: "編集履歴はまだありません",
+    analyzingNow: "音楽と感情を分析しています...",
+    drawingNow: "イメージを生成しています...",
+    queued: "分析待ち",
+    queuedImage: "アートの生成待ち",
+    nextAttempt: "次の再試行",
+    failed: "分析できませんでした",
+    failedImage: "アートを生成できませんでした",
+    retry: "再試行",
+    artTitle: "アート",
+    gallery: "ギャラリー（選んだ1枚が表紙になります）",
+    artPrompt: "イメージの説明",
+    artStyle: "スタイル",
+    regenerate: "アートを作り直す",
+    artWaiting: "分析が終わるとアートを作り直せます",
+    classic: "ミニマル",
+    watercolor: "水彩",
+    geometric: "幾何学",
+    photo: "写真風",
+    pastel: "パステル",
+    ink: "墨絵",
+  },
+  playlist: {
+    playlist: "プレイリスト",
+    songs: "{count}曲",
+    m3u8: "M3U8（メディアプレーヤー）",
+    xspf: "XSPF（共有・変換ツール）",
+    csv: "CSV（表計算）",
+    title: "MusicDiary {date}",
+    titleRange: "MusicDiary {from}〜{to}",
+    titleFrom: "MusicDiary {from}〜",
+    titleUntil: "MusicDiary 〜{to}",
+  },
+  recap: {
+    title: "振り返り",
+    month: "月",
+    year: "年",
+    saved: "保存した振り返り",
+    memories: "記録",
+    averageMood: "平均ムード",
+    topSongs: "よく聴いた曲",
+    topArtists: "よく聴いたアーティスト",
+    topTags: "よく選んだキーワード",
+    moodArc: "ムードの流れ",
+    highest: "いちばん明るかった日",
+    lowest: "いちばん静かだった日",
+    letter: "あなたへの手紙",
+    write: "振り返りの手紙を書いてもらう",
+    rewrite: "書き直す",
+    writing: "手紙を書いています...",
+    delete: "削除",
+    confirmDelete: "この振り返りを削除しますか？",
+    empty: "この期間の記録はまだありません",
+    failed: "手紙を書けませんでした。AIの設定を確認して、もう一度お試しください。",
+    createdAt: "作成",
+    outdated: "作成後に記録が変わっています",
+    times: "{count}回",
+  },
+  settings: {
+    title: "設定",
+    tagsSection: "キーワード",
+    maxTags: "1つの記録で選べる数",
+    archive: "アーカイブ（新しい記録では選べなくなります）",
+    unarchive: "元に戻す",
+    moveUp: "上へ",
+    moveDown: "下へ",
+    add: "追加",
+    aiSection: "AI",
+    provider: "使用するAI",
+    gemini: "Gemini",
+    "openai-compatible": "ローカル (OpenAI互換)",
+    offline: "オフライン",
+    offlineHelp: "通信を行わず、入力内容から決まったメッセージと抽象画を作ります。",
+    localHelp: "llama.cpp・Ollama・LM Studio などのOpenAI互換サーバーを使います。画像モデルが空の場合は抽象画を作ります。",
+    autoTranslate: "言語の違う分析を自動で翻訳",
+    autoTranslateHelp: "表示中の記録を、画面の言語に一件ずつ翻訳して保存します。原文はいつでも見られます。",
+    geminiHelp: "APIキーが空の場合はアプリに設定されたキーを使います。",
+    model: "モデル",
+    imageModel: "画像モデル",
+    endpoint: "エンドポイント",
+    apiKey: "APIキー",
+    optional: "任意",
+    artistsSection: "曲とアーティスト",
+    catalog: "入力候補のカタログ",
+    none: "記録のみ",
+    musicbrainz: "MusicBrainz",
+    noneHelp: "曲名・アーティスト名の候補は、これまでの記録から出します。",
+    musicbrainzHelp: "記録に加えて、MusicBrainz互換のAPIからも候補を探します。入力した文字がそのサーバーに送られます。",
+    aliases: "表記ゆれ",
+    aliasHelp: "左の表記で入力すると、右の名前で保存されます。",
+    alias: "別の表記",
+    canonical: "まとめる名前",
+    removeAlias: "削除",
+    merge: "アーティストをまとめる",
+    mergeHelp: "同じアーティストの表記を選んで、1つの名前にそろえます。選んだ表記は表記ゆれにも追加されます。",
+    mergeInto: "まとめた名前",
+    mergeButton: "まとめる",
+    confirmMerge: "{count}件の記録のアーティスト名を書き換えます。よろしいですか？",
+    noArtists: "まだ記録がありません",
+    streamingSection: "再生するサービス",
+    streamingHelp: "最初に選んだサービスが再生ボタンで開きます。曲のURLやIDを保存した記録は、その曲を直接開きます。",
+    custom: "カスタム",
+    customLabel: "表示名",
+    customTemplate: "検索URL",
+    customHelp: "{artist} と {title} が曲の情報に置き換わります。",
+    invalidTemplate: "http(s)で始まり、{artist} か {title} を含むURLを入力してください。",
+  },
+  shareCard: {
+    title: "カードでシェア",
+    square: "正方形",
+    story: "ストーリー",
+    excerpt: "載せるメッセージ（文を選んでください）",
+    noMessage: "まだメッセージがありません",
+    includeContent: "日記の本文も載せる",
+    privateHint: "日記は自分だけのメモです。シェアする前に内容を確認してください。",
+    download: "PNGで保存",
+    share: "シェア",
+    failed: "カードを作れませんでした",
+    quote: "「{text}」",
+  },
+  autocomplete: {
+    fromHistory: "記録から",
+    fromCatalog: "カタログから",
+    times: "{count}回",
+  },
+  songHistory: {
+    songTitle: "曲の履歴",
+    artistTitle: "アーティストの履歴",
+    memories: "記録",
+    firstRecorded: "最初の記録",
+    lastRecorded: "最後の記録",
+    averageMood: "平均ムード",
+    moodStrip: "ムードの移り変わり",
+    tags: "よく選んだキーワード",
+    songs: "記録した曲",
+    entries: "それぞれの記録",
+    summarySong: "この曲があなたにとって意味してきたこと",
+    summaryArtist: "このアーティストがあなたにとって意味してきたこと",
+    write: "AIにまとめてもらう",
+    rewrite: "書き直す",
+    writing: "まとめています...",
+    failed: "まとめを書けませんでした。AIの設定を確認して、もう一度お試しください。",
+    notAnalyzed: "分析待ち",
+    empty: "ここに残っている記録はもうありません",
+    times: "{count}回",
+    openArtist: "{artist}の履歴を見る",
+  },
+  recommendations: {
+    title: "この気分に合う曲",
+    fromHistory: "あなたの記録から",
+    noHistory: "似た気分の記録はまだありません",
+    times: "{count}回",
+    confirmed: "分析が気持ちに合っていた回数: {count}",
+    newSongs: "まだ日記にない曲",
+    ask: "AIに新しい曲を聞く",
+    asking: "探しています...",
+    askAgain: "ほかの曲を聞く",
+    failed: "おすすめを取得できませんでした。AIの設定を確認して、もう一度お試しください。",
+    noneNew: "日記にない曲は見つかりませんでした",
+    use: "この曲で記録する",
+  },
+  mood: {
+    pickerLabel: "気分の位置",
+    hint: "横は気分の明るさ、縦はエネルギー。クリックやドラッグ、矢印キーで選べます",
+    pleasant: "明るい",
+    unpleasant: "沈んだ",
+    energetic: "高ぶり",
+    calm: "落ち着き",
+    excited: "わくわく",
+    content: "穏やか",
+    tense: "ピリピリ",
+    down: "どんより",
+    neutral: "ふつう",
+    valueText: "{quadrant}（気分 {valence}・エネルギー {energy}）",
+  },
+  lock: {
+    title: "日記はロックされています",
+    description: "パスフレーズを入力して開いてください",
+    passphrase: "パスフレーズ",
+    unlock: "開く",
+    checking: "確認しています...",
+    wrongPassphrase: "パスフレーズが違います",
+    section: "ロック",
+    help: "オンにすると、記録・アート・振り返りをパスフレーズから作った鍵で暗号化して、このブラウザに保存します。設定とキーワードは暗号化されません。パスフレーズを忘れると記録は開けなくなります。",
+    enabled: "ロックは有効です",
+    enable: "ロックを有効にする",
+    change: "パスフレーズを変更",
+    disable: "ロックを解除",
+    lockNow: "今すぐロック",
+    currentPassphrase: "今のパスフレーズ",
+    newPassphrase: "新しいパスフレーズ",
+    confirmPassphrase: "もう一度入力",
+    tooShort: "{count}文字以上にしてください",
+    mismatch: "確認用のパスフレーズが一致しません",
+    save: "決定",
+    cancel: "キャンセル",
+    encrypting: "暗号化しています...",
+    failed: "変更できませんでした。もう一度お試しください。",
+    autoLock: "操作が無いときの自動ロック",
+    autoLockOff: "しない",
+    autoLockAfter: "{count}分後",
+    exportTitle: "暗号化して書き出し",
+    exportHelp: "このバックアップ用のパスフレーズを決めてください。読み込むときに必要です。",
+    export: "書き出す",
+    importTitle: "暗号化されたバックアップ",
+    importHelp: "書き出したときに決めたパスフレーズを入力してください。",
+    import: "読み込む",
+    lockedTitle: "ロックされた日記",
+    transferHelp: "「{name}」はロックされています。記録を送るには、その日記のパスフレーズを入力してください。",
+    transfer: "送る",
+    deleteHelp: "「{name}」はロックされています。削除するには、その日記のパスフレーズを入力してください。",
+    delete: "削除",
+  },
+  profiles: {
+    defaultName: "わたしの日記",
+    switch: "日記を切り替え",
+    newProfile: "新しい日記",
+    namePlaceholder: "名前（例: 仕事）",
+    add: "追加",
+    rename: "名前を変更",
+    delete: "削除",
+    confirmDelete: "「{name}」とその記録をすべて削除します。元に戻せません。よろしいですか？",
+    openOther: "別の日記を開く",
+    transfer: "別の日記へ",
+    transferCount: "表示中の{count}件の記録",
+    copy: "コピー",
+    move: "移動",
+    confirmMove: "{count}件の記録を「{name}」へ移動し、この日記からは削除します。よろしいですか？",
+    copied: "{count}件を「{name}」にコピーしました",
+    moved: "{count}件を「{name}」に移動しました",
+    sending: "送っています...",
+    failed: "送れませんでした。もう一度お試しください。",
+  },
+  reminder: {
+    title: "MusicDiary",
+    body: "今日の一曲を記録しませんか？",
+    bodyStreak: "今日書くと{count}日連続が続きます。今日の一曲は？",
+    section: "リマインダー",
+    enable: "毎日決まった時刻に通知する",
+    time: "時刻",
+    help: "まだ今日の記録が無いときだけ通知します。MusicDiaryをブラウザで開いている間だけ届きます。",
+    blocked: "ブラウザで通知がブロックされています。サイトの設定から許可してください。",
+    unsupported: "このブラウザは通知に対応していません。",
+  },
+  streak: {
+    current: "{count}日連続",
+    longest: "最長 {count}日",
+    doneToday: "今日の記録は済んでいます",
+    keepGoing: "今日書くと続きます",
+    start: "今日から記録を始めましょう",
+  },
+  onThisDay: {
+    title: "この日の記録",
+    yearsAgo: "{count}年前",
+    recordAgain: "今の気持ちで記録",
+    recordAgainHelp: "この曲で今日の記録を始めます",
+  },
+} satisfies Record<string, Record<string, Entry>>;
+
+export type Messages = { [N in keyof typeof ja]: Record<keyof (typeof ja)[N], Entry> };
+
+export default ja;
@@ -0,0 +1,390 @@
+import type { Messages } from "./ja";
+
+const ko: Messages = {
+  app: {
+    subtitle: "음악과 감정의 라이프로그",
+    titleRecord: "추억의 노래 기록하기",
+    descRecord: "마음이 움직인 순간을 그때의 음악과 함께 남겨 두세요.",
+    labelDate: "날짜",
+    labelMusic: "곡 정보",
+    labelMood: "감정 바로미터",
+    labelTags: "키워드",
+    maxTags: "(최대 {count}개)",
+    labelDiary: "일기·메모",
+    placeholderSong: "곡명",
+    placeholderArtist: "아티스트명",
+    placeholderTrack: "곡 URL 또는 ID (선택: 검색 대신 그 곡을 엽니다)",
+    placeholderDiary: "지금의 기분이나 있었던 일을 적어 보세요 (선택)",
+    btnReset: "입력을 초기화할까요?",
+    reset: "초기화",
+    btnSave: "추억 저장",
+    timeline: "나의 타임라인",
+    emptyTitle: "아직 기록이 없습니다",
+    emptyDesc: "첫 번째 곡을 기록해 보세요",
+    errorStorage: "기록을 저장하지 못했습니다. 이 페이지를 닫으면 변경 내용이 사라집니다.",
+    errorQuota: "브라우저 저장 공간이 가득 찼습니다. 필요 없는 기록을 삭제해 공간을 확보해 주세요.",
+    errorLoad: "저장된 기록을 불러오지 못했습니다.",
+    loading: "불러오는 중...",
+    exportBackup: "내보내기",
+    importBackup: "가져오기",
+    exportEncrypted: "암호화해서 내보내기",
+    lockNow: "지금 잠그기",
+    errorExport: "백업을 내보내지 못했습니다.",
+    errorImportFormat: "이 파일은 MusicDiary 백업으로 불러올 수 없습니다.",
+    noMatches: "조건에 맞는 기록이 없습니다",
+    errorImportNewer: "이 백업은 더 새로운 버전의 앱에서 만들어졌습니다.",
+    viewList: "목록",
+    viewCalendar: "캘린더",
+    viewInsights: "분석",
+    settings: "설정",
+    language: "언어",
+  },
+  calendar: {
+    monthView: "월",
+    yearView: "연",
+    art: "아트",
+    mood: "기분",
+    color: "색",
+    recordForDay: "이날의 기록 쓰기",
+    noMemoriesOnDay: "이날의 기록이 없습니다",
+    close: "닫기",
+    memoriesCount: "{count}개",
+    monthRecap: "이달의 돌아보기",
+    yearRecap: "올해의 돌아보기",
+  },
+  filter: {
+    searchPlaceholder: "일기·메시지·곡명·아티스트 검색",
+    filters: "필터",
+    clear: "지우기",
+    tags: "키워드",
+    mood: "무드 점수",
+    period: "기간",
+    feedback: "피드백",
+    language: "기록 언어",
+    any: "전체",
+    correct: "맞았음",
+    incorrect: "달랐음",
+    none: "미응답",
+    results: "{matched} / {count}개",
+  },
+  importPreview: {
+    title: "백업 가져오기",
+    added: "새 기록",
+    identical: "변경 없음",
+    conflicts: "내용이 다른 기록",
+    conflictHelp: "같은 기록인데 내용이 다릅니다. 남길 쪽을 선택해 주세요.",
+    keepMine: "현재 기록",
+    useBackup: "백업",
+    newTags: "추가될 키워드",
+    newRecaps: "추가될 돌아보기",
+    nothingToDo: "가져올 새 내용이 없습니다.",
+    confirm: "가져오기",
+    cancel: "취소",
+  },
+  insights: {
+    trendTitle: "무드 추이",
+    weekly: "7일 이동 평균",
+    monthly: "30일 이동 평균",
+    tagsTitle: "자주 쓰는 키워드",
+    pairsTitle: "함께 선택되는 키워드",
+    rankingTitle: "아티스트·곡별 무드",
+    artists: "아티스트",
+    songs: "곡",
+    byPlays: "기록 횟수",
+    byMood: "평균 무드",
+    weekdayTitle: "요일별 무드",
+    times: "{count}회",
+    notEnough: "아직 표시할 데이터가 없습니다",
+  },
+  memoryCard: {
+    share: "공유",
+    openSongHistory: "이 곡의 기록 모두 보기",
+    openArtistHistory: "이 아티스트의 기록 모두 보기",
+    messageTitle: "Message for You",
+    translate: "번역하기",
+    translating: "번역하는 중…",
+    translateFailed: "번역하지 못했어요",
+    translatedFrom: "{language}에서 번역",
+    showOriginal: "원문 보기",
+    showTranslation: "번역 보기",
+    feedbackQuestion: "기분과 맞았나요?",
+    confirmDelete: "이 기록을 삭제할까요?",
+    deleteTitle: "삭제",
+    listenOn: "{service}에서 듣기",
+    searchOn: "{service}에서 찾기",
+    artAlt: "'{title}'의 추억 아트",
+    editTitle: "편집",
+    historyTitle: "편집 기록",
+    placeholderSong: "곡명",
+    placeholderArtist: "아티스트명",
+    placeholderTrack: "곡 URL 또는 ID (선택)",
+    reanalyze: "AI로 다시 분석 (메시지와 아트를 새로 만듭니다)",
+    save: "저장",
+    cancel: "취소",
+    editedAt: "편집 일시",
+    restore: "이 버전으로 되돌리기",
+    confirmRestore: "이 버전으로 되돌릴까요? 현재 내용은 기록에 남습니다.",
+    correctionPrompt: "실제로는 어떤 기분이었나요?",
+    correctionPlaceholder: "예: 애틋하지만 희망적인",
+    correctionSubmit: "이 기분으로 다시 분석",
+    yourWords: "당신의 말",
+    noHistory: "아직 편집 기록이 없습니다",
+    analyzingNow: "음악과 감정을 분석하고 있습니다...",
+    drawingNow: "이미지를 생성하고 있습니다...",
+    queued: "분석 대기 중",
+    queuedImage: "아트 생성 대기 중",
+    nextAttempt: "다음 재시도",
+    failed: "분석하지 못했습니다",
+    failedImage: "아트를 생성하지 못했습니다",
+    retry: "재시도",
+    artTitle: "아트",
+    gallery: "갤러리 (선택한 한 장이 표지가 됩니다)",
+    artPrompt: "이미지 설명",
+    artStyle: "스타일",
+    regenerate: "아트 다시 만들기",
+    artWaiting: "분석이 끝나면 아트를 다시 만들 수 있습니다",
+    classic: "미니멀",
+    watercolor: "수채화",
+    geometric: "기하학",
+    photo: "사진풍",
+    pastel: "파스텔",
+    ink: "수묵화",
+  },
+  playlist: {
+    playlist: "플레이리스트",
+    songs: "{count}곡",
+    m3u8: "M3U8 (미디어 플레이어)",
+    xspf: "XSPF (공유·변환 도구)",
+    csv: "CSV (스프레드시트)",
+    title: "MusicDiary {date}",
+    titleRange: "MusicDiary {from}~{to}",
+    titleFrom: "MusicDiary {from}부터",
+    titleUntil: "MusicDiary {to}까지",
+  },
+  recap: {
+    title: "돌아보기",
+    month: "월",
+    year: "연",
+    saved: "저장한 돌아보기",
+    memories: "기록",
+    averageMood: "평균 무드",
+    topSongs: "자주 들은 곡",
+    topArtists: "자주 들은 아티스트",
+    topTags: "자주 고른 키워드",
+    moodArc: "무드의 흐름",
+    highest: "가장 밝았던 날",
+    lowest: "가장 고요했던 날",
+    letter: "당신에게 보내는 편지",
+    write: "돌아보기 편지 받기",
+    rewrite: "다시 쓰기",
+    writing: "편지를 쓰고 있습니다...",
+    delete: "삭제",
+    confirmDelete: "이 돌아보기를 삭제할까요?",
+    empty: "이 기간의 기록이 아직 없습니다",
+    failed: "편지를 쓰지 못했습니다. AI 설정을 확인하고 다시 시도해 주세요.",
+    createdAt: "작성",
+    outdated: "작성 후에 기록이 바뀌었습니다",
+    times: "{count}회",
+  },
+  settings: {
+    title: "설정",
+    tagsSection: "키워드",
+    maxTags: "기록 하나에 고를 수 있는 수",
+    archive: "보관 (새 기록에서는 고를 수 없게 됩니다)",
+    unarchive: "되돌리기",
+    moveUp: "위로",
+    moveDown: "아래로",
+    add: "추가",
+    aiSection: "AI",
+    provider: "사용할 AI",
+    gemini: "Gemini",
+    "openai-compatible": "로컬 (OpenAI 호환)",
+    offline: "오프라인",
+    offlineHelp: "통신 없이 입력한 내용으로 정해진 메시지와 추상화를 만듭니다.",
+    localHelp: "llama.cpp·Ollama·LM Studio 같은 OpenAI 호환 서버를 사용합니다. 이미지 모델이 비어 있으면 추상화를 그립니다.",
+    autoTranslate: "다른 언어의 분석을 자동으로 번역",
+    autoTranslateHelp: "화면에 보이는 기록을 앱 언어로 하나씩 번역해 저장합니다. 원문은 언제든 볼 수 있어요.",
+    geminiHelp: "API 키가 비어 있으면 앱에 설정된 키를 사용합니다.",
+    model: "모델",
+    imageModel: "이미지 모델",
+    endpoint: "엔드포인트",
+    apiKey: "API 키",
+    optional: "선택",
+    artistsSection: "곡과 아티스트",
+    catalog: "입력 추천 카탈로그",
+    none: "기록만",
+    musicbrainz: "MusicBrainz",
+    noneHelp: "곡명·아티스트명 추천은 지금까지의 기록에서 가져옵니다.",
+    musicbrainzHelp: "기록과 함께 MusicBrainz 호환 API에서도 추천을 찾습니다. 입력한 글자가 해당 서버로 전송됩니다.",
+    aliases: "표기 변형",
+    aliasHelp: "왼쪽 표기로 입력하면 오른쪽 이름으로 저장됩니다.",
+    alias: "다른 표기",
+    canonical: "통일할 이름",
+    removeAlias: "삭제",
+    merge: "아티스트 합치기",
+    mergeHelp: "같은 아티스트의 표기를 골라 하나의 이름으로 맞춥니다. 고른 표기는 표기 변형에도 추가됩니다.",
+    mergeInto: "합칠 이름",
+    mergeButton: "합치기",
+    confirmMerge: "기록 {count}개의 아티스트명을 바꿉니다. 계속할까요?",
+    noArtists: "아직 기록이 없습니다",
+    streamingSection: "재생 서비스",
+    streamingHelp: "처음 고른 서비스가 재생 버튼으로 열립니다. 곡 URL이나 ID를 저장한 기록은 그 곡을 바로 엽니다.",
+    custom: "사용자 지정",
+    customLabel: "표시 이름",
+    customTemplate: "검색 URL",
+    customHelp: "{artist}와 {title}이 곡 정보로 바뀝니다.",
+    invalidTemplate: "http(s)로 시작하고 {artist} 또는 {title}을 포함한 URL을 입력해 주세요.",
+  },
+  shareCard: {
+    title: "카드로 공유",
+    square: "정사각형",
+    story: "스토리",
+    excerpt: "넣을 메시지 (문장을 골라 주세요)",
+    noMessage: "아직 메시지가 없습니다",
+    includeContent: "일기 본문도 넣기",
+    privateHint: "일기는 나만의 메모입니다. 공유하기 전에 내용을 확인해 주세요.",
+    download: "PNG로 저장",
+    share: "공유",
+    failed: "카드를 만들지 못했습니다",
+    quote: "“{text}”",
+  },
+  autocomplete: {
+    fromHistory: "기록에서",
+    fromCatalog: "카탈로그에서",
+    times: "{count}회",
+  },
+  songHistory: {
+    songTitle: "곡의 기록",
+    artistTitle: "아티스트의 기록",
+    memories: "기록",
+    firstRecorded: "첫 기록",
+    lastRecorded: "마지막 기록",
+    averageMood: "평균 무드",
+    moodStrip: "무드의 흐름",
+    tags: "자주 고른 키워드",
+    songs: "기록한 곡",
+    entries: "모든 기록",
+    summarySong: "이 곡이 당신에게 어떤 의미였는지",
+    summaryArtist: "이 아티스트가 당신에게 어떤 의미였는지",
+    write: "AI에게 정리 부탁하기",
+    rewrite: "다시 쓰기",
+    writing: "정리하는 중...",
+    failed: "정리를 쓰지 못했어요. AI 설정을 확인하고 다시 시도해 주세요.",
+    notAnalyzed: "분석 대기 중",
+    empty: "더 이상 남아 있는 기록이 없어요",
+    times: "{count}회",
+    openArtist: "{artist}의 기록 보기",
+  },
+  recommendations: {
+    title: "이 기분에 어울리는 곡",
+    fromHistory: "당신의 기록에서",
+    noHistory: "비슷한 기분의 기록이 아직 없어요",
+    times: "{count}회",
+    confirmed: "분석이 마음과 맞았던 횟수: {count}",
+    newSongs: "아직 일기에 없는 곡",
+    ask: "AI에게 새로운 곡 물어보기",
+    asking: "찾는 중...",
+    askAgain: "다른 곡 물어보기",
+    failed: "추천을 받지 못했어요. AI 설정을 확인하고 다시 시도해 주세요.",
+    noneNew: "일기에 없는 곡을 찾지 못했어요",
+    use: "이 곡으로 기록하기",
+  },
+  mood: {
+    pickerLabel: "기분의 위치",
+    hint: "가로는 기분의 밝기, 세로는 에너지예요. 클릭, 드래그, 방향키로 고를 수 있어요",
+    pleasant: "밝음",
+    unpleasant: "가라앉음",
+    energetic: "활발함",
+    calm: "차분함",
+    excited: "설렘",
+    content: "평온",
+    tense: "긴장",
+    down: "울적",
+    neutral: "보통",
+    valueText: "{quadrant} (기분 {valence} · 에너지 {energy})",
+  },
+  lock: {
+    title: "일기가 잠겨 있어요",
+    description: "암호 문구를 입력해 열어 주세요",
+    passphrase: "암호 문구",
+    unlock: "열기",
+    checking: "확인하는 중...",
+    wrongPassphrase: "암호 문구가 맞지 않아요",
+    section: "잠금",
+    help: "켜면 기록·아트·돌아보기를 암호 문구로 만든 키로 암호화해서 이 브라우저에 저장해요. 설정과 키워드는 암호화되지 않아요. 암호 문구를 잊으면 기록을 열 수 없게 돼요.",
+    enabled: "잠금이 켜져 있어요",
+    enable: "잠금 켜기",
+    change: "암호 문구 변경",
+    disable: "잠금 끄기",
+    lockNow: "지금 잠그기",
+    currentPassphrase: "현재 암호 문구",
+    newPassphrase: "새 암호 문구",
+    confirmPassphrase: "한 번 더 입력",
+    tooShort: "{count}자 이상으로 해 주세요",
+    mismatch: "확인용 암호 문구가 일치하지 않아요",
+    save: "확인",
+    cancel: "취소",
+    encrypting: "암호화하는 중...",
+    failed: "변경하지 못했어요. 다시 시도해 주세요.",
+    autoLock: "조작이 없을 때 자동 잠금",
+    autoLockOff: "안 함",
+    autoLockAfter: "{count}분 후",
+    exportTitle: "암호화해서 내보내기",
+    exportHelp: "이 백업에 쓸 암호 문구를 정해 주세요. 가져올 때 필요해요.",
+    export: "내보내기",
+    importTitle: "암호화된 백업",
+    importHelp: "내보낼 때 정한 암호 문구를 입력해 주세요.",
+    import: "가져오기",
+    lockedTitle: "잠긴 일기",
+    transferHelp: "'{name}'은(는) 잠겨 있어요. 기록을 보내려면 그 일기의 암호 문구를 입력해 주세요.",
+    transfer: "보내기",
+    deleteHelp: "'{name}'은(는) 잠겨 있어요. 삭제하려면 그 일기의 암호 문구를 입력해 주세요.",
+    delete: "삭제",
+  },
+  profiles: {
+    defaultName: "내 일기",
+    switch: "일기 전환",
+    newProfile: "새 일기",
+    namePlaceholder: "이름 (예: 업무)",
+    add: "추가",
+    rename: "이름 변경",
+    delete: "삭제",
+    confirmDelete: "'{name}'와(과) 그 기록을 모두 삭제해요. 되돌릴 수 없어요. 계속할까요?",
+    openOther: "다른 일기 열기",
+    transfer: "다른 일기로",
+    transferCount: "표시 중인 기록 {count}개",
+    copy: "복사",
+    move: "이동",
+    confirmMove: "기록 {count}개를 '{name}'(으)로 옮기고 이 일기에서는 삭제해요. 계속할까요?",
+    copied: "{count}개를 '{name}'에 복사했어요",
+    moved: "{count}개를 '{name}'(으)로 옮겼어요",
+    sending: "보내는 중...",
+    failed: "보내지 못했어요. 다시 시도해 주세요.",
+  },
+  reminder: {
+    title: "MusicDiary",
+    body: "오늘의 한 곡을 기록해 볼까요?",
+    bodyStreak: "오늘 쓰면 {count}일 연속이 이어져요. 오늘의 한 곡은?",
+    section: "리마인더",
+    enable: "매일 정해진 시간에 알림",
+    time: "시간",
+    help: "오늘 기록이 아직 없을 때만 알려요. MusicDiary가 브라우저에 열려 있는 동안에만 도착해요.",
+    blocked: "브라우저에서 알림이 차단되어 있어요. 사이트 설정에서 허용해 주세요.",
+    unsupported: "이 브라우저는 알림을 지원하지 않아요.",
+  },
+  streak: {
+    current: "{count}일 연속",
+    longest: "최장 {count}일",
+    doneToday: "오늘 기록을 마쳤어요",
+    keepGoing: "오늘 쓰면 이어져요",
+    start: "오늘부터 기록을 시작해 봐요",
+  },
+  onThisDay: {
+    title: "이날의 기록",
+    yearsAgo: "{count}년 전",
+    recordAgain: "지금 기분으로 기록",
+    recordAgainHelp: "이 곡으로 오늘의 기록을 시작해요",
+  },
+};
+
+export default ko;
@@ -0,0 +1,390 @@
+import type { Messages } from "./ja";
+
+const zh: Messages = {
+  app: {
+    subtitle: "音乐与情绪的生活日志",
+    titleRecord: "记录一首回忆之歌",
+    descRecord: "把心动的瞬间和当时的音乐一起留下来吧。",
+    labelDate: "日期",
+    labelMusic: "歌曲信息",
+    labelMood: "情绪晴雨表",
+    labelTags: "关键词",
+    maxTags: "（最多{count}个）",
+    labelDiary: "日记·备忘",
+    placeholderSong: "歌名",
+    placeholderArtist: "歌手名",
+    placeholderTrack: "歌曲链接或 ID（可选：直接打开这首歌而不是搜索）",
+    placeholderDiary: "写下此刻的心情或发生的事（可选）",
+    btnReset: "要清空输入吗？",
+    reset: "清空",
+    btnSave: "保存回忆",
+    timeline: "我的时间线",
+    emptyTitle: "还没有记录",
+    emptyDesc: "来记录第一首歌吧",
+    errorStorage: "无法保存记录。关闭此页面后更改将会丢失。",
+    errorQuota: "浏览器存储空间已满。请删除不需要的记录以腾出空间。",
+    errorLoad: "无法读取已保存的记录。",
+    loading: "加载中...",
+    exportBackup: "导出",
+    importBackup: "导入",
+    exportEncrypted: "加密导出",
+    lockNow: "立即锁定",
+    errorExport: "无法导出备份。",
+    errorImportFormat: "此文件不是有效的 MusicDiary 备份。",
+    noMatches: "没有符合条件的记录",
+    errorImportNewer: "此备份由更新版本的应用创建。",
+    viewList: "列表",
+    viewCalendar: "日历",
+    viewInsights: "分析",
+    settings: "设置",
+    language: "语言",
+  },
+  calendar: {
+    monthView: "月",
+    yearView: "年",
+    art: "插画",
+    mood: "心情",
+    color: "颜色",
+    recordForDay: "记录这一天",
+    noMemoriesOnDay: "这一天没有记录",
+    close: "关闭",
+    memoriesCount: "{count}条",
+    monthRecap: "本月回顾",
+    yearRecap: "本年回顾",
+  },
+  filter: {
+    searchPlaceholder: "搜索日记、留言、歌名和歌手",
+    filters: "筛选",
+    clear: "清除",
+    tags: "关键词",
+    mood: "情绪分数",
+    period: "时间段",
+    feedback: "反馈",
+    language: "记录语言",
+    any: "全部",
+    correct: "符合",
+    incorrect: "不符合",
+    none: "未回答",
+    results: "{matched} / {count}条",
+  },
+  importPreview: {
+    title: "导入备份",
+    added: "新记录",
+    identical: "无变化",
+    conflicts: "内容不同的记录",
+    conflictHelp: "同一条记录的内容不同，请选择要保留的版本。",
+    keepMine: "当前记录",
+    useBackup: "备份",
+    newTags: "将添加的关键词",
+    newRecaps: "将添加的回顾",
+    nothingToDo: "没有可导入的新内容。",
+    confirm: "导入",
+    cancel: "取消",
+  },
+  insights: {
+    trendTitle: "情绪变化",
+    weekly: "7日移动平均",
+    monthly: "30日移动平均",
+    tagsTitle: "常用关键词",
+    pairsTitle: "经常一起选择的关键词",
+    rankingTitle: "按歌手和歌曲看情绪",
+    artists: "歌手",
+    songs: "歌曲",
+    byPlays: "记录次数",
+    byMood: "平均情绪",
+    weekdayTitle: "按星期看情绪",
+    times: "{count}次",
+    notEnough: "还没有可显示的数据",
+  },
+  memoryCard: {
+    share: "分享",
+    openSongHistory: "查看这首歌的所有记录",
+    openArtistHistory: "查看这位歌手的所有记录",
+    messageTitle: "Message for You",
+    translate: "翻译",
+    translating: "正在翻译…",
+    translateFailed: "翻译失败",
+    translatedFrom: "译自{language}",
+    showOriginal: "查看原文",
+    showTranslation: "查看译文",
+    feedbackQuestion: "符合你的心情吗？",
+    confirmDelete: "确定要删除这条记录吗？",
+    deleteTitle: "删除",
+    listenOn: "在{service}上听",
+    searchOn: "在{service}上搜索",
+    artAlt: "《{title}》的回忆插画",
+    editTitle: "编辑",
+    historyTitle: "编辑历史",
+    placeholderSong: "歌名",
+    placeholderArtist: "歌手名",
+    placeholderTrack: "歌曲链接或 ID（可选）",
+    reanalyze: "用 AI 重新分析（重新生成留言和插画）",
+    save: "保存",
+    cancel: "取消",
+    editedAt: "编辑时间",
+    restore: "恢复到此版本",
+    confirmRestore: "要恢复到此版本吗？当前内容会保留在历史中。",
+    correctionPrompt: "你当时真正的感受是什么？",
+    correctionPlaceholder: "例：有点心酸但依然向前",
+    correctionSubmit: "按这个感受重新分析",
+    yourWords: "你的话",
+    noHistory: "还没有编辑历史",
+    analyzingNow: "正在分析音乐和情绪...",
+    drawingNow: "正在生成图像...",
+    queued: "等待分析",
+    queuedImage: "等待生成插画",
+    nextAttempt: "下次重试",
+    failed: "分析失败",
+    failedImage: "插画生成失败",
+    retry: "重试",
+    artTitle: "插画",
+    gallery: "画廊（选中的一张会成为封面）",
+    artPrompt: "图像描述",
+    artStyle: "风格",
+    regenerate: "重新生成插画",
+    artWaiting: "分析完成后即可重新生成插画",
+    classic: "极简",
+    watercolor: "水彩",
+    geometric: "几何",
+    photo: "写实照片",
+    pastel: "粉彩",
+    ink: "水墨",
+  },
+  playlist: {
+    playlist: "播放列表",
+    songs: "{count}首",
+    m3u8: "M3U8（媒体播放器）",
+    xspf: "XSPF（分享和转换工具）",
+    csv: "CSV（电子表格）",
+    title: "MusicDiary {date}",
+    titleRange: "MusicDiary {from}至{to}",
+    titleFrom: "MusicDiary {from}起",
+    titleUntil: "MusicDiary 截至{to}",
+  },
+  recap: {
+    title: "回顾",
+    month: "月",
+    year: "年",
+    saved: "已保存的回顾",
+    memories: "记录",
+    averageMood: "平均情绪",
+    topSongs: "常听的歌曲",
+    topArtists: "常听的歌手",
+    topTags: "常选的关键词",
+    moodArc: "情绪的流动",
+    highest: "最明亮的一天",
+    lowest: "最安静的一天",
+    letter: "写给你的信",
+    write: "请 AI 写一封回顾信",
+    rewrite: "重写",
+    writing: "正在写信...",
+    delete: "删除",
+    confirmDelete: "要删除这份回顾吗？",
+    empty: "这段时间还没有记录",
+    failed: "无法写信。请检查 AI 设置后重试。",
+    createdAt: "写于",
+    outdated: "写完之后记录有了变化",
+    times: "{count}次",
+  },
+  settings: {
+    title: "设置",
+    tagsSection: "关键词",
+    maxTags: "每条记录可选数量",
+    archive: "归档（新记录中将不可选择）",
+    unarchive: "恢复",
+    moveUp: "上移",
+    moveDown: "下移",
+    add: "添加",
+    aiSection: "AI",
+    provider: "使用的 AI",
+    gemini: "Gemini",
+    "openai-compatible": "本地（兼容 OpenAI）",
+    offline: "离线",
+    offlineHelp: "不联网，根据输入内容生成固定的留言和抽象画。",
+    localHelp: "使用 llama.cpp、Ollama、LM Studio 等兼容 OpenAI 的服务器。未设置图像模型时会在本地绘制抽象画。",
+    autoTranslate: "自动翻译其他语言的分析",
+    autoTranslateHelp: "将屏幕上的记录逐条翻译成界面语言并保存，随时可以切换回原文。",
+    geminiHelp: "API 密钥留空时使用应用内置的密钥。",
+    model: "模型",
+    imageModel: "图像模型",
+    endpoint: "端点",
+    apiKey: "API 密钥",
+    optional: "可选",
+    artistsSection: "歌曲与歌手",
+    catalog: "输入建议目录",
+    none: "仅限记录",
+    musicbrainz: "MusicBrainz",
+    noneHelp: "歌名和歌手名的建议来自你以往的记录。",
+    musicbrainzHelp: "除了记录之外，也会从兼容 MusicBrainz 的 API 查找建议。输入的文字会发送到该服务器。",
+    aliases: "别名",
+    aliasHelp: "用左边的写法输入时，会以右边的名称保存。",
+    alias: "其他写法",
+    canonical: "统一名称",
+    removeAlias: "删除",
+    merge: "合并歌手",
+    mergeHelp: "选择同一歌手的不同写法，统一为一个名称。所选写法也会加入别名。",
+    mergeInto: "合并为",
+    mergeButton: "合并",
+    confirmMerge: "将修改{count}条记录的歌手名。要继续吗？",
+    noArtists: "还没有记录",
+    streamingSection: "播放服务",
+    streamingHelp: "播放按钮会打开第一个选择的服务。保存了歌曲链接或 ID 的记录会直接打开那首歌。",
+    custom: "自定义",
+    customLabel: "显示名称",
+    customTemplate: "搜索链接",
+    customHelp: "{artist} 和 {title} 会替换为歌曲信息。",
+    invalidTemplate: "请输入以 http(s) 开头并包含 {artist} 或 {title} 的链接。",
+  },
+  shareCard: {
+    title: "以卡片分享",
+    square: "方形",
+    story: "快拍",
+    excerpt: "要放的留言（请选择句子）",
+    noMessage: "还没有留言",
+    includeContent: "同时放上日记正文",
+    privateHint: "日记是只属于你的备忘。分享前请确认内容。",
+    download: "保存为 PNG",
+    share: "分享",
+    failed: "无法生成卡片",
+    quote: "“{text}”",
+  },
+  autocomplete: {
+    fromHistory: "来自记录",
+    fromCatalog: "来自目录",
+    times: "{count}次",
+  },
+  songHistory: {
+    songTitle: "歌曲记录",
+    artistTitle: "歌手记录",
+    memories: "记录",
+    firstRecorded: "第一次记录",
+    lastRecorded: "最近一次记录",
+    averageMood: "平均情绪",
+    moodStrip: "情绪的变化",
+    tags: "常选的关键词",
+    songs: "记录过的歌曲",
+    entries: "每一条记录",
+    summarySong: "这首歌对你意味着什么",
+    summaryArtist: "这位歌手对你意味着什么",
+    write: "请 AI 写一段总结",
+    rewrite: "重写",
+    writing: "正在撰写总结...",
+    failed: "未能写出总结。请检查 AI 设置后重试。",
+    notAnalyzed: "等待分析",
+    empty: "已经没有相关的记录了",
+    times: "{count}次",
+    openArtist: "查看{artist}的记录",
+  },
+  recommendations: {
+    title: "适合此刻心情的歌",
+    fromHistory: "来自你的记录",
+    noHistory: "还没有心情相似的记录",
+    times: "{count}次",
+    confirmed: "分析与心情相符的次数：{count}",
+    newSongs: "日记里还没有的歌",
+    ask: "请 AI 推荐新歌",
+    asking: "正在寻找...",
+    askAgain: "换几首",
+    failed: "未能获取推荐。请检查 AI 设置后重试。",
+    noneNew: "没有找到日记里没有的歌",
+    use: "用这首歌记录",
+  },
+  mood: {
+    pickerLabel: "心情的位置",
+    hint: "横向是心情的明暗，纵向是能量。可以点击、拖动或用方向键选择",
+    pleasant: "愉快",
+    unpleasant: "低落",
+    energetic: "有活力",
+    calm: "平静",
+    excited: "兴奋",
+    content: "安适",
+    tense: "紧张",
+    down: "消沉",
+    neutral: "平常",
+    valueText: "{quadrant}（心情 {valence}·能量 {energy}）",
+  },
+  lock: {
+    title: "日记已锁定",
+    description: "请输入口令打开",
+    passphrase: "口令",
+    unlock: "打开",
+    checking: "正在确认...",
+    wrongPassphrase: "口令不正确",
+    section: "锁定",
+    help: "开启后，记录、插画和回顾会用由口令生成的密钥加密后保存在此浏览器中。设置和关键词不会加密。忘记口令将无法打开记录。",
+    enabled: "锁定已开启",
+    enable: "开启锁定",
+    change: "更改口令",
+    disable: "关闭锁定",
+    lockNow: "立即锁定",
+    currentPassphrase: "当前口令",
+    newPassphrase: "新口令",
+    confirmPassphrase: "再输入一次",
+    tooShort: "请至少使用 {count} 个字符",
+    mismatch: "两次输入的口令不一致",
+    save: "确定",
+    cancel: "取消",
+    encrypting: "正在加密...",
+    failed: "未能更改，请重试。",
+    autoLock: "无操作时自动锁定",
+    autoLockOff: "不锁定",
+    autoLockAfter: "{count} 分钟后",
+    exportTitle: "加密导出",
+    exportHelp: "请为此备份设定口令。导入时需要用到。",
+    export: "导出",
+    importTitle: "加密的备份",
+    importHelp: "请输入导出时设定的口令。",
+    import: "导入",
+    lockedTitle: "已锁定的日记",
+    transferHelp: "“{name}”已锁定。请输入该日记的口令以发送记录。",
+    transfer: "发送",
+    deleteHelp: "“{name}”已锁定。请输入该日记的口令以删除它。",
+    delete: "删除",
+  },
+  profiles: {
+    defaultName: "我的日记",
+    switch: "切换日记",
+    newProfile: "新日记",
+    namePlaceholder: "名称（例：工作）",
+    add: "添加",
+    rename: "重命名",
+    delete: "删除",
+    confirmDelete: "将删除“{name}”及其所有记录，且无法恢复。确定吗？",
+    openOther: "打开其他日记",
+    transfer: "发送到其他日记",
+    transferCount: "当前显示的 {count} 条记录",
+    copy: "复制",
+    move: "移动",
+    confirmMove: "将 {count} 条记录移动到“{name}”，并从此日记中删除。确定吗？",
+    copied: "已将 {count} 条复制到“{name}”",
+    moved: "已将 {count} 条移动到“{name}”",
+    sending: "正在发送...",
+    failed: "发送失败，请重试。",
+  },
+  reminder: {
+    title: "MusicDiary",
+    body: "来记录今天的一首歌吧？",
+    bodyStreak: "今天写下就能延续 {count} 天的连续记录。今天的歌是？",
+    section: "提醒",
+    enable: "每天在固定时间提醒",
+    time: "时间",
+    help: "仅在今天还没有记录时提醒，并且只在浏览器中打开 MusicDiary 时才会送达。",
+    blocked: "浏览器已屏蔽通知，请在网站设置中允许。",
+    unsupported: "此浏览器不支持通知。",
+  },
+  streak: {
+    current: "连续 {count} 天",
+    longest: "最长 {count} 天",
+    doneToday: "今天已记录",
+    keepGoing: "今天写下就能延续",
+    start: "从今天开始记录吧",
+  },
+  onThisDay: {
+    title: "历史上的今天",
+    yearsAgo: "{count} 年前",
+    recordAgain: "用现在的心情记录",
+    recordAgainHelp: "用这首歌开始今天的记录",
+  },
+};
+
+export default zh;
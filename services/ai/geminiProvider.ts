@@ -0,0 +1,102 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { Language, AiSettings } from "../../types";
+import { AiProvider } from "./provider";
+import {
+  buildAnalysisPrompt, buildImagePrompt, buildRecapPrompt, buildRecommendationPrompt, buildSongStoryPrompt, buildTranslationPrompt,
+  getAnalysisFieldDescriptions, getAnalysisSystemInstruction, getRecommendationFieldDescriptions, parseAnalysisResult,
+  parseRecommendations, parseTranslation, ANALYSIS_FIELDS, RECOMMENDATION_FIELDS, TRANSLATION_FIELDS,
+} from "./prompts";
+
+export const GEMINI_DEFAULT_MODEL = "gemini-2.5-flash";
+export const GEMINI_DEFAULT_IMAGE_MODEL = "gemini-2.5-flash-image";
+
+// An object schema whose properties are all described strings
+const stringFields = <K extends string>(fields: K[], descriptions: Record<K, string>): Schema => ({
+  type: Type.OBJECT,
+  properties: Object.fromEntries(fields.map((field) => [field, { type: Type.STRING, description: descriptions[field] }])),
+  required: fields,
+});
+
+const getRecommendationSchema = (lang: Language): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    songs: { type: Type.ARRAY, items: stringFields(RECOMMENDATION_FIELDS, getRecommendationFieldDescriptions(lang)) },
+  },
+  required: ["songs"],
+});
+
+export const createGeminiProvider = (settings: AiSettings): AiProvider => {
+  // Built lazily so the app still starts (e.g. with the offline provider) without a key
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    const apiKey = settings.apiKey || process.env.API_KEY;
+    if (!apiKey) throw new Error("Gemini API key is not configured");
+    client ??= new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  // The reply text in the diary's voice, never empty; with a schema it is JSON
+  const generate = async (lang: Language, prompt: string, schema?: Schema): Promise<string> => {
+    const response = await getClient().models.generateContent({
+      model: settings.model || GEMINI_DEFAULT_MODEL,
+      contents: prompt,
+      config: {
+        ...(schema && { responseMimeType: "application/json", responseSchema: schema }),
+        systemInstruction: getAnalysisSystemInstruction(lang),
+      },
+    });
+
+    const text = response.text;
+    if (!text?.trim()) throw new Error("No response from AI");
+    return text;
+  };
+
+  const requestText = async (lang: Language, prompt: string) => (await generate(lang, prompt)).trim();
+  const requestJson = (lang: Language, prompt: string, schema: Schema) => generate(lang, prompt, schema);
+
+  return {
+    async analyze(request) {
+      const schema = stringFields(ANALYSIS_FIELDS, getAnalysisFieldDescriptions(request.lang));
+      return parseAnalysisResult(await requestJson(request.lang, buildAnalysisPrompt(request), schema));
+    },
+
+    async writeRecap(request) {
+      return requestText(request.lang, buildRecapPrompt(request));
+    },
+
+    async writeSongStory(request) {
+      return requestText(request.lang, buildSongStoryPrompt(request));
+    },
+
+    async recommendSongs(request) {
+      return parseRecommendations(await requestJson(request.lang, buildRecommendationPrompt(request), getRecommendationSchema(request.lang)));
+    },
+
+    async translate(request) {
+      const schema = stringFields(TRANSLATION_FIELDS, getAnalysisFieldDescriptions(request.to));
+      return parseTranslation(await requestJson(request.to, buildTranslationPrompt(request), schema));
+    },
+
+    async generateImage(prompt, style) {
+      const response = await getClient().models.generateContent({
+        model: settings.imageModel || GEMINI_DEFAULT_IMAGE_MODEL,
+        contents: {
+          parts: [{ text: buildImagePrompt(prompt, style) }],
+        },
+        config: {
+           // Default 1:1 aspect ratio
+        }
+      });
+
+      if (response.candidates?.[0]?.content?.parts) {
+        for (const part of response.candidates[0].content.parts) {
+          if (part.inlineData) {
+            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+          }
+        }
+      }
+
+      throw new Error("No image generated");
+    },
+  };
+};
@@ -0,0 +1,181 @@
+import type { PromptLocale } from "./ja";
+
+const en: PromptLocale = {
+  systemInstruction: "You are an AI with the inclusivity of a music sommelier and a psychological counselor.",
+  persona: "You are a warm, understanding presence (like a late-night radio DJ or a close pen pal) who deeply understands and affirms the user's emotions.",
+  emotionField: "A short phrase describing the user's emotion/mood based on the song and context. E.g., Quiet Determination, Peaceful, Melancholy Rain, Euphoria.",
+  messageField: "A warm, empathetic message to the user. Combine musical expertise (lyrics, melody, progression) with the user's feelings (diary, tags, score). Be specific like 'The lyrics about... resonate with your mood' or 'The piano melody...'.",
+  moodQuadrants: {
+    excited: "Pleasant, high energy (excited, elated, playful)",
+    content: "Pleasant, low energy (calm, content, relaxed)",
+    tense: "Unpleasant, high energy (tense, irritated, anxious, restless)",
+    down: "Unpleasant, low energy (melancholy, lonely, tired, low)",
+    neutral: "Neutral (not leaning far either way, an ordinary mood)",
+  },
+  moodPoint: "mood {valence}, energy {energy}",
+  none: "(None)",
+  listSeparator: ", ",
+  quote: "\"{text}\"",
+  examples: "[This user's past entries (emotions the user confirmed)]\n{lines}\nNote: match the user's own vocabulary for inferredEmotion.",
+  correction: "[Correction from the user]\nAn earlier analysis did not match. In the user's words, what they actually felt was: \"{correction}\". Re-analyze with this as the top priority.",
+  analysis: `
+      The user has recorded a "Memory Song" and "Mood" for the date "{date}".
+      Based on the song's [Lyrics] and [Melody/Vibe], provide a warm message that resonates with the user's heart.
+
+      [Input Info]
+      Date: {date}
+      Song: {title}
+      Artist: {artist}
+      Mood (-50 is Unpleasant/Low, +50 is Pleasant/Bright): {valence}
+      Energy (-50 is Calm/Still, +50 is Energetic/Stirred): {energy}
+      Where the mood sits: {moodDescription}
+      Selected Tags: {tags}
+      Diary Note: "{diary}"
+
+      {personalContext}
+
+      {persona}
+
+      [Important Guidelines]
+      1. **Deep Musical Analysis**: Don't just say "It's a good song." Refer to specific elements like "The lyrics about '...'" or "The key change in the chorus..." and explain how they link to the user's current emotion.
+      2. Time Context: Treat this as an experience of "the day of {date}" and empathize with it as if it's fresh.
+      3. No Negativity: Even if the emotion is dark, do not deny it. Accept it gently, saying things like "It's okay to feel this way sometimes."
+
+      Output MUST be in English. Use a gentle, polite, and embracing tone.
+    `,
+  languageNames: { ja: "Japanese", en: "English", ko: "Korean", zh: "Simplified Chinese" },
+  translation: `
+      Below is the message attached to an entry in the user's music diary, written in {from}.
+      Translate it into {to}, keeping its meaning and its warm tone.
+
+      [Emotion]
+      {emotion}
+
+      [Message]
+      {message}
+
+      [Important Guidelines]
+      1. Keep song titles and artist names exactly as written.
+      2. Do not add or leave out anything; just make it read naturally in {to}.
+
+      Put the translated emotion in inferredEmotion and the translated message in analysisText.
+    `,
+  recommendationReason: "One gentle, unpushy sentence on why the song fits this mood.",
+  recommendation: `
+      The user is about to record their current mood in their music diary. Recommend {count} songs that fit this mood.
+
+      [Current Mood]
+      Mood (-50 is Unpleasant/Low, +50 is Pleasant/Bright): {valence}
+      Energy (-50 is Calm/Still, +50 is Energetic/Stirred): {energy}
+      Where the mood sits: {moodDescription}
+      Selected Tags: {tags}
+
+      [Songs they listened to in a similar mood (for their taste)]
+      {favorites}
+
+      [Songs already in the diary (do not recommend these)]
+      {exclude}
+
+      [Important Guidelines]
+      1. Only recommend songs that really exist, with their exact titles and artist names.
+      2. Do not recommend a song that is already in the diary, even if it is spelled differently.
+      3. Write each reason in English.
+    `,
+  recapSpan: { month: "month", year: "year" },
+  recap: `
+      We are looking back on the {span} of "{periodLabel}" in the user's music diary.
+      Based on the entries below, write a letter that reflects on this period together with the user.
+
+      [Overview]
+      Days recorded: {memoryCount}
+      Average Mood (-50 is Unpleasant/Low, +50 is Pleasant/Bright): {averageMood}
+      Average Energy (-50 is Calm/Still, +50 is Energetic/Stirred): {averageEnergy}
+
+      [Most Played Songs]
+      {topSongs}
+
+      [Most Played Artists]
+      {topArtists}
+
+      [Most Frequent Tags]
+      {topTags}
+
+      [Mood Arc]
+      {moodArc}
+
+      [Standout Days]
+      {highlights}
+
+      {persona}
+
+      [Important Guidelines]
+      1. Don't just list numbers. Refer to specific songs and artists and tell the story of how the user's feelings moved through this period.
+      2. Never dismiss the low days; acknowledge the user for getting through them.
+      3. Close with a small word of encouragement for the {span} ahead.
+
+      Output only the body of the letter in English (no headings, no JSON), around 200-300 words, in a gentle, polite, and embracing tone.
+    `,
+  songStoryKind: { song: "this song", artist: "this artist" },
+  songStorySubject: "\"{title}\" by {artist}",
+  songStory: `
+      We are looking back on every entry in the user's music diary that features {kind}.
+      Subject: {subject}
+      Based on the entries below, write a short piece about what {kind} has meant to the user.
+
+      [Overview]
+      Times recorded: {memoryCount}
+      First recorded: {firstDate}
+      Last recorded: {lastDate}
+      Average Mood (-50 is Unpleasant/Low, +50 is Pleasant/Bright): {averageMood}
+      Average Energy (-50 is Calm/Still, +50 is Energetic/Stirred): {averageEnergy}
+
+      [Entries (oldest first)]
+      {entries}
+
+      [Most Frequent Tags]
+      {topTags}
+
+      [Emotions Felt (oldest first)]
+      {emotions}
+
+      {persona}
+
+      [Important Guidelines]
+      1. Notice how {kind} sounded different at different times (in spring versus winter, say) and tell the story of the user's relationship with it.
+      2. Do not invent events that are not in the entries.
+      3. Never dismiss the low days; treat the fact that {kind} was there for them with care.
+
+      Output only the body text in English (no headings, no JSON), around 120-200 words, in a gentle, polite, and embracing tone.
+    `,
+  recapItems: {
+    times: { one: "{count} time", other: "{count} times" },
+    song: "\"{title}\" by {artist} ({times})",
+    counted: "{label} ({times})",
+    arc: { one: "From {label}: average {score} ({count} entry)", other: "From {label}: average {score} ({count} entries)" },
+    arcEmpty: "From {label}: no entries",
+    highlight: "{date}: \"{title}\" by {artist} (score {score}{emotion})",
+    highlightEmotion: ", \"{emotion}\"",
+  },
+  offline: {
+    analysis: "\"{title}\" on {date}. {tagsLead}{artist}'s {feature} seems to sit right beside you. \"{emotion}\" — days like this are a precious part of you, too.",
+    tagsLead: "Alongside feeling {tags}, ",
+    recapThanks: {
+      one: "Thank you for keeping {count} day of music and feelings through {periodLabel}.",
+      other: "Thank you for keeping {count} days of music and feelings through {periodLabel}.",
+    },
+    recapTopSong: "The song that stayed closest to you was {song}.",
+    recapTopArtist: "{artist} kept coming back to your side, again and again.",
+    recapTopTags: "The words you reached for most were {tags}.",
+    recapOverall: "Taken together, it was a {span} you might call \"{emotion}\".",
+    recapHighlights: "The days that moved you most: {highlights}.",
+    highlightSeparator: "; ",
+    recapClosing: "Every one of those days was yours, and worth keeping. Here's to the {span} ahead, and the music that comes with it.",
+    storyOnce: "{subject} appears just once, on {first}.",
+    storySpan: "You first recorded {subject} on {first} and most recently on {last}: {count} entries in all.",
+    storyEmotions: "Along the way it felt like {emotions}.",
+    storyOverall: "Taken together, {kind} has been something you might call \"{emotion}\".",
+    storyClosing: "May the music you love keep you company in the days ahead.",
+  },
+};
+
+export default en;
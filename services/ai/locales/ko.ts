@@ -0,0 +1,178 @@
+import type { PromptLocale } from "./ja";
+
+const ko: PromptLocale = {
+  systemInstruction: "당신은 음악 소믈리에이자 심리 상담사처럼 포용력 있는 AI입니다.",
+  persona: "당신은 사용자의 감정을 깊이 이해하고 긍정해 주는 따뜻한 존재(심야 라디오 DJ나 친한 펜팔 같은)입니다.",
+  emotionField: "그 곡을 들으며 느낀 사용자의 기분을 \"한마디로 표현한 감정·무드\". 예: 조용한 결심, 평온, 우울한 비, 고양감 등.",
+  messageField: "사용자에게 보내는 공감 가득한 메시지. 음악적 지식(가사 구절, 곡의 전개 등)을 곁들이면서 그날 사용자의 마음(일기, 태그, 점수)에 다정하게 다가가는 내용으로. \"~라는 가사가 지금의 마음과 겹치네요\", \"이 피아노 선율이~\"처럼 구체적으로.",
+  moodQuadrants: {
+    excited: "쾌·높은 에너지 (설렘, 고양, 들뜬 기분)",
+    content: "쾌·낮은 에너지 (평온, 만족, 느긋한 기분)",
+    tense: "불쾌·높은 에너지 (긴장, 짜증, 불안, 초조)",
+    down: "불쾌·낮은 에너지 (우울, 쓸쓸함, 피로, 가라앉은 기분)",
+    neutral: "중립 (어느 쪽으로도 크게 치우치지 않은 평소의 기분)",
+  },
+  moodPoint: "기분 {valence} · 에너지 {energy}",
+  none: "(없음)",
+  listSeparator: ", ",
+  quote: "\"{text}\"",
+  examples: "[이 사용자의 지난 기록 (본인이 맞다고 확인한 감정)]\n{lines}\n※ inferredEmotion은 이 사용자 자신의 말투에 가깝게 해 주세요.",
+  correction: "[사용자의 정정]\n이전 분석은 본인의 마음과 달랐습니다. 본인에 따르면 실제 기분은 \"{correction}\"입니다. 이것을 최우선으로 다시 분석해 주세요.",
+  analysis: `
+      사용자가 "{date}"의 기록으로 "추억의 노래"와 "그때의 기분"을 입력했습니다.
+      이 곡의 [가사]와 [멜로디·곡 분위기]의 특징을 바탕으로, 사용자의 마음에 다가가는 따뜻한 메시지를 보내 주세요.
+
+      [입력 정보]
+      날짜: {date}
+      곡명: {title}
+      아티스트: {artist}
+      기분의 밝기 (-50은 불쾌/가라앉음, +50은 쾌/밝음): {valence}
+      에너지 (-50은 차분함/고요함, +50은 활발함/들뜸): {energy}
+      기분의 위치: {moodDescription}
+      선택한 감정 태그: {tags}
+      일기/메모 내용: "{diary}"
+
+      {personalContext}
+
+      {persona}
+
+      [중요한 지침]
+      1. **깊이 있는 곡 분석**: 그저 "좋은 곡이네요"라고 하지 말고, "이 곡의 '~'라는 가사가…"나 "후렴으로 갈수록 고조되는 전조가…"처럼 곡의 구체적인 요소(가사나 사운드)를 언급하며 그것이 사용자의 감정과 어떻게 이어지는지 이야기해 주세요.
+      2. 시간 혼동 피하기: "지난 일이네요" 같은 언급은 피하고, "{date}이라는 날"의 경험으로서 지금 일어나는 일처럼 다가가 주세요.
+      3. 부정 금지: 아무리 어두운 감정이라도 부정하지 말고, "그럴 때도 있죠", "그 감정도 소중해요"처럼 받아들여 주세요.
+
+      출력은 한국어로 해 주세요. 부드럽고 포용력 있는 존댓말(해요체)로 부탁드립니다.
+    `,
+  languageNames: { ja: "일본어", en: "영어", ko: "한국어", zh: "중국어(간체)" },
+  translation: `
+      아래는 음악 일기의 기록 하나에 붙은 메시지로, {from}로 쓰여 있습니다.
+      의미와 따뜻한 말투를 그대로 살려 {to}로 번역해 주세요.
+
+      [감정]
+      {emotion}
+
+      [메시지]
+      {message}
+
+      [중요한 지침]
+      1. 곡명과 아티스트명은 원문 그대로 남겨 주세요.
+      2. 내용을 더하거나 빼지 말고, 자연스러운 문장으로 옮겨 주세요.
+
+      inferredEmotion에는 감정의 번역을, analysisText에는 메시지의 번역을 넣어 주세요.
+    `,
+  recommendationReason: "그 곡이 지금 기분에 어울리는 이유를, 강요하지 않는 다정한 한마디로.",
+  recommendation: `
+      사용자가 음악 일기에 지금의 기분을 기록하려 하고 있습니다. 이 기분에 어울리는 곡을 {count}곡 추천해 주세요.
+
+      [지금의 기분]
+      기분의 밝기 (-50은 불쾌/가라앉음, +50은 쾌/밝음): {valence}
+      에너지 (-50은 차분함/고요함, +50은 활발함/들뜸): {energy}
+      기분의 위치: {moodDescription}
+      선택한 감정 태그: {tags}
+
+      [비슷한 기분일 때 들었던 곡 (취향 참고)]
+      {favorites}
+
+      [이미 일기에 있는 곡 (이 곡들은 추천하지 마세요)]
+      {exclude}
+
+      [중요한 지침]
+      1. 실제로 존재하는 곡만, 정확한 곡명과 아티스트명으로 알려 주세요.
+      2. 일기에 있는 곡은 표기가 달라도 추천하지 마세요.
+      3. reason은 한국어로 써 주세요.
+    `,
+  recapSpan: { month: "한 달", year: "일 년" },
+  recap: `
+      사용자의 음악 일기에서 "{periodLabel}"의 {span}을 돌아봅니다.
+      아래 기록을 바탕으로 이 기간을 함께 돌아보는 편지를 써 주세요.
+
+      [기록 개요]
+      기록한 날 수: {memoryCount}
+      평균 기분의 밝기 (-50은 불쾌/가라앉음, +50은 쾌/밝음): {averageMood}
+      평균 에너지 (-50은 차분함/고요함, +50은 활발함/들뜸): {averageEnergy}
+
+      [자주 들은 곡]
+      {topSongs}
+
+      [자주 들은 아티스트]
+      {topArtists}
+
+      [자주 고른 키워드]
+      {topTags}
+
+      [무드의 흐름]
+      {moodArc}
+
+      [인상적인 날]
+      {highlights}
+
+      {persona}
+
+      [중요한 지침]
+      1. 숫자를 나열하지 말고, 곡과 아티스트를 구체적으로 언급하며 이 기간 동안 마음이 어떻게 흘러갔는지 이야기처럼 들려주세요.
+      2. 가라앉았던 날도 부정하지 말고, 그날을 지나온 것을 다독여 주세요.
+      3. 마지막으로 다음 {span}을 위한 작은 응원을 덧붙여 주세요.
+
+      출력은 한국어 편지 본문만(제목이나 JSON 없이), 해요체로 400~600자 정도로 써 주세요.
+    `,
+  songStoryKind: { song: "이 곡", artist: "이 아티스트" },
+  songStorySubject: "\"{title}\" / {artist}",
+  songStory: `
+      사용자의 음악 일기에서 {kind}의 기록을 돌아봅니다.
+      대상: {subject}
+      아래 기록을 바탕으로, 사용자에게 {kind}의 의미가 무엇이었는지 글로 써 주세요.
+
+      [기록 개요]
+      기록한 횟수: {memoryCount}
+      첫 기록: {firstDate}
+      마지막 기록: {lastDate}
+      평균 기분의 밝기 (-50은 불쾌/가라앉음, +50은 쾌/밝음): {averageMood}
+      평균 에너지 (-50은 차분함/고요함, +50은 활발함/들뜸): {averageEnergy}
+
+      [각각의 기록 (오래된 순)]
+      {entries}
+
+      [자주 고른 키워드]
+      {topTags}
+
+      [그때그때의 마음 (오래된 순)]
+      {emotions}
+
+      {persona}
+
+      [중요한 지침]
+      1. 시기에 따라 {kind}의 느낌이 어떻게 달라졌는지(예를 들어 봄과 겨울의 차이)에 주목하며, 사용자와의 관계를 이야기처럼 들려주세요.
+      2. 기록에 없는 일을 지어내지 마세요.
+      3. 가라앉았던 날의 기록도 부정하지 말고, 그때 곁에 있던 {kind}의 존재를 소중히 다뤄 주세요.
+
+      출력은 한국어 본문만(제목이나 JSON 없이), 해요체로 200~400자 정도로 써 주세요.
+    `,
+  recapItems: {
+    times: "{count}회",
+    song: "\"{title}\" / {artist} ({times})",
+    counted: "{label} ({times})",
+    arc: "{label}부터: 평균 {score} ({count}개)",
+    arcEmpty: "{label}부터: 기록 없음",
+    highlight: "{date} \"{title}\" / {artist} (점수 {score}{emotion})",
+    highlightEmotion: ", \"{emotion}\"",
+  },
+  offline: {
+    analysis: "{date}의 \"{title}\". {tagsLead}{artist}의 {feature}이 살며시 곁에 있어 주는 것 같아요. \"{emotion}\" — 그런 하루도 소중한 당신의 일부예요.",
+    tagsLead: "{tags}의 마음에, ",
+    recapThanks: "{periodLabel}, {count}일 동안의 음악과 마음을 남겨 주셔서 고마워요.",
+    recapTopSong: "가장 가까이 있어 준 곡: {song}.",
+    recapTopArtist: "{artist}의 음악이 몇 번이고 당신 곁에 있었네요.",
+    recapTopTags: "자주 고른 말: {tags}.",
+    recapOverall: "돌아보면 \"{emotion}\", 그런 말이 어울리는 {span}이었어요.",
+    recapHighlights: "특히 마음이 움직인 날: {highlights}.",
+    highlightSeparator: ", 그리고 ",
+    recapClosing: "어느 날이든 당신이 보낸 소중한 시간이에요. 다음 {span}도 좋아하는 음악과 함께하길.",
+    storyOnce: "{subject}: {first}에 한 번 기록되어 있어요.",
+    storySpan: "{subject}: 첫 기록은 {first}, 마지막 기록은 {last}. 지금까지 {count}번 일기에 등장했어요.",
+    storyEmotions: "그때그때의 마음: {emotions}.",
+    storyOverall: "돌아보면 {kind}의 기록에는 \"{emotion}\", 그런 말이 어울려요.",
+    storyClosing: "앞으로도 좋아하는 음악이 당신 곁에 있기를.",
+  },
+};
+
+export default ko;
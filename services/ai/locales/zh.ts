@@ -0,0 +1,178 @@
+import type { PromptLocale } from "./ja";
+
+const zh: PromptLocale = {
+  systemInstruction: "你是一位既是音乐品鉴师、又拥有心理咨询师般包容力的 AI。",
+  persona: "你是一个能深刻理解并肯定用户情绪的温暖存在（就像深夜电台主持人或亲密的笔友）。",
+  emotionField: "用户听着这首歌时的心情，用「一句话概括的情绪·氛围」来表达。例如：安静的决心、安宁、忧郁的雨、兴奋等。",
+  messageField: "一段充满共情的留言。结合音乐方面的专业知识（歌词片段、曲调的发展等），温柔地贴近用户当天的心情（日记、标签、分数）。要具体，比如「『……』这句歌词和你此刻的心情重叠了」「这段钢琴旋律……」。",
+  moodQuadrants: {
+    excited: "愉快·高能量（兴奋、高涨、雀跃）",
+    content: "愉快·低能量（平静、满足、放松）",
+    tense: "不快·高能量（紧张、烦躁、不安、焦虑）",
+    down: "不快·低能量（忧郁、寂寞、疲惫、低落）",
+    neutral: "中性（没有明显偏向，平常的心情）",
+  },
+  moodPoint: "心情 {valence}·能量 {energy}",
+  none: "（无）",
+  listSeparator: "、",
+  quote: "「{text}」",
+  examples: "【该用户过去的记录（本人确认过的情绪）】\n{lines}\n※ inferredEmotion 请尽量贴近这位用户自己的用词。",
+  correction: "【来自用户的更正】\n之前的分析与本人的心情不符。用本人的话说，实际的心情是「{correction}」。请以此为最优先重新分析。",
+  analysis: `
+      用户为「{date}」记录了一首「回忆之歌」和「当时的心情」。
+      请结合这首歌的【歌词】和【旋律·曲风】的特点，送上一段贴近用户内心的温暖留言。
+
+      【输入信息】
+      日期: {date}
+      歌名: {title}
+      歌手: {artist}
+      心情明暗（-50 为不快/低落，+50 为愉快/明朗）: {valence}
+      能量（-50 为平静/安稳，+50 为活跃/激动）: {energy}
+      心情的位置: {moodDescription}
+      选择的情绪标签: {tags}
+      日记/备忘内容: "{diary}"
+
+      {personalContext}
+
+      {persona}
+
+      【重要准则】
+      1. **深入的歌曲分析**：不要只说「这是首好歌」，而要像「这首歌里『……』这句歌词……」或「副歌前逐渐高涨的转调……」那样，具体提到歌曲的元素（歌词或声音），并讲述它们与用户情绪之间的联系。
+      2. 避免时间上的混乱：不要说「那是过去的事了」之类的话，请把它当作「{date}这一天」正在发生的经历来陪伴用户。
+      3. 严禁否定：无论情绪多么低落，都不要否定它，而是用「有时候就是会这样」「这种感受也很珍贵」这样的话来接纳。
+
+      请用简体中文输出。语气温柔、礼貌、富有包容力。
+    `,
+  languageNames: { ja: "日语", en: "英语", ko: "韩语", zh: "简体中文" },
+  translation: `
+      以下是附在一条音乐日记上的留言，原文为{from}。
+      请保留原意和温暖的语气，将其翻译成{to}。
+
+      【情绪】
+      {emotion}
+
+      【留言】
+      {message}
+
+      【重要准则】
+      1. 歌名和歌手名请保持原文。
+      2. 不要增添或删减内容，译成自然流畅的{to}。
+
+      请把情绪的译文放进 inferredEmotion，把留言的译文放进 analysisText。
+    `,
+  recommendationReason: "用一句温柔、不强加于人的话，说明这首歌为什么适合此刻的心情。",
+  recommendation: `
+      用户正要在音乐日记里记录此刻的心情。请推荐{count}首适合这种心情的歌。
+
+      【此刻的心情】
+      心情明暗（-50 为不快/低落，+50 为愉快/明朗）: {valence}
+      能量（-50 为平静/安稳，+50 为活跃/激动）: {energy}
+      心情的位置: {moodDescription}
+      选择的情绪标签: {tags}
+
+      【心情相似时听过的歌（作为喜好的参考）】
+      {favorites}
+
+      【日记里已有的歌（请不要推荐这些）】
+      {exclude}
+
+      【重要准则】
+      1. 只推荐真实存在的歌曲，并写出准确的歌名和歌手名。
+      2. 日记里已有的歌，即使写法不同也不要推荐。
+      3. reason 请用简体中文书写。
+    `,
+  recapSpan: { month: "一个月", year: "一年" },
+  recap: `
+      我们将从用户的音乐日记中回顾「{periodLabel}」这{span}。
+      请根据以下记录，写一封和用户一起回顾这段时间的信。
+
+      【记录概要】
+      记录的天数: {memoryCount}
+      平均心情明暗（-50 为不快/低落，+50 为愉快/明朗）: {averageMood}
+      平均能量（-50 为平静/安稳，+50 为活跃/激动）: {averageEnergy}
+
+      【常听的歌曲】
+      {topSongs}
+
+      【常听的歌手】
+      {topArtists}
+
+      【常选的关键词】
+      {topTags}
+
+      【情绪的流动】
+      {moodArc}
+
+      【印象深刻的日子】
+      {highlights}
+
+      {persona}
+
+      【重要准则】
+      1. 不要罗列数字，而要具体提到歌曲和歌手，像讲故事一样讲述这段时间里心情的变化。
+      2. 不要否定低落的日子，要慰劳用户走过了那些日子。
+      3. 最后，为接下来的{span}送上一句小小的鼓励。
+
+      只输出简体中文的信件正文（不需要标题或 JSON），语气温柔，约 400～600 字。
+    `,
+  songStoryKind: { song: "这首歌", artist: "这位歌手" },
+  songStorySubject: "「{title}」/ {artist}",
+  songStory: `
+      我们将从用户的音乐日记中，回顾所有出现{kind}的记录。
+      对象: {subject}
+      请根据以下记录，写一段文字，讲述{kind}对用户意味着什么。
+
+      【记录概要】
+      记录次数: {memoryCount}
+      第一次记录: {firstDate}
+      最近一次记录: {lastDate}
+      平均心情明暗（-50 为不快/低落，+50 为愉快/明朗）: {averageMood}
+      平均能量（-50 为平静/安稳，+50 为活跃/激动）: {averageEnergy}
+
+      【每一条记录（按时间先后）】
+      {entries}
+
+      【常选的关键词】
+      {topTags}
+
+      【那些时候的心情（按时间先后）】
+      {emotions}
+
+      {persona}
+
+      【重要准则】
+      1. 留意{kind}在不同时期听起来有什么不同（比如春天和冬天），像讲故事一样讲述它与用户之间的关系。
+      2. 不要编造记录中没有的事情。
+      3. 不要否定低落日子的记录，要珍惜那时{kind}陪在身边这件事。
+
+      只输出简体中文正文（不需要标题或 JSON），语气温柔，约 200～400 字。
+    `,
+  recapItems: {
+    times: "{count}次",
+    song: "「{title}」/ {artist}（{times}）",
+    counted: "{label}（{times}）",
+    arc: "{label}起：平均 {score}（{count}条）",
+    arcEmpty: "{label}起：无记录",
+    highlight: "{date}「{title}」/ {artist}（分数 {score}{emotion}）",
+    highlightEmotion: "，「{emotion}」",
+  },
+  offline: {
+    analysis: "{date}的「{title}」。{tagsLead}{artist}那{feature}仿佛正静静地陪在你身边。「{emotion}」——这样的一天，也是珍贵的你的一部分。",
+    tagsLead: "在{tags}的心情里，",
+    recapThanks: "谢谢你在{periodLabel}留下了{count}天的音乐与心情。",
+    recapTopSong: "最贴近你的，是「{song}」。",
+    recapTopArtist: "{artist}的音乐一次又一次陪在你身边。",
+    recapTopTags: "你最常选的词是{tags}。",
+    recapOverall: "整体来看，这是想称之为「{emotion}」的{span}。",
+    recapHighlights: "特别让你心动的，是{highlights}这些日子。",
+    highlightSeparator: "，还有",
+    recapClosing: "每一天都是你度过的珍贵时光。接下来的{span}，也和喜欢的音乐一起吧。",
+    storyOnce: "{subject}只在{first}被记录过一次。",
+    storySpan: "第一次记录{subject}是在{first}，最近一次是{last}，一共在日记里出现了{count}次。",
+    storyEmotions: "那些时候的心情是{emotions}。",
+    storyOverall: "整体来看，{kind}像是一种可以称为「{emotion}」的存在。",
+    storyClosing: "愿你喜欢的音乐，今后也一直陪在你身边。",
+  },
+};
+
+export default zh;
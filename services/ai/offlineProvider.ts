@@ -0,0 +1,244 @@
+import { AnalysisResult, ArtStyleId, Language } from "../../types";
+import { AiProvider } from "./provider";
+import { AnalysisRequest, RecapRequest, SongStoryRequest, promptLocale } from "./prompts";
+import { formatDate, formatMessage, interpolate } from "../../i18n";
+import { moodQuadrant, MoodQuadrant } from "../moodService";
+
+// No network, no key: everything is derived from the inputs, so the same
+// entry always yields the same analysis and artwork. Useful for trying the
+// app out, for working offline and for tests.
+
+// FNV-1a, enough to spread similar inputs apart
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// mulberry32
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const hslToHex = (h: number, s: number, l: number): string => {
+  const a = (s / 100) * Math.min(l / 100, 1 - l / 100);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const value = l / 100 - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, "0");
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+// Everything the templates say about a mood, by where it sits on the
+// valence/energy plane: a calm good day isn't euphoric
+interface QuadrantWords {
+  emotions: Record<Language, string>[];
+  feature: Record<Language, string>;
+  shapes: string;
+}
+
+const QUADRANTS: Record<MoodQuadrant, QuadrantWords> = {
+  excited: {
+    emotions: [
+      { ja: "高揚感", en: "Euphoria", ko: "고양감", zh: "兴奋" },
+      { ja: "弾む心", en: "Bouncing Heart", ko: "두근거리는 마음", zh: "雀跃的心" },
+      { ja: "最高の瞬間", en: "Peak Moment", ko: "최고의 순간", zh: "最美的瞬间" },
+      { ja: "心地よい前進", en: "Easy Momentum", ko: "기분 좋은 전진", zh: "惬意的前进" },
+    ],
+    feature: { ja: "一気に開けるサビ", en: "chorus that bursts wide open", ko: "단숨에 탁 트이는 후렴", zh: "一下子豁然开朗的副歌" },
+    shapes: "bright bursting circles",
+  },
+  content: {
+    emotions: [
+      { ja: "安らぎ", en: "Peaceful", ko: "평온", zh: "安宁" },
+      { ja: "あたたかい午後", en: "Warm Afternoon", ko: "따스한 오후", zh: "温暖的午后" },
+      { ja: "小さな希望", en: "Small Hope", ko: "작은 희망", zh: "小小的希望" },
+      { ja: "凪", en: "Stillness", ko: "잔잔함", zh: "风平浪静" },
+    ],
+    feature: { ja: "少しずつ明るくなっていくコード進行", en: "chords that brighten bit by bit", ko: "조금씩 밝아지는 코드 진행", zh: "一点点明亮起来的和弦进行" },
+    shapes: "rising organic forms",
+  },
+  tense: {
+    emotions: [
+      { ja: "ざわめく心", en: "Restless Heart", ko: "술렁이는 마음", zh: "躁动的心" },
+      { ja: "張りつめた夜", en: "Taut Night", ko: "팽팽한 밤", zh: "紧绷的夜" },
+      { ja: "嵐の前", en: "Before the Storm", ko: "폭풍 전야", zh: "暴风雨前" },
+      { ja: "静かな決意", en: "Quiet Determination", ko: "조용한 결심", zh: "安静的决心" },
+    ],
+    feature: { ja: "張りつめたまま刻み続けるリズム", en: "taut, relentless rhythm", ko: "팽팽하게 이어지는 리듬", zh: "紧绷而不停歇的节奏" },
+    shapes: "sharp clustered shapes, off balance",
+  },
+  down: {
+    emotions: [
+      { ja: "静かな雨", en: "Quiet Rain", ko: "조용한 비", zh: "静静的雨" },
+      { ja: "深い夜", en: "Deep Night", ko: "깊은 밤", zh: "深夜" },
+      { ja: "やさしい憂い", en: "Gentle Melancholy", ko: "다정한 우수", zh: "温柔的忧愁" },
+      { ja: "ひとりの時間", en: "Time Alone", ko: "혼자만의 시간", zh: "独处的时光" },
+    ],
+    feature: { ja: "ゆっくりと沈んでいくような旋律", en: "slowly sinking melody", ko: "천천히 가라앉는 듯한 선율", zh: "缓缓下沉般的旋律" },
+    shapes: "heavy soft circles, low horizon",
+  },
+  neutral: {
+    emotions: [
+      { ja: "ニュートラル", en: "Even Keel", ko: "담담함", zh: "平常心" },
+      { ja: "いつもの日", en: "An Ordinary Day", ko: "평범한 하루", zh: "平常的一天" },
+      { ja: "物思い", en: "Pensive", ko: "생각에 잠김", zh: "沉思" },
+      { ja: "ひと休み", en: "A Pause", ko: "잠깐의 쉼", zh: "小憩" },
+    ],
+    feature: { ja: "淡々と続くリズム", en: "steady, even rhythm", ko: "담담히 이어지는 리듬", zh: "平稳延续的节奏" },
+    shapes: "balanced overlapping circles",
+  },
+};
+
+const quadrantFor = (valence: number, energy: number) => QUADRANTS[moodQuadrant(valence, energy)];
+
+// One of the quadrant's emotions, picked by the seed so it stays put
+const emotionFor = (words: QuadrantWords, seed: number, lang: Language) => words.emotions[seed % words.emotions.length][lang];
+
+export const moodColorFor = (score: number, seed: number, energy: number = 0): string => {
+  // Cool indigo at -50 through to warm orange at +50, nudged per entry;
+  // more energy is more saturated and a little deeper
+  const t = (Math.max(-50, Math.min(50, score)) + 50) / 100;
+  const e = Math.max(-50, Math.min(50, energy)) / 50;
+  const hue = 235 - t * 210 + ((seed % 21) - 10);
+  return hslToHex((hue + 360) % 360, 65 + e * 10 + (seed % 15), 62 - e * 6);
+};
+
+// Prefers the user's own words: an explicit correction, else the emotion they
+// confirmed on a past entry with overlapping tags and a similar mood
+const chooseEmotion = (request: AnalysisRequest, seed: number): string => {
+  const { context = {}, lang, moodTags, moodScore, energy } = request;
+  if (context.correction) return context.correction;
+  const similar = context.examples?.find(
+    (ex) => Math.hypot(ex.moodScore - moodScore, ex.energy - energy) <= 15 && ex.moodTags.some((tag) => moodTags.includes(tag))
+  );
+  if (similar) return similar.emotion;
+  return emotionFor(quadrantFor(moodScore, energy), seed, lang);
+};
+
+export const analyzeOffline = (request: AnalysisRequest): AnalysisResult => {
+  const { song, moodScore, energy, moodTags, diaryText, lang, date } = request;
+  const seed = hash([song.artist, song.title, moodScore, energy, moodTags.join(","), diaryText].join("\u0000"));
+  const words = quadrantFor(moodScore, energy);
+  const moodColor = moodColorFor(moodScore, seed, energy);
+  const emotion = chooseEmotion(request, seed);
+  const locale = promptLocale(lang);
+  const formattedDate = formatDate(date, lang, { year: "numeric", month: "long", day: "numeric" });
+
+  const analysisText = interpolate(locale.offline.analysis, {
+    date: formattedDate,
+    title: song.title,
+    artist: song.artist,
+    tagsLead: moodTags.length ? interpolate(locale.offline.tagsLead, { tags: moodTags.join(locale.listSeparator) }) : "",
+    feature: words.feature[lang],
+    emotion,
+  });
+
+  return {
+    inferredEmotion: emotion,
+    analysisText,
+    moodColor,
+    imagePrompt: `Abstract composition of ${words.shapes}, centered on ${moodColor}, evoking "${song.title}" by ${song.artist}`,
+  };
+};
+
+// How each style preset is approximated when drawing locally
+const OFFLINE_STYLES: Record<ArtStyleId, { blur: number; shape: "circle" | "square"; lightness: number; mono?: boolean }> = {
+  classic: { blur: 18, shape: "circle", lightness: 75 },
+  watercolor: { blur: 30, shape: "circle", lightness: 78 },
+  geometric: { blur: 0, shape: "square", lightness: 65 },
+  photo: { blur: 8, shape: "circle", lightness: 55 },
+  pastel: { blur: 24, shape: "circle", lightness: 88 },
+  ink: { blur: 3, shape: "circle", lightness: 30, mono: true },
+};
+
+// Soft layered shapes on a gradient; colors come from any hex code in the
+// prompt (the mood color), the layout from the prompt's hash
+export const generateAbstractImage = (prompt: string, style: ArtStyleId = "classic"): string => {
+  const look = OFFLINE_STYLES[style] ?? OFFLINE_STYLES.classic;
+  const seed = hash(`${style}:${prompt}`);
+  const random = seededRandom(seed);
+  const moodColor = prompt.match(/#[0-9a-f]{6}/i)?.[0] ?? moodColorFor(0, seed);
+  const base = look.mono ? "#292524" : moodColor;
+  const accent = look.mono ? "#78716c" : hslToHex(Math.floor(random() * 360), 70, look.lightness);
+  const size = 512;
+
+  const shapes = Array.from({ length: 4 + Math.floor(random() * 4) }, () => {
+    const x = Math.round(random() * size);
+    const y = Math.round(random() * size);
+    const r = Math.round(60 + random() * 160);
+    const fill = random() > 0.5 ? base : accent;
+    const opacity = (0.25 + random() * 0.45).toFixed(2);
+    if (look.shape === "square") {
+      const angle = Math.round(random() * 90);
+      return `<rect x="${x - r / 2}" y="${y - r / 2}" width="${r}" height="${r}" transform="rotate(${angle} ${x} ${y})" fill="${fill}" fill-opacity="${opacity}"/>`;
+    }
+    return `<circle cx="${x}" cy="${y}" r="${r}" fill="${fill}" fill-opacity="${opacity}"/>`;
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">`
+    + `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="#fffaf0"/><stop offset="1" stop-color="${look.mono ? "#e7e5e4" : moodColor}" stop-opacity="0.45"/></linearGradient>`
+    + `<filter id="soft"><feGaussianBlur stdDeviation="${look.blur}"/></filter></defs>`
+    + `<rect width="${size}" height="${size}" fill="url(#bg)"/>`
+    + `<g filter="url(#soft)">${shapes.join("")}</g></svg>`;
+
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+// A short letter assembled from the recap's own numbers
+export const writeRecapOffline = (request: RecapRequest): string => {
+  const { lang, periodLabel, memoryCount, averageMood, averageEnergy, topSongs, topArtists, topTags, highlights } = request;
+  const emotion = emotionFor(quadrantFor(averageMood, averageEnergy), hash(periodLabel), lang);
+  const { offline, listSeparator, quote, recapSpan } = promptLocale(lang);
+  const span = request.isYear ? recapSpan.year : recapSpan.month;
+
+  return [
+    formatMessage(lang, offline.recapThanks, { periodLabel, count: memoryCount }),
+    topSongs[0] ? interpolate(offline.recapTopSong, { song: topSongs[0] }) : "",
+    topArtists[0] ? interpolate(offline.recapTopArtist, { artist: topArtists[0] }) : "",
+    topTags.length ? interpolate(offline.recapTopTags, { tags: topTags.slice(0, 3).map((tag) => interpolate(quote, { text: tag })).join(listSeparator) }) : "",
+    interpolate(offline.recapOverall, { span, emotion }),
+    highlights.length ? interpolate(offline.recapHighlights, { highlights: highlights.join(offline.highlightSeparator) }) : "",
+    interpolate(offline.recapClosing, { span }),
+  ].filter(Boolean).join("\n");
+};
+
+// A few lines assembled from the entries themselves
+export const writeSongStoryOffline = (request: SongStoryRequest): string => {
+  const { lang, subject, memoryCount, firstDate, lastDate, averageMood, averageEnergy, emotions } = request;
+  const emotion = emotionFor(quadrantFor(averageMood, averageEnergy), hash(subject), lang);
+  const { offline, listSeparator, quote, songStoryKind } = promptLocale(lang);
+  const kind = request.isArtist ? songStoryKind.artist : songStoryKind.song;
+
+  return [
+    memoryCount > 1
+      ? interpolate(offline.storySpan, { subject, first: firstDate, last: lastDate, count: memoryCount })
+      : interpolate(offline.storyOnce, { subject, first: firstDate }),
+    emotions.length ? interpolate(offline.storyEmotions, { emotions: emotions.slice(-3).map((text) => interpolate(quote, { text })).join(listSeparator) }) : "",
+    interpolate(offline.storyOverall, { kind, emotion }),
+    offline.storyClosing,
+  ].filter(Boolean).join("\n");
+};
+
+export const createOfflineProvider = (): AiProvider => ({
+  analyze: async (request) => analyzeOffline(request),
+  writeRecap: async (request) => writeRecapOffline(request),
+  writeSongStory: async (request) => writeSongStoryOffline(request),
+  generateImage: async (prompt, style) => generateAbstractImage(prompt, style),
+  // There is no catalog to draw new songs from; the user's own history is
+  // ranked without a provider (see recommendationService)
+  recommendSongs: async () => {
+    throw new Error("The offline provider cannot recommend songs");
+  },
+  // Templates can't carry someone else's words over into another language
+  translate: async () => {
+    throw new Error("The offline provider cannot translate");
+  },
+});
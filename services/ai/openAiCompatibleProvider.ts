@@ -0,0 +1,116 @@
+import { AiSettings, Language } from "../../types";
+import { AiProvider } from "./provider";
+import {
+  buildAnalysisPrompt, buildImagePrompt, buildRecapPrompt, buildRecommendationPrompt, buildSongStoryPrompt, buildTranslationPrompt,
+  getAnalysisFieldDescriptions, getAnalysisSystemInstruction, getRecommendationFieldDescriptions, parseAnalysisResult,
+  parseRecommendations, parseTranslation, ANALYSIS_FIELDS, RECOMMENDATION_FIELDS, TRANSLATION_FIELDS,
+} from "./prompts";
+import { generateAbstractImage } from "./offlineProvider";
+
+// Any server speaking the OpenAI REST dialect: a self-hosted model behind
+// llama.cpp, vLLM, Ollama, LM Studio and the like
+export const OPENAI_COMPATIBLE_DEFAULT_ENDPOINT = "http://localhost:11434/v1";
+
+const postJson = async <T>(settings: AiSettings, path: string, body: unknown): Promise<T> => {
+  const endpoint = (settings.endpoint || OPENAI_COMPATIBLE_DEFAULT_ENDPOINT).replace(/\/+$/, "");
+  const response = await fetch(`${endpoint}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(settings.apiKey && { Authorization: `Bearer ${settings.apiKey}` }),
+    },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`${path} failed with ${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+};
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface ImageGeneration {
+  data?: { b64_json?: string; url?: string }[];
+}
+
+// A JSON schema object whose properties are all described strings
+const stringFields = <K extends string>(fields: K[], descriptions: Record<K, string>) => ({
+  type: "object",
+  properties: Object.fromEntries(fields.map((field) => [field, { type: "string", description: descriptions[field] }])),
+  required: fields,
+  additionalProperties: false,
+});
+
+// One chat turn in the diary's voice; the reply text, never empty
+const complete = async (settings: AiSettings, lang: Language, prompt: string, responseFormat?: unknown): Promise<string> => {
+  if (!settings.model) throw new Error("No model configured for the OpenAI-compatible endpoint");
+  const completion = await postJson<ChatCompletion>(settings, "/chat/completions", {
+    model: settings.model,
+    messages: [
+      { role: "system", content: getAnalysisSystemInstruction(lang) },
+      { role: "user", content: prompt },
+    ],
+    ...(responseFormat !== undefined && { response_format: responseFormat }),
+  });
+
+  const text = completion.choices?.[0]?.message?.content;
+  if (!text?.trim()) throw new Error("No response from AI");
+  return text;
+};
+
+const requestText = async (settings: AiSettings, lang: Language, prompt: string): Promise<string> =>
+  (await complete(settings, lang, prompt)).trim();
+
+const requestJson = (settings: AiSettings, lang: Language, prompt: string, name: string, schema: object): Promise<string> =>
+  complete(settings, lang, prompt, { type: "json_schema", json_schema: { name, strict: true, schema } });
+
+export const createOpenAiCompatibleProvider = (settings: AiSettings): AiProvider => ({
+  async analyze(request) {
+    const schema = stringFields(ANALYSIS_FIELDS, getAnalysisFieldDescriptions(request.lang));
+    return parseAnalysisResult(await requestJson(settings, request.lang, buildAnalysisPrompt(request), "memory_analysis", schema));
+  },
+
+  async writeRecap(request) {
+    return requestText(settings, request.lang, buildRecapPrompt(request));
+  },
+
+  async writeSongStory(request) {
+    return requestText(settings, request.lang, buildSongStoryPrompt(request));
+  },
+
+  async recommendSongs(request) {
+    const schema = {
+      type: "object",
+      properties: {
+        songs: { type: "array", items: stringFields(RECOMMENDATION_FIELDS, getRecommendationFieldDescriptions(request.lang)) },
+      },
+      required: ["songs"],
+      additionalProperties: false,
+    };
+    return parseRecommendations(await requestJson(settings, request.lang, buildRecommendationPrompt(request), "song_recommendations", schema));
+  },
+
+  async translate(request) {
+    const schema = stringFields(TRANSLATION_FIELDS, getAnalysisFieldDescriptions(request.to));
+    return parseTranslation(await requestJson(settings, request.to, buildTranslationPrompt(request), "memory_translation", schema));
+  },
+
+  async generateImage(prompt, style) {
+    // Many self-hosted setups serve text only; fall back to local artwork
+    if (!settings.imageModel) return generateAbstractImage(prompt, style);
+
+    const result = await postJson<ImageGeneration>(settings, "/images/generations", {
+      model: settings.imageModel,
+      prompt: buildImagePrompt(prompt, style),
+      size: "1024x1024",
+      response_format: "b64_json",
+    });
+
+    const image = result.data?.[0];
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    if (image?.url) return image.url;
+    throw new Error("No image generated");
+  },
+});
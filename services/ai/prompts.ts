@@ -0,0 +1,259 @@
+import { AnalysisResult, AnalysisTranslation, SongRecommendation, UserSongInput, Language, ArtStyleId } from "../../types";
+import { formatDate, interpolate } from "../../i18n";
+import { moodQuadrant } from "../moodService";
+import ja, { PromptLocale } from "./locales/ja";
+import en from "./locales/en";
+import ko from "./locales/ko";
+import zh from "./locales/zh";
+
+// Prompt text shared by every provider, so switching models doesn't change
+// the persona or what is asked for. The wording lives in ./locales.
+
+export interface AnalysisRequest {
+  diaryText: string;
+  song: UserSongInput;
+  moodScore: number; // valence
+  energy: number;
+  moodTags: string[]; // labels in the prompt language
+  date: Date;
+  lang: Language;
+  context?: AnalysisContext;
+}
+
+// A past entry whose emotion the user confirmed, or corrected in their own words
+export interface PersonalExample {
+  song: UserSongInput;
+  moodScore: number;
+  energy: number;
+  moodTags: string[]; // labels in the prompt language
+  emotion: string;
+}
+
+export interface AnalysisContext {
+  examples?: PersonalExample[];
+  correction?: string; // what the user actually felt, after rejecting an earlier analysis
+}
+
+const PROMPT_LOCALES: Record<Language, PromptLocale> = { ja, en, ko, zh };
+
+export const promptLocale = (lang: Language): PromptLocale => PROMPT_LOCALES[lang] ?? PROMPT_LOCALES.ja;
+
+export const describePersonalContext = (context: AnalysisContext, lang: Language): string => {
+  const locale = promptLocale(lang);
+  const sections: string[] = [];
+  if (context.examples && context.examples.length > 0) {
+    const lines = context.examples.map((ex) =>
+      `- ${ex.song.title} / ${ex.song.artist} (${interpolate(locale.moodPoint, { valence: ex.moodScore, energy: ex.energy })}${ex.moodTags.length ? `, ${ex.moodTags.join(', ')}` : ''}) → ${interpolate(locale.quote, { text: ex.emotion })}`
+    );
+    sections.push(interpolate(locale.examples, { lines: lines.join('\n') }));
+  }
+  if (context.correction) {
+    sections.push(interpolate(locale.correction, { correction: context.correction }));
+  }
+  return sections.join('\n\n');
+};
+
+export interface AnalysisFieldDescriptions {
+  inferredEmotion: string;
+  analysisText: string;
+  moodColor: string;
+  imagePrompt: string;
+}
+
+export const ANALYSIS_FIELDS: (keyof AnalysisResult)[] = ["inferredEmotion", "analysisText", "moodColor", "imagePrompt"];
+
+// The image prompt goes to image models, which want English whatever the language
+export const getAnalysisFieldDescriptions = (lang: Language): AnalysisFieldDescriptions => ({
+  inferredEmotion: promptLocale(lang).emotionField,
+  analysisText: promptLocale(lang).messageField,
+  moodColor: "Hex code representing the mood (e.g., #3b82f6).",
+  imagePrompt: "English prompt for generating minimalist, abstract artwork blending the song's vibe and user's emotion. Use the moodColor as reference.",
+});
+
+export const getAnalysisSystemInstruction = (lang: Language): string => promptLocale(lang).systemInstruction;
+
+export const buildAnalysisPrompt = (request: AnalysisRequest): string => {
+  const locale = promptLocale(request.lang);
+  const { diaryText, song, moodScore, energy, moodTags, context = {} } = request;
+  const formattedDate = formatDate(request.date, request.lang, { year: 'numeric', month: 'long', day: 'numeric' });
+
+  return interpolate(locale.analysis, {
+    date: formattedDate,
+    title: song.title,
+    artist: song.artist,
+    valence: moodScore,
+    energy,
+    moodDescription: locale.moodQuadrants[moodQuadrant(moodScore, energy)],
+    tags: moodTags.join(locale.listSeparator),
+    diary: diaryText || locale.none,
+    personalContext: describePersonalContext(context, request.lang),
+    persona: locale.persona,
+  });
+};
+
+export interface TranslationRequest {
+  analysis: AnalysisTranslation;
+  from: Language;
+  to: Language;
+}
+
+export const TRANSLATION_FIELDS: (keyof AnalysisTranslation)[] = ["inferredEmotion", "analysisText"];
+
+// Asked in the target language, which is also what comes back
+export const buildTranslationPrompt = (request: TranslationRequest): string => {
+  const locale = promptLocale(request.to);
+  return interpolate(locale.translation, {
+    from: locale.languageNames[request.from],
+    to: locale.languageNames[request.to],
+    emotion: request.analysis.inferredEmotion,
+    message: request.analysis.analysisText,
+  });
+};
+
+export interface RecommendationRequest {
+  lang: Language;
+  count: number;
+  moodScore: number; // valence
+  energy: number;
+  moodTags: string[]; // labels in the prompt language
+  favorites: UserSongInput[]; // the user's own songs that fit, best first
+  exclude: UserSongInput[]; // everything already in the diary
+}
+
+export const RECOMMENDATION_FIELDS: (keyof SongRecommendation)[] = ["title", "artist", "reason"];
+
+export const getRecommendationFieldDescriptions = (lang: Language): Record<keyof SongRecommendation, string> => ({
+  title: "The song's exact title as released.",
+  artist: "The artist name as credited.",
+  reason: promptLocale(lang).recommendationReason,
+});
+
+export const buildRecommendationPrompt = (request: RecommendationRequest): string => {
+  const locale = promptLocale(request.lang);
+  const list = (songs: UserSongInput[]) => songs.length ? songs.map((song) => `- ${song.title} / ${song.artist}`).join('\n') : locale.none;
+
+  return interpolate(locale.recommendation, {
+    count: request.count,
+    valence: request.moodScore,
+    energy: request.energy,
+    moodDescription: locale.moodQuadrants[moodQuadrant(request.moodScore, request.energy)],
+    tags: request.moodTags.length ? request.moodTags.join(locale.listSeparator) : locale.none,
+    favorites: list(request.favorites),
+    exclude: list(request.exclude),
+  });
+};
+
+// Everything here is already formatted for the prompt language
+export interface RecapRequest {
+  lang: Language;
+  periodLabel: string; // e.g. "2025年3月" / "March 2025"
+  isYear: boolean;
+  memoryCount: number;
+  averageMood: number;
+  averageEnergy: number;
+  topSongs: string[];
+  topArtists: string[];
+  topTags: string[];
+  moodArc: string[]; // one line per week or month
+  highlights: string[]; // the highest and lowest days
+}
+
+export const buildRecapPrompt = (request: RecapRequest): string => {
+  const locale = promptLocale(request.lang);
+  const list = (items: string[]) => items.length ? items.map((item) => `- ${item}`).join('\n') : locale.none;
+
+  return interpolate(locale.recap, {
+    periodLabel: request.periodLabel,
+    span: request.isYear ? locale.recapSpan.year : locale.recapSpan.month,
+    memoryCount: request.memoryCount,
+    averageMood: request.averageMood.toFixed(1),
+    averageEnergy: request.averageEnergy.toFixed(1),
+    topSongs: list(request.topSongs),
+    topArtists: list(request.topArtists),
+    topTags: list(request.topTags),
+    moodArc: list(request.moodArc),
+    highlights: list(request.highlights),
+    persona: locale.persona,
+  });
+};
+
+// Everything here is already formatted for the prompt language
+export interface SongStoryRequest {
+  lang: Language;
+  subject: string; // the song with its artist, or just the artist
+  isArtist: boolean;
+  memoryCount: number;
+  firstDate: string;
+  lastDate: string;
+  averageMood: number;
+  averageEnergy: number;
+  entries: string[]; // oldest first
+  topTags: string[];
+  emotions: string[]; // each distinct emotion once, oldest first
+}
+
+export const buildSongStoryPrompt = (request: SongStoryRequest): string => {
+  const locale = promptLocale(request.lang);
+  const list = (items: string[]) => items.length ? items.map((item) => `- ${item}`).join('\n') : locale.none;
+
+  return interpolate(locale.songStory, {
+    kind: request.isArtist ? locale.songStoryKind.artist : locale.songStoryKind.song,
+    subject: request.subject,
+    memoryCount: request.memoryCount,
+    firstDate: request.firstDate,
+    lastDate: request.lastDate,
+    averageMood: request.averageMood.toFixed(1),
+    averageEnergy: request.averageEnergy.toFixed(1),
+    entries: list(request.entries),
+    topTags: list(request.topTags),
+    emotions: list(request.emotions),
+    persona: locale.persona,
+  });
+};
+
+export const ART_STYLES: ArtStyleId[] = ["classic", "watercolor", "geometric", "photo", "pastel", "ink"];
+
+// Put in front of the analysis' image prompt; "classic" is the original look
+const ART_STYLE_PREFIXES: Record<ArtStyleId, string> = {
+  classic: "Minimalist, modern abstract art. High quality, serene atmosphere. Use warm, organic shapes.",
+  watercolor: "Soft watercolor painting with bleeding edges and visible paper texture. Gentle, airy atmosphere.",
+  geometric: "Bold geometric abstraction: clean lines, overlapping polygons and flat color fields.",
+  photo: "Photorealistic, cinematic photograph with natural light and shallow depth of field. No people, no text.",
+  pastel: "Dreamy pastel illustration with soft gradients and rounded shapes.",
+  ink: "Monochrome sumi-e ink wash with expressive brush strokes and generous empty space.",
+};
+
+export const buildImagePrompt = (prompt: string, style: ArtStyleId = "classic"): string =>
+  `${ART_STYLE_PREFIXES[style] ?? ART_STYLE_PREFIXES.classic} ${prompt}`;
+
+// Models occasionally wrap JSON in a code fence or drop a field; only accept
+// a complete result
+const parseJson = (text: string) => JSON.parse(text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, ""));
+
+const parseFields = <T>(text: string, fields: (keyof T & string)[], what: string): T => {
+  const parsed = parseJson(text);
+  for (const field of fields) {
+    if (typeof parsed?.[field] !== "string") {
+      throw new Error(`${what} is missing "${field}"`);
+    }
+  }
+  return parsed as T;
+};
+
+export const parseAnalysisResult = (text: string): AnalysisResult => parseFields(text, ANALYSIS_FIELDS, "Analysis");
+
+// The songs come wrapped in an object (some servers only accept an object at
+// the top level); incomplete entries are dropped rather than failing the lot
+export const parseRecommendations = (text: string): SongRecommendation[] => {
+  const { songs } = parseJson(text);
+  if (!Array.isArray(songs)) throw new Error(`Recommendations are missing "songs"`);
+  return songs
+    .filter((song): song is SongRecommendation => RECOMMENDATION_FIELDS.every((field) => typeof song?.[field] === "string" && song[field].trim()))
+    .map(({ title, artist, reason }) => ({ title: title.trim(), artist: artist.trim(), reason }));
+};
+
+// Only the translated fields are kept, whatever else the model sends
+export const parseTranslation = (text: string): AnalysisTranslation => {
+  const { inferredEmotion, analysisText } = parseFields<AnalysisTranslation>(text, TRANSLATION_FIELDS, "Translation");
+  return { inferredEmotion, analysisText };
+};
@@ -0,0 +1,36 @@
+import { AnalysisResult, AnalysisTranslation, SongRecommendation, AiSettings, ArtStyleId } from "../../types";
+import { AnalysisRequest, RecapRequest, RecommendationRequest, SongStoryRequest, TranslationRequest } from "./prompts";
+
+export interface MemoryAnalyzer {
+  // Rejects on failure; callers decide what a failure means for the memory
+  analyze(request: AnalysisRequest): Promise<AnalysisResult>;
+}
+
+export interface ImageGenerator {
+  // Resolves to a data URL, or a remote URL if that is all the service returns
+  generateImage(prompt: string, style?: ArtStyleId): Promise<string>;
+}
+
+export interface RecapWriter {
+  // Resolves to the letter as plain text
+  writeRecap(request: RecapRequest): Promise<string>;
+}
+
+export interface SongStoryWriter {
+  // Resolves to the summary as plain text
+  writeSongStory(request: SongStoryRequest): Promise<string>;
+}
+
+export interface SongRecommender {
+  // Songs the model knows of; rejects when the provider has none to offer
+  recommendSongs(request: RecommendationRequest): Promise<SongRecommendation[]>;
+}
+
+export interface AnalysisTranslator {
+  // Rejects when the provider cannot translate (the offline one never can)
+  translate(request: TranslationRequest): Promise<AnalysisTranslation>;
+}
+
+export type AiProvider = MemoryAnalyzer & ImageGenerator & RecapWriter & SongStoryWriter & SongRecommender & AnalysisTranslator;
+
+export type AiProviderFactory = (settings: AiSettings) => AiProvider;
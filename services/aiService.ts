@@ -0,0 +1,41 @@
+import { AnalysisResult, AnalysisTranslation, SongRecommendation, UserSongInput, Language, AiSettings, AiProviderId, ArtStyleId } from "../types";
+import { AiProvider, AiProviderFactory } from "./ai/provider";
+import { AnalysisContext, RecapRequest, RecommendationRequest, SongStoryRequest, TranslationRequest } from "./ai/prompts";
+import { createGeminiProvider } from "./ai/geminiProvider";
+import { createOpenAiCompatibleProvider } from "./ai/openAiCompatibleProvider";
+import { createOfflineProvider } from "./ai/offlineProvider";
+
+const PROVIDERS: Record<AiProviderId, AiProviderFactory> = {
+  gemini: createGeminiProvider,
+  "openai-compatible": createOpenAiCompatibleProvider,
+  offline: createOfflineProvider,
+};
+
+let provider: AiProvider = createOfflineProvider();
+
+export const configureAi = (settings: AiSettings) => {
+  provider = (PROVIDERS[settings.provider] ?? createOfflineProvider)(settings);
+};
+
+// These reject when the provider fails. There is deliberately no fallback
+// result: the caller keeps the memory queued instead (see analysisQueue).
+export const analyzeMemory = (
+  diaryText: string,
+  song: UserSongInput,
+  moodScore: number,
+  energy: number,
+  moodTags: string[],
+  date: Date,
+  lang: Language,
+  context: AnalysisContext = {}
+): Promise<AnalysisResult> => provider.analyze({ diaryText, song, moodScore, energy, moodTags, date, lang, context });
+
+export const generateMemoryImage = (prompt: string, style?: ArtStyleId): Promise<string> => provider.generateImage(prompt, style);
+
+export const writeRecapLetter = (request: RecapRequest): Promise<string> => provider.writeRecap(request);
+
+export const writeSongStory = (request: SongStoryRequest): Promise<string> => provider.writeSongStory(request);
+
+export const recommendSongs = (request: RecommendationRequest): Promise<SongRecommendation[]> => provider.recommendSongs(request);
+
+export const translateAnalysis = (request: TranslationRequest): Promise<AnalysisTranslation> => provider.translate(request);
@@ -0,0 +1,150 @@
+import { Memory, AnalysisResult, AnalysisTask, PendingAnalysis, ImageVariant, ArtStyleId, Language, TagDefinition } from "../types";
+import { analyzeMemory, generateMemoryImage } from "./aiService";
+import { PersonalExample } from "./ai/prompts";
+import { tagLabels } from "./tagService";
+import { addVariant } from "./artworkService";
+import { withAnalysis } from "./translationService";
+
+// Automatic retries stop here; the card then offers a manual retry
+export const MAX_AUTO_ATTEMPTS = 5;
+
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+// Stands in for the analysis of a memory saved before the AI has answered
+export const PENDING_ANALYSIS: AnalysisResult = {
+  inferredEmotion: "",
+  analysisText: "",
+  moodColor: "#d6d3d1",
+  imagePrompt: "",
+};
+
+// What the old code stored when a request failed. Kept only to recognise such
+// records; it is never written any more.
+const LEGACY_FALLBACK_EMOTIONS = ["解析不能", "Analysis Failed"];
+const LEGACY_FALLBACK_COLOR = "#cbd5e1";
+
+export const isLegacyFallback = (analysis: AnalysisResult) =>
+  LEGACY_FALLBACK_EMOTIONS.includes(analysis.inferredEmotion) && analysis.moodColor === LEGACY_FALLBACK_COLOR;
+
+export const hasAnalysis = (memory: Memory) => memory.analysis.analysisText !== "";
+
+export const queueAnalysis = (memory: Memory, tasks: AnalysisTask[], now: number = Date.now()): Memory => ({
+  ...memory,
+  pending: { tasks, status: "pending", attempts: 0, nextAttemptAt: now },
+});
+
+// Re-analysis in another language. The memory keeps the language of the
+// analysis it still shows; applyOutcome switches it once the new one arrives.
+export const queueReanalysis = (memory: Memory, tasks: AnalysisTask[], language: Language, now: number = Date.now()): Memory => ({
+  ...memory,
+  pending: { tasks, status: "pending", attempts: 0, nextAttemptAt: now, language },
+});
+
+// The language a queued analysis is written in
+export const targetLanguage = (memory: Memory, fallback: Language): Language =>
+  memory.pending?.language ?? memory.language ?? fallback;
+
+export const clearPending = (memory: Memory): Memory => {
+  const { pending: _, ...rest } = memory;
+  return rest;
+};
+
+// New artwork for a finished memory, from an edited prompt and/or another style
+export const queueArtwork = (memory: Memory, prompt: string, style: ArtStyleId, now: number = Date.now()): Memory => ({
+  ...memory,
+  pending: { tasks: ["image"], status: "pending", attempts: 0, nextAttemptAt: now, image: { prompt, style } },
+});
+
+// Manual retry: start over with a fresh set of attempts
+export const retryAnalysis = (memory: Memory, now: number = Date.now()): Memory => {
+  if (!memory.pending) return memory;
+  const { tasks, image, language } = memory.pending;
+  return { ...memory, pending: { tasks, status: "pending", attempts: 0, nextAttemptAt: now, ...(image && { image }), ...(language && { language }) } };
+};
+
+const retryDelay = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+const recordFailure = (pending: PendingAnalysis, tasks: AnalysisTask[], error: unknown, now: number): PendingAnalysis => {
+  const attempts = pending.attempts + 1;
+  return {
+    ...pending,
+    tasks,
+    status: attempts >= MAX_AUTO_ATTEMPTS ? "failed" : "pending",
+    attempts,
+    nextAttemptAt: now + retryDelay(attempts),
+    lastError: error instanceof Error ? error.message : String(error),
+  };
+};
+
+export const isDue = (memory: Memory, now: number) =>
+  memory.pending?.status === "pending" && memory.pending.nextAttemptAt <= now;
+
+// Earliest time any queued memory wants another attempt
+export const nextAttemptAt = (memories: Memory[]): number | null =>
+  memories.reduce<number | null>((earliest, memory) => {
+    if (memory.pending?.status !== "pending") return earliest;
+    return earliest === null ? memory.pending.nextAttemptAt : Math.min(earliest, memory.pending.nextAttemptAt);
+  }, null);
+
+export interface AnalysisJobContext {
+  language: Language; // for memories recorded before the language was saved
+  tags: TagDefinition[];
+  examples: PersonalExample[];
+}
+
+// What a run produced; fields are only set for tasks that succeeded
+export interface AnalysisOutcome {
+  analysis?: AnalysisResult;
+  language?: Language; // what the analysis was written in
+  image?: ImageVariant;
+  pending?: PendingAnalysis; // set when tasks remain
+}
+
+// Runs the memory's remaining tasks in order. Whatever succeeded is kept even
+// if a later task fails, and a failed task leaves the previous analysis or
+// artwork in place.
+export const runAnalysis = async (memory: Memory, context: AnalysisJobContext, now: () => number = Date.now): Promise<AnalysisOutcome> => {
+  const pending = memory.pending;
+  if (!pending) return {};
+
+  const language = targetLanguage(memory, context.language);
+  const outcome: AnalysisOutcome = {};
+  let remaining = pending.tasks;
+  try {
+    for (const task of pending.tasks) {
+      if (task === "analysis") {
+        outcome.analysis = await analyzeMemory(
+          memory.content, memory.song, memory.moodScore, memory.energy, tagLabels(memory.moodTags, language, context.tags),
+          new Date(memory.timestamp), language,
+          { examples: context.examples, correction: memory.userCorrection }
+        );
+        outcome.language = language;
+      } else {
+        const { prompt, style } = pending.image ?? {
+          prompt: (outcome.analysis ?? memory.analysis).imagePrompt,
+          style: "classic" as const,
+        };
+        const url = await generateMemoryImage(prompt, style);
+        outcome.image = { url, prompt, style, createdAt: now() };
+      }
+      remaining = remaining.slice(1);
+    }
+    return outcome;
+  } catch (error) {
+    console.error(`Error running ${remaining[0]} for memory ${memory.id}:`, error);
+    return { ...outcome, pending: recordFailure(pending, remaining, error, now()) };
+  }
+};
+
+// Puts an outcome onto the latest copy of the memory, unless it was
+// re-queued (or its queue cleared) while the job ran. A new analysis brings
+// the language it was written in.
+export const applyOutcome = (memory: Memory, queued: PendingAnalysis, outcome: AnalysisOutcome): Memory => {
+  if (memory.pending !== queued) return memory;
+  let updated = outcome.analysis
+    ? { ...withAnalysis(memory, outcome.analysis), language: outcome.language }
+    : memory;
+  if (outcome.image) updated = addVariant(updated, outcome.image);
+  return outcome.pending ? { ...updated, pending: outcome.pending } : clearPending(updated);
+};
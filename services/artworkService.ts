@@ -0,0 +1,27 @@
+import { Memory, ImageVariant } from "../types";
+
+// Older variants beyond this are dropped (never the cover)
+export const MAX_VARIANTS = 8;
+
+// The memory's artwork, oldest first. Memories from before the gallery
+// existed, or whose cover came back from a revision, still list their cover.
+export const galleryOf = (memory: Memory): ImageVariant[] => {
+  const variants = (memory.imageVariants ?? []).filter((variant) => variant.url);
+  if (!memory.imageUrl || variants.some((variant) => variant.url === memory.imageUrl)) return variants;
+  return [
+    { url: memory.imageUrl, prompt: memory.analysis.imagePrompt, style: "classic", createdAt: memory.timestamp },
+    ...variants,
+  ];
+};
+
+// A new variant becomes the cover; the user can switch back from the gallery
+export const addVariant = (memory: Memory, variant: ImageVariant): Memory => {
+  const variants = [...galleryOf(memory), variant];
+  while (variants.length > MAX_VARIANTS) {
+    variants.splice(variants.findIndex((v) => v.url !== variant.url), 1);
+  }
+  return { ...memory, imageUrl: variant.url, imageVariants: variants };
+};
+
+export const selectCover = (memory: Memory, url: string): Memory =>
+  galleryOf(memory).some((variant) => variant.url === url) ? { ...memory, imageUrl: url, imageVariants: galleryOf(memory) } : memory;
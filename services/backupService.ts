@@ -0,0 +1,406 @@
+import { Memory, MemoryRevision, AnalysisResult, UserSongInput, TagDefinition, PendingAnalysis, ImageVariant, ArtStyleId, Recap, RecapStats, RecapRanking, RecapArcPoint, RecapHighlight } from "../types";
+import { SCHEMA_VERSION, mapMemoryImages } from "./storageService";
+import { toTagIds } from "./tagService";
+import { ART_STYLES } from "./ai/prompts";
+import { withEnergy } from "./moodService";
+import { newKeyParams, deriveKey, isAcceptedIterations, seal, unseal, toBase64, fromBase64 } from "./cryptoService";
+import { isLanguage } from "../i18n";
+
+const BACKUP_FORMAT = "music-diary-backup";
+const ENCRYPTED_FORMAT = "music-diary-backup-encrypted";
+// v2 added the tag list, v3 the recaps, v4 the energy axis of the mood
+export const BACKUP_VERSION = 4;
+
+// A single self-contained file: images are embedded as data URLs
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: number;
+  memories: Memory[];
+  tags?: TagDefinition[];
+  recaps?: Recap[];
+}
+
+// A whole BackupArchive sealed with a passphrase of its own, so it can be
+// opened on another device without the diary's lock
+interface EncryptedArchive {
+  format: typeof ENCRYPTED_FORMAT;
+  salt: string; // base64, like iv and data
+  iterations: number;
+  iv: string;
+  data: string;
+}
+
+export interface ParsedBackup {
+  memories: Memory[];
+  tags: TagDefinition[];
+  recaps: Recap[];
+}
+
+export interface ImportConflict {
+  existing: Memory;
+  incoming: Memory;
+}
+
+export interface ImportPlan {
+  added: Memory[];
+  identical: Memory[];
+  conflicts: ImportConflict[];
+  newTags: TagDefinition[]; // tags the diary doesn't have yet; existing ones are left alone
+  newRecaps: Recap[]; // likewise for recaps of periods the diary has none for
+}
+
+// Per conflicting id: true keeps the archive's version
+export type ConflictResolution = Record<string, boolean>;
+
+export type BackupErrorReason = "parse" | "format" | "newer" | "passphrase";
+
+export class BackupError extends Error {
+  constructor(public readonly reason: BackupErrorReason, message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Object URLs only live as long as the page, so inline the bytes
+export const withEmbeddedImage = async (memory: Memory): Promise<Memory> => {
+  const objectUrls = new Set<string>();
+  mapMemoryImages(memory, (url) => {
+    if (url.startsWith("blob:")) objectUrls.add(url);
+    return url;
+  });
+  const dataUrls = new Map<string, string>();
+  for (const url of objectUrls) {
+    const response = await fetch(url);
+    dataUrls.set(url, await blobToDataUrl(await response.blob()));
+  }
+  return mapMemoryImages(memory, (url) => dataUrls.get(url) ?? url);
+};
+
+const archiveJson = async (memories: Memory[], tags: TagDefinition[], recaps: Recap[]): Promise<string> => {
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    memories: await Promise.all(memories.map(withEmbeddedImage)),
+    tags,
+    recaps,
+  };
+  return JSON.stringify(archive);
+};
+
+export const createBackup = async (memories: Memory[], tags: TagDefinition[], recaps: Recap[]): Promise<Blob> =>
+  new Blob([await archiveJson(memories, tags, recaps)], { type: "application/json" });
+
+export const createEncryptedBackup = async (
+  memories: Memory[],
+  tags: TagDefinition[],
+  recaps: Recap[],
+  passphrase: string
+): Promise<Blob> => {
+  const params = newKeyParams();
+  const key = await deriveKey(passphrase, params);
+  const sealed = await seal(key, new TextEncoder().encode(await archiveJson(memories, tags, recaps)));
+  const archive: EncryptedArchive = {
+    format: ENCRYPTED_FORMAT,
+    salt: toBase64(params.salt),
+    iterations: params.iterations,
+    iv: toBase64(sealed.iv),
+    data: toBase64(new Uint8Array(sealed.data)),
+  };
+  return new Blob([JSON.stringify(archive)], { type: "application/json" });
+};
+
+export const backupFileName = (date: Date = new Date(), encrypted: boolean = false): string => {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  const day = date.getDate().toString().padStart(2, "0");
+  return `music-diary-backup-${year}-${month}-${day}${encrypted ? "-encrypted" : ""}.json`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isSong = (value: unknown): value is UserSongInput =>
+  isRecord(value) &&
+  typeof value.artist === "string" &&
+  typeof value.title === "string" &&
+  (value.trackUrl === undefined || typeof value.trackUrl === "string");
+
+const isAnalysis = (value: unknown): value is AnalysisResult =>
+  isRecord(value) &&
+  typeof value.inferredEmotion === "string" &&
+  typeof value.analysisText === "string" &&
+  typeof value.moodColor === "string" &&
+  typeof value.imagePrompt === "string";
+
+const isTranslations = (value: unknown) =>
+  isRecord(value) &&
+  Object.entries(value).every(([language, translation]) =>
+    isLanguage(language) &&
+    isRecord(translation) &&
+    typeof translation.inferredEmotion === "string" &&
+    typeof translation.analysisText === "string");
+
+// Entries from before the language was saved have none
+const isOptionalLanguage = (value: unknown) => value === undefined || isLanguage(value);
+
+// Likewise for energy, filled in from the score on import
+const isOptionalEnergy = (value: unknown) => value === undefined || typeof value === "number";
+
+const isRevision = (value: unknown): value is MemoryRevision =>
+  isRecord(value) &&
+  typeof value.editedAt === "number" &&
+  typeof value.content === "string" &&
+  typeof value.moodScore === "number" &&
+  isOptionalEnergy(value.energy) &&
+  Array.isArray(value.moodTags) &&
+  value.moodTags.every((tag) => typeof tag === "string") &&
+  typeof value.timestamp === "number" &&
+  isSong(value.song) &&
+  isAnalysis(value.analysis) &&
+  (value.imageUrl === undefined || typeof value.imageUrl === "string") &&
+  isOptionalLanguage(value.language);
+
+const isArtStyle = (value: unknown): value is ArtStyleId => ART_STYLES.includes(value as ArtStyleId);
+
+const isVariant = (value: unknown): value is ImageVariant =>
+  isRecord(value) &&
+  typeof value.url === "string" &&
+  typeof value.prompt === "string" &&
+  isArtStyle(value.style) &&
+  typeof value.createdAt === "number";
+
+const isPending = (value: unknown): value is PendingAnalysis =>
+  isRecord(value) &&
+  Array.isArray(value.tasks) &&
+  value.tasks.every((task) => task === "analysis" || task === "image") &&
+  (value.status === "pending" || value.status === "failed") &&
+  typeof value.attempts === "number" &&
+  typeof value.nextAttemptAt === "number" &&
+  (value.lastError === undefined || typeof value.lastError === "string") &&
+  (value.image === undefined || (isRecord(value.image) && typeof value.image.prompt === "string" && isArtStyle(value.image.style))) &&
+  isOptionalLanguage(value.language);
+
+const isTag = (value: unknown): value is TagDefinition =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  isRecord(value.label) &&
+  typeof value.label.ja === "string" &&
+  typeof value.label.en === "string" &&
+  (value.label.ko === undefined || typeof value.label.ko === "string") &&
+  (value.label.zh === undefined || typeof value.label.zh === "string") &&
+  (value.color === undefined || typeof value.color === "string") &&
+  (value.archived === undefined || typeof value.archived === "boolean") &&
+  (value.custom === undefined || typeof value.custom === "boolean");
+
+const isRanking = (value: unknown): value is RecapRanking =>
+  isRecord(value) &&
+  typeof value.label === "string" &&
+  (value.sublabel === undefined || typeof value.sublabel === "string") &&
+  typeof value.count === "number" &&
+  typeof value.averageMood === "number";
+
+const isArcPoint = (value: unknown): value is RecapArcPoint =>
+  isRecord(value) &&
+  typeof value.start === "number" &&
+  typeof value.count === "number" &&
+  (value.averageMood === null || typeof value.averageMood === "number");
+
+const isHighlight = (value: unknown): value is RecapHighlight =>
+  isRecord(value) &&
+  typeof value.memoryId === "string" &&
+  typeof value.timestamp === "number" &&
+  typeof value.moodScore === "number" &&
+  isSong(value.song) &&
+  typeof value.emotion === "string";
+
+// The stats are shown as stored, so everything the recap panel reads is checked
+const isRecapStats = (value: unknown): value is RecapStats =>
+  isRecord(value) &&
+  typeof value.memoryCount === "number" &&
+  typeof value.averageMood === "number" &&
+  (value.averageEnergy === undefined || typeof value.averageEnergy === "number") &&
+  Array.isArray(value.topSongs) && value.topSongs.every(isRanking) &&
+  Array.isArray(value.topArtists) && value.topArtists.every(isRanking) &&
+  Array.isArray(value.topTags) &&
+  value.topTags.every((entry) => isRecord(entry) && typeof entry.tag === "string" && typeof entry.count === "number") &&
+  Array.isArray(value.moodArc) && value.moodArc.every(isArcPoint) &&
+  (value.highest === undefined || isHighlight(value.highest)) &&
+  (value.lowest === undefined || isHighlight(value.lowest));
+
+const isRecap = (value: unknown): value is Recap =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  (value.period === "month" || value.period === "year") &&
+  typeof value.start === "number" &&
+  typeof value.createdAt === "number" &&
+  isLanguage(value.language) &&
+  typeof value.letter === "string" &&
+  isRecapStats(value.stats);
+
+export const isMemory = (value: unknown): value is Memory =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.content === "string" &&
+  typeof value.moodScore === "number" &&
+  isOptionalEnergy(value.energy) &&
+  Array.isArray(value.moodTags) &&
+  value.moodTags.every((tag) => typeof tag === "string") &&
+  typeof value.timestamp === "number" &&
+  Number.isFinite(value.timestamp) &&
+  isSong(value.song) &&
+  isAnalysis(value.analysis) &&
+  (value.imageUrl === undefined || typeof value.imageUrl === "string") &&
+  (value.userFeedback === undefined ||
+    value.userFeedback === null ||
+    value.userFeedback === "correct" ||
+    value.userFeedback === "incorrect") &&
+  (value.userCorrection === undefined || typeof value.userCorrection === "string") &&
+  isOptionalLanguage(value.language) &&
+  (value.translations === undefined || isTranslations(value.translations)) &&
+  (value.revisions === undefined || (Array.isArray(value.revisions) && value.revisions.every(isRevision))) &&
+  (value.pending === undefined || isPending(value.pending)) &&
+  (value.imageVariants === undefined || (Array.isArray(value.imageVariants) && value.imageVariants.every(isVariant)));
+
+// Looks only at the head of the file, which holds every field but the data,
+// so plain archives aren't parsed twice
+export const isEncryptedBackup = (text: string): boolean => text.slice(0, 512).includes(`"${ENCRYPTED_FORMAT}"`);
+
+// The archive inside an encrypted backup, ready for parseBackup
+export const decryptBackup = async (text: string, passphrase: string): Promise<string> => {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new BackupError("parse", "Backup file is not valid JSON");
+  }
+  if (
+    !isRecord(archive) ||
+    archive.format !== ENCRYPTED_FORMAT ||
+    typeof archive.salt !== "string" ||
+    !isAcceptedIterations(archive.iterations) ||
+    typeof archive.iv !== "string" ||
+    typeof archive.data !== "string"
+  ) {
+    throw new BackupError("format", "Not an encrypted MusicDiary backup file");
+  }
+  const key = await deriveKey(passphrase, { salt: fromBase64(archive.salt), iterations: archive.iterations });
+  try {
+    const bytes = await unseal(key, { iv: fromBase64(archive.iv), data: fromBase64(archive.data).buffer as ArrayBuffer });
+    return new TextDecoder().decode(bytes);
+  } catch {
+    throw new BackupError("passphrase", "Wrong passphrase for this backup");
+  }
+};
+
+export const parseBackup = (text: string): ParsedBackup => {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    throw new BackupError("parse", "Backup file is not valid JSON");
+  }
+  if (!isRecord(archive) || archive.format !== BACKUP_FORMAT || !Array.isArray(archive.memories)) {
+    throw new BackupError("format", "Not a MusicDiary backup file");
+  }
+  if (typeof archive.version !== "number" || archive.version > BACKUP_VERSION) {
+    throw new BackupError("newer", `Unsupported backup version: ${archive.version}`);
+  }
+  const invalid = archive.memories.findIndex((memory) => !isMemory(memory));
+  if (invalid !== -1) {
+    throw new BackupError("format", `Memory #${invalid + 1} does not match the expected shape`);
+  }
+  const tags = archive.tags ?? [];
+  if (!Array.isArray(tags) || !tags.every(isTag)) {
+    throw new BackupError("format", "Tag list does not match the expected shape");
+  }
+  const recaps = archive.recaps ?? [];
+  if (!Array.isArray(recaps) || !recaps.every(isRecap)) {
+    throw new BackupError("format", "Recap list does not match the expected shape");
+  }
+  // Archives written before tags were stored by id carry localized labels,
+  // and those from before v4 a score without energy
+  const memories = (archive.memories as Memory[]).map((memory) => ({
+    ...withEnergy(memory),
+    moodTags: toTagIds(memory.moodTags),
+    ...(memory.revisions && {
+      revisions: memory.revisions.map((revision) => ({ ...withEnergy(revision), moodTags: toTagIds(revision.moodTags) })),
+    }),
+  }));
+  return { memories, tags, recaps };
+};
+
+const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (isRecord(a) && isRecord(b)) {
+    // Treat a missing key and an undefined value as the same thing
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => deepEqual(a[key], b[key]));
+  }
+  return false;
+};
+
+// An archive may repeat an id (hand-edited, or two exports pasted together);
+// the last entry wins, as it would had they been imported one after another
+const lastById = <T extends { id: string }>(items: T[]): T[] => [...new Map(items.map((item) => [item.id, item])).values()];
+
+// Splits the archive into entries that are new, already present unchanged,
+// or present with different content. Images are compared byte-for-byte.
+export const planImport = async (
+  existing: Memory[],
+  existingTags: TagDefinition[],
+  existingRecaps: Recap[],
+  backup: ParsedBackup
+): Promise<ImportPlan> => {
+  const byId = new Map(existing.map((memory) => [memory.id, memory]));
+  const knownTags = new Set(existingTags.map((tag) => tag.id));
+  const knownRecaps = new Set(existingRecaps.map((recap) => recap.id));
+  const plan: ImportPlan = {
+    added: [],
+    identical: [],
+    conflicts: [],
+    newTags: lastById(backup.tags).filter((tag) => !knownTags.has(tag.id)),
+    newRecaps: lastById(backup.recaps).filter((recap) => !knownRecaps.has(recap.id)),
+  };
+
+  for (const memory of lastById(backup.memories)) {
+    const current = byId.get(memory.id);
+    if (!current) {
+      plan.added.push(memory);
+    } else if (deepEqual(await withEmbeddedImage(current), memory)) {
+      plan.identical.push(memory);
+    } else {
+      plan.conflicts.push({ existing: current, incoming: memory });
+    }
+  }
+  return plan;
+};
+
+export const applyImport = (
+  existing: Memory[],
+  plan: ImportPlan,
+  resolution: ConflictResolution
+): Memory[] => {
+  const replacements = new Map(
+    plan.conflicts
+      .filter(({ incoming }) => resolution[incoming.id])
+      .map(({ incoming }) => [incoming.id, incoming])
+  );
+  return [...existing.map((memory) => replacements.get(memory.id) ?? memory), ...plan.added].sort(
+    (a, b) => b.timestamp - a.timestamp
+  );
+};
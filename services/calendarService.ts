@@ -0,0 +1,91 @@
+import { Memory } from "../types";
+import { toDateInputValue } from "../utils/date";
+import { hasAnalysis } from "./analysisQueue";
+
+// How a calendar day is drawn: artwork thumbnails, or a single tint from
+// the day's average mood or the blend of its analysis colors
+export type DayShading = "art" | "mood" | "color";
+
+// Memories grouped by local day, keyed like <input type="date"> values
+export const groupByDay = (memories: Memory[]): Map<string, Memory[]> => {
+  const days = new Map<string, Memory[]>();
+  for (const memory of memories) {
+    const key = toDateInputValue(new Date(memory.timestamp));
+    days.set(key, [...(days.get(key) ?? []), memory]);
+  }
+  return days;
+};
+
+// Memories from the same month and day in earlier years, newest first. In a
+// year without 29 February, that day's memories come up on the 28th.
+export const memoriesOnThisDay = (memories: Memory[], today: Date = new Date()): Memory[] => {
+  const month = today.getMonth();
+  const day = today.getDate();
+  const withLeapDay = month === 1 && day === 28 && new Date(today.getFullYear(), 1, 29).getMonth() !== 1;
+  return memories
+    .filter((memory) => {
+      const date = new Date(memory.timestamp);
+      return (
+        date.getFullYear() < today.getFullYear() &&
+        date.getMonth() === month &&
+        (date.getDate() === day || (withLeapDay && date.getDate() === 29))
+      );
+    })
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+const parseHex = (hex: string): [number, number, number] | null => {
+  const match = hex.match(/^#?([0-9a-f]{6})$/i);
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const toHex = (rgb: number[]) => `#${rgb.map((c) => Math.round(c).toString(16).padStart(2, "0")).join("")}`;
+
+const mix = (a: [number, number, number], b: [number, number, number], t: number) => a.map((c, i) => c + (b[i] - c) * t);
+
+// Same ends as the insights bars: indigo for unpleasant, orange for pleasant
+const COOL: [number, number, number] = [0x81, 0x8c, 0xf8];
+const NEUTRAL: [number, number, number] = [0xe7, 0xe5, 0xe4];
+const WARM: [number, number, number] = [0xfb, 0x92, 0x3c];
+// The other two corners of the valence × energy square
+const CALM: [number, number, number] = [0x2d, 0xd4, 0xbf];
+const TENSE: [number, number, number] = [0xfb, 0x71, 0x85];
+
+// Valence alone, for averages and rankings
+export const moodScoreColor = (score: number): string => {
+  const t = Math.max(-50, Math.min(50, score)) / 50;
+  return toHex(t < 0 ? mix(NEUTRAL, COOL, -t) : mix(NEUTRAL, WARM, t));
+};
+
+// Blends the four corners (low, calm, tense, excited) by position, then fades
+// toward neutral near the center
+export const moodPointColor = (valence: number, energy: number): string => {
+  const x = (Math.max(-50, Math.min(50, valence)) + 50) / 100;
+  const y = (Math.max(-50, Math.min(50, energy)) + 50) / 100;
+  const bottom = mix(COOL, CALM, x) as [number, number, number];
+  const top = mix(TENSE, WARM, x) as [number, number, number];
+  const corner = mix(bottom, top, y) as [number, number, number];
+  return toHex(mix(NEUTRAL, corner, Math.min(1, Math.hypot(valence, energy) / 50)));
+};
+
+export const averageMood = (memories: Memory[]): number =>
+  memories.reduce((sum, memory) => sum + memory.moodScore, 0) / memories.length;
+
+export const averageEnergy = (memories: Memory[]): number =>
+  memories.reduce((sum, memory) => sum + memory.energy, 0) / memories.length;
+
+// Averages the analysis colors in RGB; memories still waiting for an
+// analysis have no color of their own and fall back to their mood
+export const blendMoodColors = (memories: Memory[]): string => {
+  const colors = memories.map((memory) =>
+    (hasAnalysis(memory) && parseHex(memory.analysis.moodColor)) || parseHex(moodPointColor(memory.moodScore, memory.energy))!
+  );
+  return toHex([0, 1, 2].map((i) => colors.reduce((sum, rgb) => sum + rgb[i], 0) / colors.length));
+};
+
+export const dayTint = (memories: Memory[], shading: DayShading): string | null => {
+  if (memories.length === 0 || shading === "art") return null;
+  return shading === "mood" ? moodPointColor(averageMood(memories), averageEnergy(memories)) : blendMoodColors(memories);
+};
@@ -0,0 +1,115 @@
+import { Memory, UserSongInput, ArtistAlias, SongSuggestion } from "../types";
+import { artistRanking, songRanking, byPlayCount, normalizeName } from "./insightsService";
+
+const SUGGESTION_LIMIT = 8;
+
+// Maps a spelling to its canonical artist; unknown names are kept as typed
+export const canonicalArtist = (name: string, aliases: ArtistAlias[]): string => {
+  const key = normalizeName(name);
+  return aliases.find((alias) => normalizeName(alias.alias) === key)?.canonical ?? name.trim();
+};
+
+export const normalizeSong = (song: UserSongInput, aliases: ArtistAlias[]): UserSongInput => ({
+  ...song,
+  title: song.title.trim(),
+  artist: canonicalArtist(song.artist, aliases),
+});
+
+// Adding an alias replaces any earlier mapping for the same spelling. The
+// canonical name stops being an alias itself and whatever pointed at the old
+// spelling follows it, so chains can't form.
+export const addAlias = (aliases: ArtistAlias[], alias: string, canonical: string): ArtistAlias[] => {
+  const key = normalizeName(alias);
+  const target = canonical.trim();
+  const targetKey = normalizeName(target);
+  if (!key || !targetKey || key === targetKey) return aliases;
+  return [
+    ...aliases
+      .filter((entry) => normalizeName(entry.alias) !== key && normalizeName(entry.alias) !== targetKey)
+      .map((entry) => (normalizeName(entry.canonical) === key ? { ...entry, canonical: target } : entry)),
+    { alias: alias.trim(), canonical: target },
+  ];
+};
+
+export const removeAlias = (aliases: ArtistAlias[], alias: string): ArtistAlias[] =>
+  aliases.filter((entry) => entry.alias !== alias);
+
+const matches = (text: string, query: string) => normalizeName(text).includes(query);
+
+// History first (most recorded on top), then aliases whose spelling matches
+export const artistSuggestions = (memories: Memory[], aliases: ArtistAlias[], query: string): SongSuggestion[] => {
+  const q = normalizeName(query);
+  if (!q) return [];
+  const fromHistory = artistRanking(memories)
+    .sort(byPlayCount)
+    .filter((artist) => matches(artist.label, q))
+    .map((artist): SongSuggestion => ({ artist: artist.label, source: "history", count: artist.count }));
+  const fromAliases = aliases
+    .filter((alias) => matches(alias.alias, q))
+    .map((alias): SongSuggestion => ({ artist: alias.canonical, source: "history" }));
+  return dedupe([...fromHistory, ...fromAliases]).slice(0, SUGGESTION_LIMIT);
+};
+
+// Songs by the artist already entered come first
+export const songSuggestions = (memories: Memory[], query: string, artist = ""): SongSuggestion[] => {
+  const q = normalizeName(query);
+  if (!q) return [];
+  const artistKey = normalizeName(artist);
+  return songRanking(memories)
+    .sort(byPlayCount)
+    .filter((song) => matches(song.label, q))
+    .sort((a, b) => Number(normalizeName(b.sublabel ?? "") === artistKey) - Number(normalizeName(a.sublabel ?? "") === artistKey))
+    .slice(0, SUGGESTION_LIMIT)
+    .map((song): SongSuggestion => ({ title: song.label, artist: song.sublabel ?? "", source: "history", count: song.count }));
+};
+
+const suggestionKey = (suggestion: SongSuggestion) =>
+  `${normalizeName(suggestion.artist)}\u0000${normalizeName(suggestion.title ?? "")}`;
+
+// Keeps the first of each song or artist, so history wins over the catalog
+export const dedupe = (suggestions: SongSuggestion[]): SongSuggestion[] => {
+  const seen = new Set<string>();
+  return suggestions.filter((suggestion) => {
+    const key = suggestionKey(suggestion);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export interface ArtistSpelling {
+  name: string; // exactly as stored
+  count: number;
+}
+
+// Every distinct spelling in the diary, so variants can be picked for a merge
+export const artistSpellings = (memories: Memory[]): ArtistSpelling[] => {
+  const counts = new Map<string, number>();
+  for (const memory of memories) {
+    counts.set(memory.song.artist, (counts.get(memory.song.artist) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => a.name.localeCompare(b.name) || b.count - a.count);
+};
+
+// Rewrites the artist of every memory spelled like one of `names`. This is a
+// cleanup of metadata, so unlike an edit it adds no revision and keeps the
+// analysis; each merged spelling also becomes an alias for future entries.
+export const mergeArtists = (
+  memories: Memory[],
+  aliases: ArtistAlias[],
+  names: string[],
+  canonical: string
+): { memories: Memory[]; aliases: ArtistAlias[] } => {
+  const target = canonical.trim();
+  const merged = new Set(names);
+  return {
+    memories: memories.map((memory) =>
+      merged.has(memory.song.artist) && memory.song.artist !== target
+        ? { ...memory, song: { ...memory.song, artist: target } }
+        : memory
+    ),
+    aliases: names.reduce((result, name) => addAlias(result, name, target), aliases),
+  };
+};
@@ -0,0 +1,94 @@
+// WebCrypto helpers for the diary lock and encrypted backups: AES-GCM with a
+// key derived from the passphrase by PBKDF2-SHA-256. Keys are never
+// extractable, so the passphrase is needed again after a reload or a lock.
+
+export interface KeyParams {
+  salt: Uint8Array;
+  iterations: number;
+}
+
+// Ciphertext with the IV it was sealed under; stored as is in IndexedDB
+export interface Sealed {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+// OWASP's current recommendation for PBKDF2-SHA-256
+const PBKDF2_ITERATIONS = 600_000;
+// Iteration counts read from a file are held to this range, so a crafted
+// backup can't make deriving the key useless or hang the tab
+const MIN_ITERATIONS = 100_000;
+const MAX_ITERATIONS = 10_000_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+// Checked by the forms that set a passphrase; unlocking accepts anything
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const newKeyParams = (): KeyParams => ({
+  salt: crypto.getRandomValues(new Uint8Array(SALT_BYTES)),
+  iterations: PBKDF2_ITERATIONS,
+});
+
+export const isAcceptedIterations = (value: unknown): value is number =>
+  Number.isSafeInteger(value) && (value as number) >= MIN_ITERATIONS && (value as number) <= MAX_ITERATIONS;
+
+export const deriveKey = async (passphrase: string, params: KeyParams): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey("raw", encoder.encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: params.salt, iterations: params.iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+export const seal = async (key: CryptoKey, bytes: BufferSource): Promise<Sealed> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  return { iv, data: await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, bytes) };
+};
+
+// Rejects with an OperationError when the key is wrong or the data was altered
+export const unseal = (key: CryptoKey, sealed: Sealed): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: "AES-GCM", iv: sealed.iv }, key, sealed.data);
+
+export const sealJson = (key: CryptoKey, value: unknown): Promise<Sealed> => seal(key, encoder.encode(JSON.stringify(value)));
+
+export const unsealJson = async <T>(key: CryptoKey, sealed: Sealed): Promise<T> => JSON.parse(decoder.decode(await unseal(key, sealed)));
+
+// A fixed text sealed with the key, so a passphrase can be checked without
+// touching the diary itself
+const CHECK_TEXT = "music-diary";
+
+export const sealCheck = (key: CryptoKey): Promise<Sealed> => seal(key, encoder.encode(CHECK_TEXT));
+
+export const matchesCheck = async (key: CryptoKey, check: Sealed): Promise<boolean> => {
+  try {
+    return decoder.decode(await unseal(key, check)) === CHECK_TEXT;
+  } catch {
+    return false;
+  }
+};
+
+// For the JSON of an encrypted backup
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string): Uint8Array => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
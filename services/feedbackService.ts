@@ -0,0 +1,34 @@
+import { Memory, Language, TagDefinition } from "../types";
+import { PersonalExample } from "./ai/prompts";
+import { tagLabels } from "./tagService";
+
+export const MAX_PERSONAL_EXAMPLES = 6;
+
+// The emotion the user stands behind for this memory, if any: their own
+// correction first, otherwise an analysis they marked as right
+export const confirmedEmotion = (memory: Memory): string | null => {
+  if (memory.userCorrection) return memory.userCorrection;
+  if (memory.userFeedback === "correct") return memory.analysis.inferredEmotion;
+  return null;
+};
+
+// Most recent confirmed or corrected memories, corrections first since they
+// carry the most signal about how the user describes themselves
+export const selectPersonalExamples = (
+  memories: Memory[],
+  language: Language,
+  tags: TagDefinition[],
+  excludeId?: string,
+  limit: number = MAX_PERSONAL_EXAMPLES
+): PersonalExample[] =>
+  memories
+    .filter((memory) => memory.id !== excludeId && confirmedEmotion(memory) !== null)
+    .sort((a, b) => Number(!!b.userCorrection) - Number(!!a.userCorrection) || b.timestamp - a.timestamp)
+    .slice(0, limit)
+    .map((memory) => ({
+      song: memory.song,
+      moodScore: memory.moodScore,
+      energy: memory.energy,
+      moodTags: tagLabels(memory.moodTags, language, tags),
+      emotion: confirmedEmotion(memory)!,
+    }));
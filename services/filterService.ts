@@ -0,0 +1,95 @@
+import { Memory, Language } from "../types";
+import { parseDateInput } from "../utils/date";
+
+export type FeedbackFilter = "any" | "correct" | "incorrect" | "none";
+
+export interface MemoryFilter {
+  query: string;
+  tags: string[]; // a memory must carry every selected tag
+  moodMin: number;
+  moodMax: number;
+  dateFrom: string; // YYYY-MM-DD, inclusive; empty for no bound
+  dateTo: string;
+  feedback: FeedbackFilter;
+  language: Language | "any";
+}
+
+export const MOOD_MIN = -50;
+export const MOOD_MAX = 50;
+
+export const EMPTY_FILTER: MemoryFilter = {
+  query: "",
+  tags: [],
+  moodMin: MOOD_MIN,
+  moodMax: MOOD_MAX,
+  dateFrom: "",
+  dateTo: "",
+  feedback: "any",
+  language: "any",
+};
+
+// Case- and width-insensitive (全角/半角), enough for casual search
+const normalize = (text: string) => text.normalize("NFKC").toLowerCase();
+
+const searchableText = (memory: Memory) =>
+  normalize(
+    [
+      memory.content,
+      memory.analysis.analysisText,
+      memory.analysis.inferredEmotion,
+      memory.song.title,
+      memory.song.artist,
+    ].join("\n")
+  );
+
+export const countActiveFilters = (filter: MemoryFilter): number =>
+  [
+    filter.query.trim() !== "",
+    filter.tags.length > 0,
+    filter.moodMin > MOOD_MIN || filter.moodMax < MOOD_MAX,
+    filter.dateFrom !== "" || filter.dateTo !== "",
+    filter.feedback !== "any",
+    filter.language !== "any",
+  ].filter(Boolean).length;
+
+export const matchesFilter = (memory: Memory, filter: MemoryFilter): boolean => {
+  const terms = normalize(filter.query).split(/\s+/).filter(Boolean);
+  if (terms.length > 0) {
+    const text = searchableText(memory);
+    if (!terms.every((term) => text.includes(term))) return false;
+  }
+
+  if (filter.tags.length > 0 && !filter.tags.every((tag) => memory.moodTags?.includes(tag))) return false;
+
+  if (memory.moodScore < filter.moodMin || memory.moodScore > filter.moodMax) return false;
+
+  if (filter.dateFrom && memory.timestamp < parseDateInput(filter.dateFrom).getTime()) return false;
+  if (filter.dateTo) {
+    const end = parseDateInput(filter.dateTo);
+    end.setDate(end.getDate() + 1);
+    if (memory.timestamp >= end.getTime()) return false;
+  }
+
+  if (filter.feedback !== "any") {
+    const feedback = memory.userFeedback ?? "none";
+    if (feedback !== filter.feedback) return false;
+  }
+
+  if (filter.language !== "any" && (memory.language ?? "ja") !== filter.language) return false;
+
+  return true;
+};
+
+export const filterMemories = (memories: Memory[], filter: MemoryFilter): Memory[] =>
+  countActiveFilters(filter) === 0 ? memories : memories.filter((memory) => matchesFilter(memory, filter));
+
+// Every tag that appears in the diary, most used first
+export const collectTags = (memories: Memory[]): string[] => {
+  const counts = new Map<string, number>();
+  for (const memory of memories) {
+    for (const tag of memory.moodTags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([tag]) => tag);
+};
@@ -0,0 +1,134 @@
+import { Memory } from "../types";
+
+// Everything here is derived from stored memories; no AI calls.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEK_WINDOW_DAYS = 7;
+export const MONTH_WINDOW_DAYS = 30;
+
+export interface MoodPoint {
+  timestamp: number;
+  score: number;
+  color: string;
+  weeklyAverage: number;
+  monthlyAverage: number;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export interface TagPair {
+  a: string;
+  b: string;
+  count: number;
+}
+
+export interface MoodRanking {
+  key: string;
+  label: string;
+  sublabel?: string;
+  count: number;
+  averageMood: number;
+}
+
+export interface WeekdayMood {
+  weekday: number; // 0 = Sunday, like Date#getDay
+  count: number;
+  averageMood: number | null;
+}
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Trailing moving averages over calendar windows, so gaps between entries
+// shrink the window instead of stretching it
+export const moodTrend = (memories: Memory[]): MoodPoint[] => {
+  const sorted = [...memories].sort((a, b) => a.timestamp - b.timestamp);
+  const windowAverage = (index: number, days: number) => {
+    const since = sorted[index].timestamp - days * DAY_MS;
+    const scores: number[] = [];
+    for (let i = index; i >= 0 && sorted[i].timestamp > since; i--) {
+      scores.push(sorted[i].moodScore);
+    }
+    return average(scores);
+  };
+  return sorted.map((memory, index) => ({
+    timestamp: memory.timestamp,
+    score: memory.moodScore,
+    color: memory.analysis.moodColor,
+    weeklyAverage: windowAverage(index, WEEK_WINDOW_DAYS),
+    monthlyAverage: windowAverage(index, MONTH_WINDOW_DAYS),
+  }));
+};
+
+export const tagFrequency = (memories: Memory[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  for (const memory of memories) {
+    for (const tag of new Set(memory.moodTags ?? [])) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count);
+};
+
+// Pairs of tags chosen together on the same memory
+export const tagCooccurrence = (memories: Memory[]): TagPair[] => {
+  const counts = new Map<string, TagPair>();
+  for (const memory of memories) {
+    const tags = [...new Set(memory.moodTags ?? [])].sort();
+    for (let i = 0; i < tags.length; i++) {
+      for (let j = i + 1; j < tags.length; j++) {
+        const key = `${tags[i]}\u0000${tags[j]}`;
+        const pair = counts.get(key) ?? { a: tags[i], b: tags[j], count: 0 };
+        pair.count++;
+        counts.set(key, pair);
+      }
+    }
+  }
+  return [...counts.values()].sort((a, b) => b.count - a.count);
+};
+
+// Case, full/half width and stray spaces don't make a different name
+export const normalizeName = (name: string) => name.normalize("NFKC").trim().toLowerCase();
+
+const rank = (memories: Memory[], keyOf: (m: Memory) => string, describe: (m: Memory) => Pick<MoodRanking, "label" | "sublabel">) => {
+  const groups = new Map<string, Memory[]>();
+  for (const memory of memories) {
+    const key = keyOf(memory);
+    const group = groups.get(key);
+    if (group) group.push(memory);
+    else groups.set(key, [memory]);
+  }
+  return [...groups.entries()].map(([key, group]): MoodRanking => ({
+    key,
+    // Show the most recent spelling
+    ...describe(group.reduce((latest, m) => (m.timestamp > latest.timestamp ? m : latest))),
+    count: group.length,
+    averageMood: average(group.map((m) => m.moodScore)),
+  }));
+};
+
+export const artistRanking = (memories: Memory[]): MoodRanking[] =>
+  rank(memories, (m) => normalizeName(m.song.artist), (m) => ({ label: m.song.artist }));
+
+export const songKey = (memory: Memory) => `${normalizeName(memory.song.artist)}\u0000${normalizeName(memory.song.title)}`;
+
+export const songRanking = (memories: Memory[]): MoodRanking[] =>
+  rank(
+    memories,
+    songKey,
+    (m) => ({ label: m.song.title, sublabel: m.song.artist })
+  );
+
+export const byPlayCount = (a: MoodRanking, b: MoodRanking) => b.count - a.count || b.averageMood - a.averageMood;
+
+export const byAverageMood = (a: MoodRanking, b: MoodRanking) => b.averageMood - a.averageMood || b.count - a.count;
+
+export const weekdayMood = (memories: Memory[]): WeekdayMood[] =>
+  Array.from({ length: 7 }, (_, weekday) => {
+    const scores = memories.filter((m) => new Date(m.timestamp).getDay() === weekday).map((m) => m.moodScore);
+    return { weekday, count: scores.length, averageMood: scores.length ? average(scores) : null };
+  });
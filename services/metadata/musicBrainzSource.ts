@@ -0,0 +1,52 @@
+import { MetadataSettings, SongSuggestion } from "../../types";
+import { MetadataSource } from "./source";
+
+// The public MusicBrainz web service; a local mirror or a stub answering the
+// same /recording and /artist searches can be configured instead
+export const MUSICBRAINZ_DEFAULT_ENDPOINT = "https://musicbrainz.org/ws/2";
+
+const RESULT_LIMIT = 8;
+
+interface RecordingSearch {
+  recordings?: { title?: string; "artist-credit"?: { name?: string; joinphrase?: string }[] }[];
+}
+
+interface ArtistSearch {
+  artists?: { name?: string }[];
+}
+
+// Lucene syntax characters would otherwise change the meaning of the query
+const escapeQuery = (text: string) => text.replace(/[+\-&|!(){}[\]^"~*?:\\/]/g, "\\$&");
+
+const search = async <T>(settings: MetadataSettings, entity: string, query: string, signal?: AbortSignal): Promise<T> => {
+  const endpoint = (settings.endpoint || MUSICBRAINZ_DEFAULT_ENDPOINT).replace(/\/+$/, "");
+  const params = new URLSearchParams({ query, fmt: "json", limit: String(RESULT_LIMIT) });
+  const response = await fetch(`${endpoint}/${entity}?${params}`, { headers: { Accept: "application/json" }, signal });
+  if (!response.ok) {
+    throw new Error(`${entity} search failed with ${response.status}: ${await response.text()}`);
+  }
+  return response.json();
+};
+
+const creditedArtist = (credits: { name?: string; joinphrase?: string }[] = []) =>
+  credits.map((credit) => `${credit.name ?? ""}${credit.joinphrase ?? ""}`).join("").trim();
+
+export const createMusicBrainzSource = (settings: MetadataSettings): MetadataSource => ({
+  async searchSongs(query, signal) {
+    const result = await search<RecordingSearch>(settings, "recording", `recording:"${escapeQuery(query)}"`, signal);
+    return (result.recordings ?? [])
+      .map((recording): SongSuggestion => ({
+        title: recording.title ?? "",
+        artist: creditedArtist(recording["artist-credit"]),
+        source: "catalog",
+      }))
+      .filter((suggestion) => suggestion.title && suggestion.artist);
+  },
+
+  async searchArtists(query, signal) {
+    const result = await search<ArtistSearch>(settings, "artist", `artist:"${escapeQuery(query)}"`, signal);
+    return (result.artists ?? [])
+      .filter((artist) => artist.name)
+      .map((artist): SongSuggestion => ({ artist: artist.name!, source: "catalog" }));
+  },
+});
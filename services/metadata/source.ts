@@ -0,0 +1,9 @@
+import { MetadataSettings, SongSuggestion } from "../../types";
+
+export interface MetadataSource {
+  // Both reject on failure; suggestions are a nicety, so callers just show fewer
+  searchSongs(query: string, signal?: AbortSignal): Promise<SongSuggestion[]>;
+  searchArtists(query: string, signal?: AbortSignal): Promise<SongSuggestion[]>;
+}
+
+export type MetadataSourceFactory = (settings: MetadataSettings) => MetadataSource;
@@ -0,0 +1,20 @@
+import { MetadataSettings, MetadataSourceId, SongSuggestion } from "../types";
+import { MetadataSource, MetadataSourceFactory } from "./metadata/source";
+import { createMusicBrainzSource } from "./metadata/musicBrainzSource";
+
+const SOURCES: Record<Exclude<MetadataSourceId, "none">, MetadataSourceFactory> = {
+  musicbrainz: createMusicBrainzSource,
+};
+
+// Without a source only the diary's own history is suggested
+let source: MetadataSource | null = null;
+
+export const configureMetadata = (settings: MetadataSettings) => {
+  source = settings.source === "none" ? null : (SOURCES[settings.source]?.(settings) ?? null);
+};
+
+export const searchCatalogSongs = (query: string, signal?: AbortSignal): Promise<SongSuggestion[]> =>
+  source ? source.searchSongs(query, signal) : Promise.resolve([]);
+
+export const searchCatalogArtists = (query: string, signal?: AbortSignal): Promise<SongSuggestion[]> =>
+  source ? source.searchArtists(query, signal) : Promise.resolve([]);
@@ -0,0 +1,31 @@
+import { Language } from "../types";
+import { translator } from "../i18n";
+
+// Mood is recorded on two axes, both -50..+50: `moodScore` is the valence
+// (unpleasant to pleasant) and `energy` the arousal (calm to energetic)
+
+export type MoodQuadrant = "excited" | "content" | "tense" | "down" | "neutral";
+
+// Within this distance of the center neither axis says much
+const NEUTRAL_RADIUS = 10;
+
+export const moodQuadrant = (valence: number, energy: number): MoodQuadrant => {
+  if (Math.hypot(valence, energy) < NEUTRAL_RADIUS) return "neutral";
+  if (valence >= 0) return energy >= 0 ? "excited" : "content";
+  return energy >= 0 ? "tense" : "down";
+};
+
+// "Content (mood 20, energy -15)" in the UI language
+export const describeMood = (valence: number, energy: number, language: Language): string => {
+  const t = translator(language, "mood");
+  return t("valueText", { quadrant: t(moodQuadrant(valence, energy)), valence, energy });
+};
+
+export const clampMood = (value: number): number => Math.round(Math.max(-50, Math.min(50, value)));
+
+// The single score recorded before energy was added ran from quiet and sad to
+// lively and happy, so it lands on the diagonal: energy takes the same value
+export const withEnergy = <T extends { moodScore: number; energy?: number }>(record: T): T & { energy: number } => ({
+  ...record,
+  energy: typeof record.energy === "number" ? record.energy : record.moodScore,
+});
@@ -0,0 +1,124 @@
+import { Memory } from "../types";
+import { songKey } from "./insightsService";
+import { toDateInputValue } from "../utils/date";
+
+export type PlaylistFormat = "m3u8" | "xspf" | "csv";
+
+export const PLAYLIST_FORMATS: PlaylistFormat[] = ["m3u8", "xspf", "csv"];
+
+const MIME_TYPES: Record<PlaylistFormat, string> = {
+  m3u8: "audio/x-mpegurl",
+  xspf: "application/xspf+xml",
+  csv: "text/csv",
+};
+
+export interface PlaylistTrack {
+  title: string;
+  artist: string;
+  date: string; // YYYY-MM-DD of the first time it was recorded
+  emotion: string;
+  count: number; // how many memories in the selection share the song
+  url?: string; // the saved track link when it is a web address
+}
+
+// Track IDs only make sense with a service to read them against
+const webLink = (memory: Memory) => {
+  const link = memory.song.trackUrl?.trim();
+  return link && /^https?:\/\//i.test(link) ? link : undefined;
+};
+
+// One track per song in the order it first appears; repeats only bump the count
+export const playlistTracks = (memories: Memory[]): PlaylistTrack[] => {
+  const tracks = new Map<string, PlaylistTrack>();
+  for (const memory of [...memories].sort((a, b) => a.timestamp - b.timestamp)) {
+    const key = songKey(memory);
+    const track = tracks.get(key);
+    if (track) {
+      track.count++;
+      // Any repeat that has a link lends it to the track
+      track.url ??= webLink(memory);
+      continue;
+    }
+    tracks.set(key, {
+      title: memory.song.title.trim(),
+      artist: memory.song.artist.trim(),
+      date: toDateInputValue(new Date(memory.timestamp)),
+      emotion: memory.analysis.inferredEmotion,
+      count: 1,
+      url: webLink(memory),
+    });
+  }
+  return [...tracks.values()];
+};
+
+const describe = (track: PlaylistTrack) =>
+  [track.date, track.emotion, track.count > 1 ? `×${track.count}` : ""].filter(Boolean).join(" · ");
+
+// Comments and titles must stay on one line in M3U
+const singleLine = (text: string) => text.replace(/\s*[\r\n]+\s*/g, " ");
+
+// Without a saved link the location line repeats the "Artist - Title"
+// that players and import tools match songs by
+const toM3u = (tracks: PlaylistTrack[], title: string) =>
+  [
+    "#EXTM3U",
+    `#PLAYLIST:${singleLine(title)}`,
+    ...tracks.flatMap((track) => {
+      const name = singleLine(`${track.artist} - ${track.title}`);
+      return [`# ${singleLine(describe(track))}`, `#EXTINF:-1,${name}`, track.url ?? name];
+    }),
+    "",
+  ].join("\n");
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const toXspf = (tracks: PlaylistTrack[], title: string) =>
+  [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<playlist version="1" xmlns="http://xspf.org/ns/0/">`,
+    `  <title>${escapeXml(title)}</title>`,
+    `  <date>${new Date().toISOString()}</date>`,
+    `  <trackList>`,
+    ...tracks.map((track) =>
+      [
+        `    <track>`,
+        ...(track.url ? [`      <location>${escapeXml(track.url)}</location>`] : []),
+        `      <title>${escapeXml(track.title)}</title>`,
+        `      <creator>${escapeXml(track.artist)}</creator>`,
+        `      <annotation>${escapeXml(describe(track))}</annotation>`,
+        `    </track>`,
+      ].join("\n")
+    ),
+    `  </trackList>`,
+    `</playlist>`,
+    "",
+  ].join("\n");
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The byte order mark makes spreadsheet apps read the file as UTF-8
+const toCsv = (tracks: PlaylistTrack[]) =>
+  "\uFEFF" +
+  [
+    ["title", "artist", "date", "emotion", "count", "url"],
+    ...tracks.map((track) => [track.title, track.artist, track.date, track.emotion, track.count, track.url ?? ""]),
+  ]
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n") +
+  "\r\n";
+
+export const createPlaylist = (memories: Memory[], format: PlaylistFormat, title: string): Blob => {
+  const tracks = playlistTracks(memories);
+  const text = format === "m3u8" ? toM3u(tracks, title) : format === "xspf" ? toXspf(tracks, title) : toCsv(tracks);
+  return new Blob([text], { type: `${MIME_TYPES[format]};charset=utf-8` });
+};
+
+// Keeps the title readable while dropping characters file systems reject
+export const playlistFileName = (title: string, format: PlaylistFormat): string => {
+  const base = title.replace(/[\\/:*?"<>|]+/g, "").replace(/\s+/g, "-").replace(/^-+|-+$/g, "");
+  return `${base || "music-diary-playlist"}.${format}`;
+};
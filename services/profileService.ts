@@ -0,0 +1,55 @@
+import { Memory, Profile, TagDefinition, Language } from "../types";
+import { loadSetting, saveSetting, addToProfile, DEFAULT_PROFILE_ID } from "./storageService";
+import { loadTags, saveTags } from "./settingsService";
+import { mergeTags } from "./tagService";
+import { withEmbeddedImage } from "./backupService";
+import { translator } from "../i18n";
+
+// Kept with the default profile's settings, which always exist and are never
+// encrypted, so the list is there before any diary is unlocked
+const PROFILES_KEY = "profiles";
+
+export interface ProfileList {
+  profiles: Profile[];
+  activeId: string; // the profile opened on start
+}
+
+const DEFAULT_PROFILE: Profile = { id: DEFAULT_PROFILE_ID, name: "", createdAt: 0 };
+
+export const loadProfiles = async (): Promise<ProfileList> => {
+  const saved = await loadSetting<ProfileList>(PROFILES_KEY, DEFAULT_PROFILE_ID);
+  const profiles = saved?.profiles?.length ? saved.profiles : [DEFAULT_PROFILE];
+  const activeId = profiles.some((profile) => profile.id === saved?.activeId) ? saved!.activeId : profiles[0].id;
+  return { profiles, activeId };
+};
+
+export const saveProfiles = (list: ProfileList): Promise<void> => saveSetting(PROFILES_KEY, list, DEFAULT_PROFILE_ID);
+
+export const createProfile = (name: string): Profile => ({
+  id: Date.now().toString(36),
+  name: name.trim(),
+  createdAt: Date.now(),
+});
+
+// The default profile has no name until the user gives it one
+export const profileName = (profile: Profile, language: Language): string =>
+  profile.name || translator(language, "profiles")("defaultName");
+
+// Copies memories into another profile, images and all. Custom keywords they
+// use come along so they read the same there. Resolves false when that
+// profile is locked and the passphrase is missing or wrong.
+export const sendToProfile = async (
+  memories: Memory[],
+  profileId: string,
+  tags: TagDefinition[],
+  passphrase?: string
+): Promise<boolean> => {
+  const embedded = await Promise.all(memories.map(withEmbeddedImage));
+  if (!(await addToProfile(profileId, embedded, passphrase))) return false;
+
+  const used = new Set(memories.flatMap((memory) => memory.moodTags));
+  const theirs = await loadTags(profileId);
+  const missing = tags.filter((tag) => used.has(tag.id) && !theirs.some((known) => known.id === tag.id));
+  if (missing.length > 0) await saveTags(mergeTags(theirs, missing), profileId);
+  return true;
+};
@@ -0,0 +1,141 @@
+import { Memory, Recap, RecapPeriod, RecapStats, RecapArcPoint, RecapHighlight, Language, TagDefinition } from "../types";
+import { songRanking, artistRanking, tagFrequency, byPlayCount } from "./insightsService";
+import { tagLabel } from "./tagService";
+import { writeRecapLetter } from "./aiService";
+import { RecapRequest, promptLocale } from "./ai/prompts";
+import { formatDate, formatMessage, interpolate } from "../i18n";
+import { toDateInputValue } from "../utils/date";
+
+const TOP_COUNT = 5;
+const ARC_WEEK_DAYS = 7;
+
+// Local midnight of the first day of the period containing `date`
+export const recapStart = (period: RecapPeriod, date: Date): Date =>
+  period === "year" ? new Date(date.getFullYear(), 0, 1) : new Date(date.getFullYear(), date.getMonth(), 1);
+
+const recapEnd = (period: RecapPeriod, start: Date): Date =>
+  period === "year" ? new Date(start.getFullYear() + 1, 0, 1) : new Date(start.getFullYear(), start.getMonth() + 1, 1);
+
+// One recap per period, so regenerating replaces the old one
+export const recapId = (period: RecapPeriod, date: Date): string => {
+  const start = recapStart(period, date);
+  return period === "year" ? `year-${start.getFullYear()}` : `month-${toDateInputValue(start).slice(0, 7)}`;
+};
+
+export const memoriesInPeriod = (memories: Memory[], period: RecapPeriod, date: Date): Memory[] => {
+  const start = recapStart(period, date).getTime();
+  const end = recapEnd(period, recapStart(period, date)).getTime();
+  return memories.filter((m) => m.timestamp >= start && m.timestamp < end);
+};
+
+export const recapLabel = (period: RecapPeriod, start: number, language: Language): string =>
+  formatDate(start, language, period === "year" ? { year: "numeric" } : { year: "numeric", month: "long" });
+
+// Weeks counted from the 1st for a month (the last one may be short),
+// calendar months for a year
+const arcSegments = (period: RecapPeriod, start: Date): Date[] => {
+  if (period === "year") {
+    return Array.from({ length: 12 }, (_, month) => new Date(start.getFullYear(), month, 1));
+  }
+  const daysInMonth = new Date(start.getFullYear(), start.getMonth() + 1, 0).getDate();
+  return Array.from({ length: Math.ceil(daysInMonth / ARC_WEEK_DAYS) }, (_, week) =>
+    new Date(start.getFullYear(), start.getMonth(), 1 + week * ARC_WEEK_DAYS)
+  );
+};
+
+const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const toHighlight = (memory: Memory): RecapHighlight => ({
+  memoryId: memory.id,
+  timestamp: memory.timestamp,
+  moodScore: memory.moodScore,
+  song: memory.song,
+  emotion: memory.analysis.inferredEmotion,
+});
+
+export const computeRecapStats = (memories: Memory[], period: RecapPeriod, date: Date): RecapStats => {
+  const inPeriod = memoriesInPeriod(memories, period, date);
+  const start = recapStart(period, date);
+  const segments = arcSegments(period, start);
+  const boundaries = [...segments.slice(1), recapEnd(period, start)].map((d) => d.getTime());
+
+  const moodArc = segments.map((segment, i): RecapArcPoint => {
+    const scores = inPeriod
+      .filter((m) => m.timestamp >= segment.getTime() && m.timestamp < boundaries[i])
+      .map((m) => m.moodScore);
+    return { start: segment.getTime(), count: scores.length, averageMood: scores.length ? average(scores) : null };
+  });
+
+  // Ties go to the earlier day
+  const chronological = [...inPeriod].sort((a, b) => a.timestamp - b.timestamp);
+  const highest = chronological.reduce<Memory | undefined>((best, m) => (!best || m.moodScore > best.moodScore ? m : best), undefined);
+  const lowest = chronological.reduce<Memory | undefined>((worst, m) => (!worst || m.moodScore < worst.moodScore ? m : worst), undefined);
+
+  return {
+    memoryCount: inPeriod.length,
+    averageMood: inPeriod.length ? average(inPeriod.map((m) => m.moodScore)) : 0,
+    averageEnergy: inPeriod.length ? average(inPeriod.map((m) => m.energy)) : 0,
+    topSongs: songRanking(inPeriod).sort(byPlayCount).slice(0, TOP_COUNT).map(({ key: _, ...ranking }) => ranking),
+    topArtists: artistRanking(inPeriod).sort(byPlayCount).slice(0, TOP_COUNT).map(({ key: _, ...ranking }) => ranking),
+    topTags: tagFrequency(inPeriod).slice(0, TOP_COUNT),
+    moodArc,
+    ...(highest && { highest: toHighlight(highest) }),
+    // A single-entry period has no separate low point
+    ...(lowest && lowest !== highest && { lowest: toHighlight(lowest) }),
+  };
+};
+
+export const formatScore = (score: number) => `${score > 0 ? "+" : ""}${Math.round(score)}`;
+
+const toRecapRequest = (stats: RecapStats, period: RecapPeriod, start: Date, language: Language, tags: TagDefinition[]): RecapRequest => {
+  const items = promptLocale(language).recapItems;
+  const times = (count: number) => formatMessage(language, items.times, { count });
+  const day = (timestamp: number) => formatDate(timestamp, language, { month: "long", day: "numeric" });
+  const highlight = (h: RecapHighlight) => interpolate(items.highlight, {
+    date: day(h.timestamp),
+    title: h.song.title,
+    artist: h.song.artist,
+    score: formatScore(h.moodScore),
+    emotion: h.emotion ? interpolate(items.highlightEmotion, { emotion: h.emotion }) : "",
+  });
+
+  return {
+    lang: language,
+    periodLabel: recapLabel(period, start.getTime(), language),
+    isYear: period === "year",
+    memoryCount: stats.memoryCount,
+    averageMood: stats.averageMood,
+    averageEnergy: stats.averageEnergy ?? stats.averageMood,
+    topSongs: stats.topSongs.map((s) => interpolate(items.song, { title: s.label, artist: s.sublabel ?? "", times: times(s.count) })),
+    topArtists: stats.topArtists.map((a) => interpolate(items.counted, { label: a.label, times: times(a.count) })),
+    topTags: stats.topTags.map(({ tag, count }) => interpolate(items.counted, { label: tagLabel(tag, language, tags), times: times(count) })),
+    moodArc: stats.moodArc.map((point) => {
+      const label = formatDate(point.start, language, period === "year" ? { month: "short" } : { month: "short", day: "numeric" });
+      if (point.averageMood === null) return interpolate(items.arcEmpty, { label });
+      return formatMessage(language, items.arc, { label, score: formatScore(point.averageMood), count: point.count });
+    }),
+    highlights: [stats.highest, stats.lowest].filter((h): h is RecapHighlight => !!h).map(highlight),
+  };
+};
+
+// Rejects if the letter could not be written; nothing is saved in that case
+export const generateRecap = async (
+  memories: Memory[],
+  period: RecapPeriod,
+  date: Date,
+  language: Language,
+  tags: TagDefinition[]
+): Promise<Recap> => {
+  const start = recapStart(period, date);
+  const stats = computeRecapStats(memories, period, date);
+  const letter = await writeRecapLetter(toRecapRequest(stats, period, start, language, tags));
+  return {
+    id: recapId(period, date),
+    period,
+    start: start.getTime(),
+    createdAt: Date.now(),
+    language,
+    stats,
+    letter,
+  };
+};
@@ -0,0 +1,96 @@
+import { Memory, Language, TagDefinition, UserSongInput, SongRecommendation } from "../types";
+import { normalizeName } from "./insightsService";
+import { tagLabels } from "./tagService";
+import { recommendSongs } from "./aiService";
+
+export const MAX_HISTORY_MATCHES = 5;
+const AI_RECOMMENDATION_COUNT = 3;
+// The newest songs the prompt lists as already in the diary; the rest are
+// still filtered out of the answer
+const MAX_EXCLUDED_IN_PROMPT = 150;
+
+// How much a song moves up when the user agreed with its analyses, relative
+// to a perfect mood match (1)
+const CONFIRMED_WEIGHT = 0.3;
+
+// Corner to corner
+const MAX_MOOD_DISTANCE = Math.hypot(100, 100);
+
+export interface MoodMatch {
+  song: UserSongInput; // the most recent spelling
+  count: number;
+  confirmed: number; // memories whose analysis the user marked correct
+  rank: number;
+}
+
+// Same grouping as songKey in the insights, for songs that aren't memories yet
+const keyOf = (song: UserSongInput) => `${normalizeName(song.artist)}\u0000${normalizeName(song.title)}`;
+
+// 0–1: the distance between the two moods across the whole valence × energy
+// square, averaged with the tag overlap when tags are picked
+const closeness = (memory: Memory, moodScore: number, energy: number, tags: string[]): number => {
+  const scoreFit = 1 - Math.hypot(memory.moodScore - moodScore, memory.energy - energy) / MAX_MOOD_DISTANCE;
+  if (tags.length === 0) return scoreFit;
+  const shared = memory.moodTags.filter((tag) => tags.includes(tag)).length;
+  const tagFit = shared / new Set([...memory.moodTags, ...tags]).size;
+  return (scoreFit + tagFit) / 2;
+};
+
+// A song ranks by its closest memory, plus the share of its memories the user
+// confirmed
+export const matchHistory = (memories: Memory[], moodScore: number, energy: number, tags: string[]): MoodMatch[] => {
+  const groups = new Map<string, Memory[]>();
+  for (const memory of memories) {
+    const key = keyOf(memory.song);
+    const group = groups.get(key);
+    if (group) group.push(memory);
+    else groups.set(key, [memory]);
+  }
+  return [...groups.values()]
+    .map((group): MoodMatch => {
+      const confirmed = group.filter((m) => m.userFeedback === "correct").length;
+      const fit = Math.max(...group.map((m) => closeness(m, moodScore, energy, tags)));
+      return {
+        song: group.reduce((latest, m) => (m.timestamp > latest.timestamp ? m : latest)).song,
+        count: group.length,
+        confirmed,
+        rank: fit + CONFIRMED_WEIGHT * (confirmed / group.length),
+      };
+    })
+    .sort((a, b) => b.rank - a.rank || b.count - a.count)
+    .slice(0, MAX_HISTORY_MATCHES);
+};
+
+// Rejects when the provider fails or has nothing to offer. Songs already in
+// the diary are dropped even if the model suggests them anyway.
+export const recommendNewSongs = async (
+  memories: Memory[],
+  moodScore: number,
+  energy: number,
+  tags: string[],
+  language: Language,
+  tagDefinitions: TagDefinition[]
+): Promise<SongRecommendation[]> => {
+  const known = new Map<string, UserSongInput>();
+  for (const memory of [...memories].sort((a, b) => b.timestamp - a.timestamp)) {
+    if (!known.has(keyOf(memory.song))) known.set(keyOf(memory.song), memory.song);
+  }
+
+  const suggestions = await recommendSongs({
+    lang: language,
+    count: AI_RECOMMENDATION_COUNT,
+    moodScore,
+    energy,
+    moodTags: tagLabels(tags, language, tagDefinitions),
+    favorites: matchHistory(memories, moodScore, energy, tags).map((match) => match.song),
+    exclude: [...known.values()].slice(0, MAX_EXCLUDED_IN_PROMPT),
+  });
+
+  const seen = new Set(known.keys());
+  return suggestions.filter((song) => {
+    const key = keyOf(song);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
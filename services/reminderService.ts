@@ -0,0 +1,38 @@
+import { Language } from "../types";
+import { translator } from "../i18n";
+
+// One notification at a time; a newer reminder replaces an unread one
+const REMINDER_TAG = "music-diary-reminder";
+
+export const remindersSupported = (): boolean => typeof Notification !== "undefined";
+
+// Asks the browser only while the user hasn't decided yet; resolves whether
+// reminders can be shown
+export const requestReminderPermission = async (): Promise<boolean> => {
+  if (!remindersSupported()) return false;
+  if (Notification.permission === "default") await Notification.requestPermission();
+  return Notification.permission === "granted";
+};
+
+// Today at `time` ("HH:MM") if that is still ahead, otherwise tomorrow
+export const nextReminderAt = (time: string, now: Date = new Date()): Date => {
+  const [hours, minutes] = time.split(":").map(Number);
+  const at = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours || 0, minutes || 0);
+  if (at.getTime() <= now.getTime()) at.setDate(at.getDate() + 1);
+  return at;
+};
+
+// Says nothing from the diary itself, since notifications show up over
+// other apps and on the lock screen
+export const showReminder = (language: Language, streak: number) => {
+  if (!remindersSupported() || Notification.permission !== "granted") return;
+  const t = translator(language, "reminder");
+  const notification = new Notification(t("title"), {
+    body: streak > 0 ? t("bodyStreak", { count: streak }) : t("body"),
+    tag: REMINDER_TAG,
+  });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
@@ -0,0 +1,37 @@
+import { Memory, MemoryRevision } from "../types";
+import { withAnalysis } from "./translationService";
+
+// Oldest revisions are dropped beyond this, so history can't grow without bound
+export const MAX_REVISIONS = 20;
+
+export type MemoryEdit = Pick<Memory, "content" | "moodScore" | "energy" | "moodTags" | "timestamp" | "song">;
+
+// Fields that a revision captures and a restore puts back
+export type MemoryVersion = MemoryEdit & Pick<Memory, "analysis" | "imageUrl" | "language">;
+
+const snapshot = (memory: Memory, editedAt: number): MemoryRevision => ({
+  editedAt,
+  content: memory.content,
+  moodScore: memory.moodScore,
+  energy: memory.energy,
+  moodTags: memory.moodTags,
+  timestamp: memory.timestamp,
+  song: memory.song,
+  analysis: memory.analysis,
+  imageUrl: memory.imageUrl,
+  language: memory.language,
+});
+
+// Applies a new version and pushes the current one onto the history
+export const reviseMemory = (memory: Memory, next: MemoryVersion, editedAt: number = Date.now()): Memory => {
+  const revisions = [...(memory.revisions ?? []), snapshot(memory, editedAt)].slice(-MAX_REVISIONS);
+  return { ...withAnalysis(memory, next.analysis), ...next, revisions };
+};
+
+// Restoring is itself a revision, so it can be undone the same way
+export const restoreRevision = (memory: Memory, editedAt: number): Memory => {
+  const revision = memory.revisions?.find((r) => r.editedAt === editedAt);
+  if (!revision) return memory;
+  const { editedAt: _, ...version } = revision;
+  return reviseMemory(memory, version);
+};
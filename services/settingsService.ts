@@ -0,0 +1,63 @@
+import { DiarySettings, TagDefinition, ArtistAlias } from "../types";
+import { loadSetting, saveSetting } from "./storageService";
+import { EMOTION_TAGS, mergeTags, withBuiltInLabels } from "./tagService";
+import { detectLanguage, isLanguage } from "../i18n";
+
+const SETTINGS_KEY = "settings";
+const TAGS_KEY = "tags";
+const ALIASES_KEY = "artistAliases";
+
+export const DEFAULT_SETTINGS: DiarySettings = {
+  maxTags: 3,
+  ai: {
+    // Without a bundled key there is nothing to call, so start offline
+    provider: process.env.API_KEY ? "gemini" : "offline",
+    model: "",
+    imageModel: "",
+    endpoint: "",
+    apiKey: "",
+  },
+  metadata: {
+    source: "none",
+    endpoint: "",
+  },
+  streaming: {
+    providers: ["youtube"],
+    customLabel: "",
+    customTemplate: "",
+  },
+  // Until one is picked, whatever the browser prefers
+  language: detectLanguage(),
+  autoTranslate: false,
+  autoLockMinutes: 5,
+  reminder: {
+    enabled: false,
+    time: "21:00",
+  },
+};
+
+// Saved settings may predate newer fields
+export const loadSettings = async (): Promise<DiarySettings> => {
+  const saved = await loadSetting<Partial<DiarySettings>>(SETTINGS_KEY);
+  return {
+    ...DEFAULT_SETTINGS,
+    ...saved,
+    ai: { ...DEFAULT_SETTINGS.ai, ...saved?.ai },
+    metadata: { ...DEFAULT_SETTINGS.metadata, ...saved?.metadata },
+    streaming: { ...DEFAULT_SETTINGS.streaming, ...saved?.streaming },
+    reminder: { ...DEFAULT_SETTINGS.reminder, ...saved?.reminder },
+    language: isLanguage(saved?.language) ? saved.language : DEFAULT_SETTINGS.language,
+  };
+};
+
+export const saveSettings = (settings: DiarySettings): Promise<void> => saveSetting(SETTINGS_KEY, settings);
+
+// Like every setting these belong to the open profile unless one is named
+export const loadTags = async (profileId?: string): Promise<TagDefinition[]> =>
+  mergeTags(withBuiltInLabels((await loadSetting<TagDefinition[]>(TAGS_KEY, profileId)) ?? []), EMOTION_TAGS);
+
+export const saveTags = (tags: TagDefinition[], profileId?: string): Promise<void> => saveSetting(TAGS_KEY, tags, profileId);
+
+export const loadAliases = async (): Promise<ArtistAlias[]> => (await loadSetting<ArtistAlias[]>(ALIASES_KEY)) ?? [];
+
+export const saveAliases = (aliases: ArtistAlias[]): Promise<void> => saveSetting(ALIASES_KEY, aliases);
@@ -0,0 +1,229 @@
+import { Memory, Language } from "../types";
+import { hasAnalysis } from "./analysisQueue";
+import { toDateInputValue } from "../utils/date";
+import { moodPointColor } from "./calendarService";
+import { formatDate, translator } from "../i18n";
+
+export type ShareFormat = "square" | "story";
+
+export const SHARE_SIZES: Record<ShareFormat, { width: number; height: number; artHeight: number }> = {
+  square: { width: 1080, height: 1080, artHeight: 420 },
+  story: { width: 1080, height: 1920, artHeight: 1000 },
+};
+
+export interface ShareCardOptions {
+  format: ShareFormat;
+  excerpt: string; // the part of the message to show; empty leaves it out
+  includeContent: boolean; // the diary text is private, so only on request
+  language: Language; // for the date; the message keeps its own language
+}
+
+// Sentence ends in both languages; the punctuation stays with its sentence
+export const splitSentences = (text: string): string[] =>
+  (text.match(/[^。！？!?.\n]+[。！？!?.]*["」』)）]*/g) ?? []).map((sentence) => sentence.trim()).filter(Boolean);
+
+// Whole sentences from the start, as many as fit
+export const defaultExcerpt = (sentences: string[], maxLength = 90): string[] => {
+  const picked: string[] = [];
+  for (const sentence of sentences) {
+    if (picked.length > 0 && [...picked, sentence].join(" ").length > maxLength) break;
+    picked.push(sentence);
+  }
+  return picked;
+};
+
+// Japanese and Chinese run together without spaces, so sentences are joined without one
+export const joinSentences = (sentences: string[], language: Language) =>
+  sentences.join(language === "ja" || language === "zh" ? "" : " ");
+
+const FONT = `"Zen Kaku Gothic New", "Hiragino Sans", "Noto Sans JP", "Noto Sans KR", "Noto Sans SC", sans-serif`;
+const PADDING = 72;
+
+const COLORS = {
+  background: "#fafaf9", // stone-50
+  track: "#e7e5e4", // stone-200
+  title: "#292524", // stone-800
+  body: "#57534e", // stone-600
+  muted: "#a8a29e", // stone-400
+  accent: "#fb923c", // orange-400
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    // Remote artwork would otherwise taint the canvas and block the export
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Artwork could not be loaded"));
+    image.src = url;
+  });
+
+// Latin words stay whole; anything else may break between characters
+const tokenize = (text: string) => text.match(/[A-Za-z0-9'’\-.,!?;:()"&]+\s*|\s+|./gu) ?? [];
+
+// Greedy line filling; the last line gets an ellipsis if text is left over
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\n+/)) {
+    let line = "";
+    for (const token of tokenize(paragraph)) {
+      if (ctx.measureText(line + token).width > maxWidth && line.trim()) {
+        lines.push(line.trimEnd());
+        line = token.trimStart();
+      } else {
+        line += token;
+      }
+    }
+    if (line.trim()) lines.push(line.trimEnd());
+  }
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, Math.max(0, maxLines));
+  if (kept.length > 0) {
+    let last = kept[kept.length - 1];
+    while (last && ctx.measureText(`${last}…`).width > maxWidth) last = last.slice(0, -1);
+    kept[kept.length - 1] = `${last}…`;
+  }
+  return kept;
+};
+
+// Scales the artwork to cover the area and crops the middle
+const drawCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.max(width / image.width, height / image.height);
+  const w = image.width * scale;
+  const h = image.height * scale;
+  ctx.drawImage(image, (width - w) / 2, (height - h) / 2, w, h);
+};
+
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number) => {
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + w, y, x + w, y + h, r);
+  ctx.arcTo(x + w, y + h, x, y + h, r);
+  ctx.arcTo(x, y + h, x, y, r);
+  ctx.arcTo(x, y, x + w, y, r);
+  ctx.closePath();
+};
+
+// Renders the card as a PNG. Artwork that can't be drawn leaves a plain
+// tinted area instead of failing the whole card.
+export const renderShareCard = async (memory: Memory, options: ShareCardOptions): Promise<Blob> => {
+  const { width, height, artHeight } = SHARE_SIZES[options.format];
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not available");
+
+  await document.fonts?.ready;
+
+  const analyzed = hasAnalysis(memory);
+  const moodColor = analyzed && memory.analysis.moodColor ? memory.analysis.moodColor : "#d6d3d1";
+
+  ctx.fillStyle = COLORS.background;
+  ctx.fillRect(0, 0, width, height);
+
+  // Artwork
+  ctx.fillStyle = moodColor;
+  ctx.fillRect(0, 0, width, artHeight);
+  if (memory.imageUrl) {
+    try {
+      drawCover(ctx, await loadImage(memory.imageUrl), width, artHeight);
+    } catch (e) {
+      console.warn("Sharing without artwork", e);
+    }
+  }
+
+  // Mood bar, as on the card: valence on top, energy below
+  const laneHeight = 7;
+  const barHeight = laneHeight * 2;
+  ctx.fillStyle = COLORS.track;
+  ctx.fillRect(0, artHeight, width, barHeight);
+  ctx.fillStyle = moodColor;
+  ctx.fillRect(0, artHeight, (width * (memory.moodScore + 50)) / 100, laneHeight);
+  ctx.fillStyle = moodPointColor(memory.moodScore, memory.energy);
+  ctx.fillRect(0, artHeight + laneHeight, (width * (memory.energy + 50)) / 100, laneHeight);
+
+  const textWidth = width - PADDING * 2;
+  const footerTop = height - PADDING - 28;
+  let y = artHeight + barHeight + 64;
+
+  ctx.textBaseline = "top";
+
+  // Date
+  ctx.fillStyle = COLORS.muted;
+  ctx.font = `500 28px ${FONT}`;
+  ctx.fillText(
+    formatDate(memory.timestamp, options.language, { year: "numeric", month: "long", day: "numeric" }),
+    PADDING,
+    y
+  );
+  y += 56;
+
+  // Song and artist
+  ctx.fillStyle = COLORS.title;
+  ctx.font = `700 60px ${FONT}`;
+  for (const line of wrapText(ctx, memory.song.title, textWidth, 2)) {
+    ctx.fillText(line, PADDING, y);
+    y += 74;
+  }
+  ctx.fillStyle = COLORS.body;
+  ctx.font = `500 36px ${FONT}`;
+  ctx.fillText(wrapText(ctx, memory.song.artist, textWidth, 1)[0] ?? "", PADDING, y);
+  y += 68;
+
+  // Emotion pill
+  if (analyzed && memory.analysis.inferredEmotion) {
+    ctx.font = `700 28px ${FONT}`;
+    const label = wrapText(ctx, memory.analysis.inferredEmotion, textWidth - 56, 1)[0] ?? "";
+    const pillWidth = ctx.measureText(label).width + 56;
+    ctx.fillStyle = moodColor;
+    ctx.globalAlpha = 0.2;
+    roundedRect(ctx, PADDING, y, pillWidth, 56, 28);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = COLORS.title;
+    ctx.fillText(label, PADDING + 28, y + 14);
+    y += 96;
+  }
+
+  // Message excerpt, then the diary if asked for, in whatever room is left
+  const drawBlock = (text: string, font: string, lineHeight: number, color: string, indent = 0) => {
+    ctx.font = font;
+    ctx.fillStyle = color;
+    const lines = wrapText(ctx, text, textWidth - indent, Math.floor((footerTop - 24 - y) / lineHeight));
+    for (const line of lines) {
+      ctx.fillText(line, PADDING + indent, y);
+      y += lineHeight;
+    }
+    if (lines.length > 0) y += 32;
+    return lines.length;
+  };
+
+  if (options.excerpt.trim()) {
+    // Quoted the way the message itself was written
+    const quoted = translator(memory.language ?? "ja", "shareCard")("quote", { text: options.excerpt.trim() });
+    drawBlock(quoted, `500 34px ${FONT}`, 54, COLORS.body);
+  }
+  if (options.includeContent && memory.content.trim()) {
+    const top = y;
+    const lineCount = drawBlock(memory.content.trim(), `400 30px ${FONT}`, 48, COLORS.muted, 28);
+    if (lineCount > 0) {
+      ctx.fillStyle = COLORS.accent;
+      ctx.fillRect(PADDING, top, 6, lineCount * 48 - 12);
+    }
+  }
+
+  // Footer
+  ctx.font = `700 28px ${FONT}`;
+  ctx.fillStyle = COLORS.accent;
+  ctx.textAlign = "right";
+  ctx.fillText("MusicDiary", width - PADDING, footerTop);
+  ctx.textAlign = "left";
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("The card could not be encoded"))), "image/png")
+  );
+};
+
+export const shareFileName = (memory: Memory, format: ShareFormat) =>
+  `music-diary-${toDateInputValue(new Date(memory.timestamp))}-${format}.png`;
@@ -0,0 +1,86 @@
+import { Memory, Language, TagDefinition, UserSongInput } from "../types";
+import { normalizeName, tagFrequency, songRanking, byPlayCount, TagCount, MoodRanking } from "./insightsService";
+import { formatScore } from "./recapService";
+import { tagLabel } from "./tagService";
+import { emotionIn } from "./translationService";
+import { writeSongStory } from "./aiService";
+import { SongStoryRequest, promptLocale } from "./ai/prompts";
+import { formatDate, formatMessage, interpolate } from "../i18n";
+
+// Long histories are sampled for the prompt, evenly across time so early and
+// late entries both make it in
+const MAX_STORY_ENTRIES = 40;
+
+export type HistorySubject =
+  | { kind: "song"; title: string; artist: string }
+  | { kind: "artist"; artist: string };
+
+export const songSubject = (song: UserSongInput): HistorySubject => ({ kind: "song", title: song.title, artist: song.artist });
+
+export const artistSubject = (artist: string): HistorySubject => ({ kind: "artist", artist });
+
+// Matched the way the insight rankings group, so the counts agree
+export const matchesSubject = (memory: Memory, subject: HistorySubject): boolean =>
+  normalizeName(memory.song.artist) === normalizeName(subject.artist) &&
+  (subject.kind === "artist" || normalizeName(memory.song.title) === normalizeName(subject.title));
+
+export interface SongHistory {
+  memories: Memory[]; // oldest first
+  averageMood: number;
+  averageEnergy: number;
+  tags: TagCount[];
+  songs: MoodRanking[]; // most recorded first; one entry for a song page
+}
+
+export const songHistory = (memories: Memory[], subject: HistorySubject): SongHistory => {
+  const matching = memories.filter((m) => matchesSubject(m, subject)).sort((a, b) => a.timestamp - b.timestamp);
+  return {
+    memories: matching,
+    averageMood: matching.length ? matching.reduce((sum, m) => sum + m.moodScore, 0) / matching.length : 0,
+    averageEnergy: matching.length ? matching.reduce((sum, m) => sum + m.energy, 0) / matching.length : 0,
+    tags: tagFrequency(matching),
+    songs: songRanking(matching).sort(byPlayCount),
+  };
+};
+
+const sample = <T>(items: T[], max: number): T[] =>
+  items.length <= max ? items : Array.from({ length: max }, (_, i) => items[Math.round((i * (items.length - 1)) / (max - 1))]);
+
+const toSongStoryRequest = (history: SongHistory, subject: HistorySubject, language: Language, tags: TagDefinition[]): SongStoryRequest => {
+  const locale = promptLocale(language);
+  const items = locale.recapItems;
+  const day = (timestamp: number) => formatDate(timestamp, language, { year: "numeric", month: "long", day: "numeric" });
+
+  return {
+    lang: language,
+    subject: subject.kind === "song" ? interpolate(locale.songStorySubject, { title: subject.title, artist: subject.artist }) : subject.artist,
+    isArtist: subject.kind === "artist",
+    memoryCount: history.memories.length,
+    firstDate: day(history.memories[0].timestamp),
+    lastDate: day(history.memories[history.memories.length - 1].timestamp),
+    averageMood: history.averageMood,
+    averageEnergy: history.averageEnergy,
+    entries: sample(history.memories, MAX_STORY_ENTRIES).map((m) => {
+      const emotion = emotionIn(m, language);
+      return interpolate(items.highlight, {
+        date: day(m.timestamp),
+        title: m.song.title,
+        artist: m.song.artist,
+        score: formatScore(m.moodScore),
+        emotion: emotion ? interpolate(items.highlightEmotion, { emotion }) : "",
+      });
+    }),
+    topTags: history.tags.slice(0, 5).map(({ tag, count }) =>
+      interpolate(items.counted, { label: tagLabel(tag, language, tags), times: formatMessage(language, items.times, { count }) })
+    ),
+    emotions: [...new Set(history.memories.map((m) => emotionIn(m, language)).filter(Boolean))],
+  };
+};
+
+// Rejects if the summary could not be written
+export const writeSongSummary = (
+  history: SongHistory,
+  subject: HistorySubject,
+  language: Language,
+  tags: TagDefinition[]
+): Promise<string> => writeSongStory(toSongStoryRequest(history, subject, language, tags));
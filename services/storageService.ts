@@ -0,0 +1,632 @@
+import { Memory, Recap } from "../types";
+import { toTagIds } from "./tagService";
+import { isLegacyFallback, queueAnalysis, PENDING_ANALYSIS } from "./analysisQueue";
+import { withEnergy } from "./moodService";
+import { KeyParams, Sealed, newKeyParams, deriveKey, seal, unseal, sealJson, unsealJson, sealCheck, matchesCheck } from "./cryptoService";
+
+const DB_NAME = "music_diary";
+const MEMORY_STORE = "memories";
+const IMAGE_STORE = "images";
+const SETTINGS_STORE = "settings";
+const RECAP_STORE = "recaps";
+
+// Each profile is a database of its own; the first one keeps the original
+// name, so a diary from before profiles is simply the default profile
+export const DEFAULT_PROFILE_ID = "default";
+
+// Key of the lock setting, present while the diary is protected by a passphrase
+const LOCK_KEY = "lock";
+
+// Everything lived under this single localStorage key before the IndexedDB move
+const LEGACY_STORAGE_KEY = "music_diary_data_v1";
+
+// Images are kept as Blobs in their own store. On the stored record every
+// image URL is either IMAGE_REF + image id or a remote URL.
+const IMAGE_REF = "idb-image:";
+
+type StoredMemory = Memory;
+
+interface StoredImage {
+  id: string;
+  blob: Blob;
+}
+
+// With the lock on, memory and recap records keep only their id in the clear,
+// and images their id and type
+interface SealedRecord {
+  id: string;
+  sealed: Sealed;
+}
+
+interface SealedImage {
+  id: string;
+  sealed: Sealed;
+  type: string;
+}
+
+// Salt and iterations for the passphrase, and a check to verify it against
+interface LockConfig extends KeyParams {
+  check: Sealed;
+}
+
+export class DiaryLockedError extends Error {
+  constructor() {
+    super("The diary is locked");
+    this.name = "DiaryLockedError";
+  }
+}
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// MIGRATIONS[n] upgrades the database from schema version n to n + 1.
+// Steps that have shipped must never change; append a new one instead.
+const MIGRATIONS: Migration[] = [
+  // v1: separate memory and image stores, one-time import of the localStorage data
+  (db, tx) => {
+    db.createObjectStore(MEMORY_STORE, { keyPath: "id" });
+    db.createObjectStore(IMAGE_STORE, { keyPath: "id" });
+    importLegacyData(tx);
+  },
+  // v2: image pointers move from `imageId` into the URL fields themselves,
+  // so revisions can carry images too
+  (_db, tx) => {
+    updateEach(tx.objectStore(MEMORY_STORE), (record) => {
+      const { imageId, ...memory } = record as StoredMemory & { imageId?: string };
+      return imageId ? { ...memory, imageUrl: IMAGE_REF + imageId } : null;
+    });
+  },
+  // v3: moodTags hold tag ids instead of the label in the UI language of the day
+  (_db, tx) => {
+    updateEach(tx.objectStore(MEMORY_STORE), (record) => {
+      const memory = record as StoredMemory;
+      return {
+        ...memory,
+        moodTags: toTagIds(memory.moodTags ?? []),
+        ...(memory.revisions && {
+          revisions: memory.revisions.map((revision) => ({ ...revision, moodTags: toTagIds(revision.moodTags ?? []) })),
+        }),
+      };
+    });
+  },
+  // v4: key-value store for per-diary settings and the user's tag list
+  (db) => {
+    db.createObjectStore(SETTINGS_STORE);
+  },
+  // v5: failed requests used to be saved as a canned analysis or an empty
+  // image; queue them to be redone instead
+  (_db, tx) => {
+    updateEach(tx.objectStore(MEMORY_STORE), (record) => {
+      const memory = record as StoredMemory;
+      if (isLegacyFallback(memory.analysis)) {
+        return queueAnalysis({ ...memory, analysis: PENDING_ANALYSIS }, ["analysis", "image"], 0);
+      }
+      return memory.imageUrl === "" ? queueAnalysis(memory, ["image"], 0) : null;
+    });
+  },
+  // v6: monthly and yearly recaps, one record per period
+  (db) => {
+    db.createObjectStore(RECAP_STORE, { keyPath: "id" });
+  },
+  // v7: mood gains an energy axis next to the score, which becomes the valence
+  (_db, tx) => {
+    updateEach(tx.objectStore(MEMORY_STORE), (record) => {
+      const memory = withEnergy(record as StoredMemory);
+      return { ...memory, ...(memory.revisions && { revisions: memory.revisions.map(withEnergy) }) };
+    });
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+// Open connections by database name; storage calls go to the active profile
+const connections = new Map<string, Promise<IDBDatabase>>();
+let activeProfile = DEFAULT_PROFILE_ID;
+let legacyImported = false;
+
+// Image ids present in the image store, the object URL handed out for each,
+// and every URL (object or data:) already known to be stored. The last one
+// lets saveMemories skip re-encoding images that have not changed.
+const storedImageIds = new Set<string>();
+const objectUrls = new Map<string, string>();
+const imageIdsByUrl = new Map<string, string>();
+
+// Everything below is about the active profile's database and is reset when
+// another profile is opened.
+// Undefined until read; null when the diary has no lock. The key is only
+// held in memory, between unlocking and locking again.
+let lockConfig: LockConfig | null | undefined;
+let sessionKey: CryptoKey | null = null;
+
+// Writes run one at a time: each one encrypts before opening its transaction,
+// and an older memory list must never land after a newer one
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+const serialized = <T>(write: () => Promise<T>): Promise<T> => {
+  const result = writeQueue.then(write);
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+
+// For migrations: rewrites every record in the store; fn returns null to leave one as is
+const updateEach = (store: IDBObjectStore, fn: (record: unknown) => unknown | null) => {
+  store.openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    const updated = fn(cursor.value);
+    if (updated !== null) cursor.update(updated);
+    cursor.continue();
+  };
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data] = dataUrl.split(",", 2);
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || "application/octet-stream";
+  if (!header.includes(";base64")) {
+    return new Blob([decodeURIComponent(data)], { type: mimeType });
+  }
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException &&
+  (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED");
+
+function importLegacyData(tx: IDBTransaction) {
+  // Only the default profile existed back then
+  if (tx.db.name !== DB_NAME) return;
+  let raw: string | null = null;
+  try {
+    raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+  } catch (e) {
+    console.error("localStorage is not available", e);
+  }
+  if (!raw) return;
+
+  let legacy: unknown;
+  try {
+    legacy = JSON.parse(raw);
+  } catch (e) {
+    // Leave the original in place so nothing is lost
+    console.error("Failed to parse legacy memories", e);
+    return;
+  }
+  if (!Array.isArray(legacy)) return;
+
+  const memoryStore = tx.objectStore(MEMORY_STORE);
+  const imageStore = tx.objectStore(IMAGE_STORE);
+  for (const memory of legacy as Memory[]) {
+    if (!memory || typeof memory.id !== "string") continue;
+    const { imageUrl, ...rest } = memory;
+    const record: StoredMemory & { imageId?: string } = rest;
+    // Written in the v1 shape; the v2 step rewrites it like every other record
+    if (imageUrl?.startsWith("data:")) {
+      const image: StoredImage = { id: memory.id, blob: dataUrlToBlob(imageUrl) };
+      imageStore.put(image);
+      record.imageId = memory.id;
+    } else if (imageUrl) {
+      record.imageUrl = imageUrl;
+    }
+    memoryStore.put(record);
+  }
+  legacyImported = true;
+}
+
+const databaseName = (profileId: string) => (profileId === DEFAULT_PROFILE_ID ? DB_NAME : `${DB_NAME}:${profileId}`);
+
+const openDatabase = (profileId: string = activeProfile): Promise<IDBDatabase> => {
+  const name = databaseName(profileId);
+  let connection = connections.get(name);
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, SCHEMA_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        for (let version = event.oldVersion; version < SCHEMA_VERSION; version++) {
+          MIGRATIONS[version](db, tx);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema or deleted the profile; let it
+        // proceed and reopen on next use
+        db.onversionchange = () => {
+          db.close();
+          connections.delete(name);
+        };
+        if (legacyImported) {
+          localStorage.removeItem(LEGACY_STORAGE_KEY);
+          legacyImported = false;
+        }
+        // Ask the browser not to evict the diary under storage pressure
+        navigator.storage?.persist?.().catch(() => undefined);
+        resolve(db);
+      };
+
+      request.onerror = () => {
+        connections.delete(name);
+        reject(request.error);
+      };
+    });
+    connections.set(name, connection);
+  }
+  return connection;
+};
+
+// Calls fn for every image a memory carries (cover, gallery and revisions),
+// replacing each URL with fn's result.
+export const mapMemoryImages = (memory: Memory, fn: (url: string) => string): Memory => {
+  const mapped: Memory = { ...memory };
+  if (memory.imageUrl) mapped.imageUrl = fn(memory.imageUrl);
+  if (memory.imageVariants) {
+    mapped.imageVariants = memory.imageVariants.map((variant) => ({ ...variant, url: fn(variant.url) }));
+  }
+  if (memory.revisions) {
+    mapped.revisions = memory.revisions.map((revision) =>
+      revision.imageUrl ? { ...revision, imageUrl: fn(revision.imageUrl) } : revision
+    );
+  }
+  return mapped;
+};
+
+let imageCounter = 0;
+
+// Blobs are never overwritten in place: an older revision may still point at one
+const newImageId = (memoryId: string) => `${memoryId}/${Date.now().toString(36)}-${imageCounter++}`;
+
+// Replaces data: URLs and our own object URLs with IMAGE_REF pointers,
+// adding images not stored yet to `newImages`. `written` collects the new
+// url -> image id pairs so identical URLs within one save share a blob.
+// `stored` maps the URLs already in the target database.
+function toStoredMemory(
+  memory: Memory,
+  newImages: StoredImage[],
+  written: Map<string, string>,
+  stored: Map<string, string> = imageIdsByUrl
+): StoredMemory {
+  return mapMemoryImages(memory, (url) => {
+    const known = stored.get(url) ?? written.get(url);
+    if (known) return IMAGE_REF + known;
+    if (!url.startsWith("data:")) return url;
+    const image: StoredImage = { id: newImageId(memory.id), blob: dataUrlToBlob(url) };
+    newImages.push(image);
+    written.set(url, image.id);
+    return IMAGE_REF + image.id;
+  });
+}
+
+const collectImageRefs = (record: StoredMemory, refs: Set<string>) => {
+  mapMemoryImages(record, (url) => {
+    if (url.startsWith(IMAGE_REF)) refs.add(url.slice(IMAGE_REF.length));
+    return url;
+  });
+};
+
+const objectUrlFor = (imageId: string, blob: Blob): string => {
+  const existing = objectUrls.get(imageId);
+  if (existing) return existing;
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(imageId, url);
+  imageIdsByUrl.set(url, imageId);
+  return url;
+};
+
+const forgetImage = (imageId: string) => {
+  const url = objectUrls.get(imageId);
+  if (url) URL.revokeObjectURL(url);
+  objectUrls.delete(imageId);
+  for (const [knownUrl, id] of imageIdsByUrl) {
+    if (id === imageId) imageIdsByUrl.delete(knownUrl);
+  }
+  storedImageIds.delete(imageId);
+};
+
+const readLockConfig = async (): Promise<LockConfig | null> => {
+  if (lockConfig === undefined) lockConfig = (await loadSetting<LockConfig>(LOCK_KEY)) ?? null;
+  return lockConfig;
+};
+
+// What records are sealed with: null while there is no lock. Throws while
+// the diary is locked, so nothing is ever read garbled or written in the clear.
+const currentKey = async (): Promise<CryptoKey | null> => {
+  if (!(await readLockConfig())) return null;
+  if (!sessionKey) throw new DiaryLockedError();
+  return sessionKey;
+};
+
+const sealRecord = async <T extends { id: string }>(record: T, key: CryptoKey | null): Promise<T | SealedRecord> =>
+  key ? { id: record.id, sealed: await sealJson(key, record) } : record;
+
+const openRecord = async <T>(record: T | SealedRecord, key: CryptoKey | null): Promise<T> => {
+  if (!(record as SealedRecord).sealed) return record as T;
+  if (!key) throw new DiaryLockedError();
+  return unsealJson<T>(key, (record as SealedRecord).sealed);
+};
+
+const sealImage = async (image: StoredImage, key: CryptoKey | null): Promise<StoredImage | SealedImage> =>
+  key ? { id: image.id, sealed: await seal(key, await image.blob.arrayBuffer()), type: image.blob.type } : image;
+
+const openImage = async (image: StoredImage | SealedImage, key: CryptoKey | null): Promise<Blob> => {
+  if (!("sealed" in image)) return image.blob;
+  if (!key) throw new DiaryLockedError();
+  return new Blob([await unseal(key, image.sealed)], { type: image.type });
+};
+
+// Rejects with DiaryLockedError until unlockDiary succeeds
+export const loadMemories = async (): Promise<Memory[]> => {
+  const db = await openDatabase();
+  const key = await currentKey();
+  const tx = db.transaction([MEMORY_STORE, IMAGE_STORE], "readonly");
+  const [stored, images] = await Promise.all([
+    promisify(tx.objectStore(MEMORY_STORE).getAll() as IDBRequest<(StoredMemory | SealedRecord)[]>),
+    promisify(tx.objectStore(IMAGE_STORE).getAll() as IDBRequest<(StoredImage | SealedImage)[]>),
+  ]);
+  const [records, blobList] = await Promise.all([
+    Promise.all(stored.map((record) => openRecord<StoredMemory>(record, key))),
+    Promise.all(images.map((image) => openImage(image, key))),
+  ]);
+
+  const blobs = new Map(images.map((image, i) => [image.id, blobList[i]]));
+  images.forEach((image) => storedImageIds.add(image.id));
+  return records
+    .map((record) =>
+      mapMemoryImages(record, (url) => {
+        if (!url.startsWith(IMAGE_REF)) return url;
+        const imageId = url.slice(IMAGE_REF.length);
+        const blob = blobs.get(imageId);
+        return blob ? objectUrlFor(imageId, blob) : "";
+      })
+    )
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Writes the full list: upserts every memory, removes records that are no
+// longer present and any image nothing refers to any more. Rejects with a
+// DOMException on failure; check it with isQuotaError. While the diary is
+// locked it rejects with DiaryLockedError and leaves everything as it was.
+export const saveMemories = (memories: Memory[]): Promise<void> =>
+  serialized(async () => {
+    const db = await openDatabase();
+    const key = await currentKey();
+
+    const written = new Map<string, string>();
+    const newImages: StoredImage[] = [];
+    const referenced = new Set<string>();
+    const records = memories.map((memory) => {
+      const record = toStoredMemory(memory, newImages, written);
+      collectImageRefs(record, referenced);
+      return record;
+    });
+    // Sealed up front: a transaction left waiting on WebCrypto commits early
+    const [memoryRecords, imageRecords] = await Promise.all([
+      Promise.all(records.map((record) => sealRecord(record, key))),
+      Promise.all(newImages.map((image) => sealImage(image, key))),
+    ]);
+
+    const tx = db.transaction([MEMORY_STORE, IMAGE_STORE], "readwrite");
+    const done = transactionDone(tx);
+    const memoryStore = tx.objectStore(MEMORY_STORE);
+    const imageStore = tx.objectStore(IMAGE_STORE);
+
+    const keep = new Set(memories.map((m) => m.id));
+    memoryStore.getAllKeys().onsuccess = (event) => {
+      for (const key of (event.target as IDBRequest<IDBValidKey[]>).result) {
+        if (typeof key === "string" && !keep.has(key)) memoryStore.delete(key);
+      }
+    };
+
+    imageRecords.forEach((image) => imageStore.put(image));
+    memoryRecords.forEach((record) => memoryStore.put(record));
+
+    const orphaned = [...storedImageIds].filter((imageId) => !referenced.has(imageId));
+    orphaned.forEach((imageId) => imageStore.delete(imageId));
+
+    await done;
+
+    for (const [url, imageId] of written) {
+      imageIdsByUrl.set(url, imageId);
+      storedImageIds.add(imageId);
+    }
+    orphaned.forEach(forgetImage);
+  });
+
+// Settings are per profile; pass a profile id to reach one that isn't open
+export const loadSetting = async <T>(key: string, profileId?: string): Promise<T | undefined> => {
+  const db = await openDatabase(profileId);
+  const tx = db.transaction(SETTINGS_STORE, "readonly");
+  return promisify(tx.objectStore(SETTINGS_STORE).get(key) as IDBRequest<T | undefined>);
+};
+
+export const saveSetting = async <T>(key: string, value: T, profileId?: string): Promise<void> => {
+  const db = await openDatabase(profileId);
+  const tx = db.transaction(SETTINGS_STORE, "readwrite");
+  tx.objectStore(SETTINGS_STORE).put(value, key);
+  await transactionDone(tx);
+};
+
+// Letters quote the diary, so they are sealed like the memories
+export const loadRecaps = async (): Promise<Recap[]> => {
+  const db = await openDatabase();
+  const key = await currentKey();
+  const tx = db.transaction(RECAP_STORE, "readonly");
+  const stored = await promisify(tx.objectStore(RECAP_STORE).getAll() as IDBRequest<(Recap | SealedRecord)[]>);
+  const recaps = await Promise.all(stored.map((record) => openRecord<Recap>(record, key)));
+  return recaps.sort((a, b) => b.start - a.start || a.period.localeCompare(b.period));
+};
+
+// Replaces any earlier recap of the same period
+export const saveRecap = (recap: Recap): Promise<void> =>
+  serialized(async () => {
+    const db = await openDatabase();
+    const record = await sealRecord(recap, await currentKey());
+    const tx = db.transaction(RECAP_STORE, "readwrite");
+    tx.objectStore(RECAP_STORE).put(record);
+    await transactionDone(tx);
+  });
+
+export const deleteRecap = (id: string): Promise<void> =>
+  serialized(async () => {
+    const db = await openDatabase();
+    const tx = db.transaction(RECAP_STORE, "readwrite");
+    tx.objectStore(RECAP_STORE).delete(id);
+    await transactionDone(tx);
+  });
+
+export const isLockEnabled = async (profileId: string = activeProfile): Promise<boolean> =>
+  (profileId === activeProfile ? await readLockConfig() : await loadSetting<LockConfig>(LOCK_KEY, profileId)) != null;
+
+const checkPassphrase = async (config: LockConfig, passphrase: string): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, config);
+  return (await matchesCheck(key, config.check)) ? key : null;
+};
+
+// Resolves false for a wrong passphrase
+export const unlockDiary = async (passphrase: string): Promise<boolean> => {
+  const config = await readLockConfig();
+  if (!config) return true;
+  const key = await checkPassphrase(config, passphrase);
+  if (key) sessionKey = key;
+  return key !== null;
+};
+
+// Forgets the key and every decrypted image; the caller drops its own copy
+// of the memories and recaps
+export const lockDiary = () => {
+  sessionKey = null;
+  objectUrls.forEach((url) => URL.revokeObjectURL(url));
+  objectUrls.clear();
+  imageIdsByUrl.clear();
+  storedImageIds.clear();
+};
+
+// Rewrites every memory, image and recap under the next key (or in the
+// clear), together with the lock setting, in a single transaction so a
+// failure leaves the diary as it was
+const resealAll = (next: { config: LockConfig; key: CryptoKey } | null): Promise<void> =>
+  serialized(async () => {
+    const db = await openDatabase();
+    const key = await currentKey();
+    const nextKey = next?.key ?? null;
+
+    const readTx = db.transaction([MEMORY_STORE, IMAGE_STORE, RECAP_STORE], "readonly");
+    const [memories, images, recaps] = await Promise.all([
+      promisify(readTx.objectStore(MEMORY_STORE).getAll() as IDBRequest<(StoredMemory | SealedRecord)[]>),
+      promisify(readTx.objectStore(IMAGE_STORE).getAll() as IDBRequest<(StoredImage | SealedImage)[]>),
+      promisify(readTx.objectStore(RECAP_STORE).getAll() as IDBRequest<(Recap | SealedRecord)[]>),
+    ]);
+    const [memoryRecords, imageRecords, recapRecords] = await Promise.all([
+      Promise.all(memories.map(async (record) => sealRecord(await openRecord<StoredMemory>(record, key), nextKey))),
+      Promise.all(images.map(async (image) => sealImage({ id: image.id, blob: await openImage(image, key) }, nextKey))),
+      Promise.all(recaps.map(async (record) => sealRecord(await openRecord<Recap>(record, key), nextKey))),
+    ]);
+
+    const tx = db.transaction([MEMORY_STORE, IMAGE_STORE, RECAP_STORE, SETTINGS_STORE], "readwrite");
+    const done = transactionDone(tx);
+    memoryRecords.forEach((record) => tx.objectStore(MEMORY_STORE).put(record));
+    imageRecords.forEach((image) => tx.objectStore(IMAGE_STORE).put(image));
+    recapRecords.forEach((record) => tx.objectStore(RECAP_STORE).put(record));
+    if (next) {
+      tx.objectStore(SETTINGS_STORE).put(next.config, LOCK_KEY);
+    } else {
+      tx.objectStore(SETTINGS_STORE).delete(LOCK_KEY);
+    }
+    await done;
+
+    lockConfig = next?.config ?? null;
+    sessionKey = nextKey;
+  });
+
+// Turns the lock on, or moves an unlocked diary to a new passphrase
+export const enableLock = async (passphrase: string): Promise<void> => {
+  const params = newKeyParams();
+  const key = await deriveKey(passphrase, params);
+  await resealAll({ config: { ...params, check: await sealCheck(key) }, key });
+};
+
+// Both resolve false, changing nothing, when the current passphrase is wrong
+export const changePassphrase = async (current: string, next: string): Promise<boolean> => {
+  const config = await readLockConfig();
+  if (!config || !(await checkPassphrase(config, current))) return false;
+  await enableLock(next);
+  return true;
+};
+
+export const disableLock = async (current: string): Promise<boolean> => {
+  const config = await readLockConfig();
+  if (!config || !(await checkPassphrase(config, current))) return false;
+  await resealAll(null);
+  return true;
+};
+
+// Makes another profile the one every call above reads and writes. Waits for
+// pending writes, and leaves the new profile locked if it has a lock.
+export const openProfile = (profileId: string): Promise<void> =>
+  serialized(async () => {
+    lockDiary();
+    lockConfig = undefined;
+    activeProfile = profileId;
+  });
+
+// Adds memories to a profile that isn't open, replacing any with the same id.
+// Images must be data: or remote URLs, since object URLs belong to the open
+// profile. Resolves false, writing nothing, when that profile is locked and
+// the passphrase is missing or wrong.
+export const addToProfile = (profileId: string, memories: Memory[], passphrase?: string): Promise<boolean> =>
+  serialized(async () => {
+    const db = await openDatabase(profileId);
+    const config = (await loadSetting<LockConfig>(LOCK_KEY, profileId)) ?? null;
+    const key = config && passphrase ? await checkPassphrase(config, passphrase) : null;
+    if (config && !key) return false;
+
+    const written = new Map<string, string>();
+    const newImages: StoredImage[] = [];
+    const records = memories.map((memory) => toStoredMemory(memory, newImages, written, new Map()));
+    const [memoryRecords, imageRecords] = await Promise.all([
+      Promise.all(records.map((record) => sealRecord(record, key))),
+      Promise.all(newImages.map((image) => sealImage(image, key))),
+    ]);
+
+    const tx = db.transaction([MEMORY_STORE, IMAGE_STORE], "readwrite");
+    const done = transactionDone(tx);
+    imageRecords.forEach((image) => tx.objectStore(IMAGE_STORE).put(image));
+    memoryRecords.forEach((record) => tx.objectStore(MEMORY_STORE).put(record));
+    await done;
+    return true;
+  });
+
+// Removes a profile's database for good; never the open or the default one.
+// Resolves false, deleting nothing, when that profile is locked and the
+// passphrase is missing or wrong.
+export const deleteProfileData = (profileId: string, passphrase?: string): Promise<boolean> =>
+  serialized(async () => {
+    if (profileId === activeProfile || profileId === DEFAULT_PROFILE_ID) throw new Error(`Cannot delete profile ${profileId}`);
+    const config = (await loadSetting<LockConfig>(LOCK_KEY, profileId)) ?? null;
+    if (config && !(passphrase && (await checkPassphrase(config, passphrase)))) return false;
+
+    const name = databaseName(profileId);
+    const connection = connections.get(name);
+    connections.delete(name);
+    if (connection) (await connection.catch(() => null))?.close();
+    await promisify(indexedDB.deleteDatabase(name));
+    return true;
+  });
@@ -0,0 +1,32 @@
+import { Memory } from "../types";
+import { toDateInputValue, parseDateInput } from "../utils/date";
+
+export interface Streak {
+  current: number; // days in a row up to today, or up to yesterday while today is still open
+  longest: number;
+  recordedToday: boolean;
+}
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Counted by local calendar day of Memory.timestamp, so backfilled days count too
+export const computeStreak = (memories: Memory[], today: Date = new Date()): Streak => {
+  const days = new Set(memories.map((memory) => toDateInputValue(new Date(memory.timestamp))));
+  const recordedToday = days.has(toDateInputValue(today));
+
+  let current = 0;
+  for (let day = recordedToday ? today : addDays(today, -1); days.has(toDateInputValue(day)); day = addDays(day, -1)) {
+    current++;
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const key of [...days].sort()) {
+    run = previous !== null && toDateInputValue(addDays(parseDateInput(previous), 1)) === key ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = key;
+  }
+
+  return { current, longest, recordedToday };
+};
@@ -0,0 +1,126 @@
+import { UserSongInput, StreamingSettings, StreamingProviderId } from "../types";
+
+export interface StreamingLink {
+  provider: StreamingProviderId | null; // null: a track URL on a site we don't know
+  label: string;
+  url: string;
+}
+
+interface StreamingProvider {
+  label: string;
+  search: string; // URL template with {artist} and {title}
+  hosts: string[]; // to name the service behind a pasted track URL
+  trackId?: RegExp; // what a bare track ID looks like on this service
+  track?: (id: string) => string;
+}
+
+export const STREAMING_PROVIDERS: Record<Exclude<StreamingProviderId, "custom">, StreamingProvider> = {
+  youtube: {
+    label: "YouTube",
+    search: "https://www.youtube.com/results?search_query={artist}%20{title}",
+    hosts: ["youtube.com", "www.youtube.com", "m.youtube.com", "youtu.be"],
+    trackId: /^[\w-]{11}$/,
+    track: (id) => `https://www.youtube.com/watch?v=${id}`,
+  },
+  "youtube-music": {
+    label: "YouTube Music",
+    search: "https://music.youtube.com/search?q={artist}%20{title}",
+    hosts: ["music.youtube.com"],
+    trackId: /^[\w-]{11}$/,
+    track: (id) => `https://music.youtube.com/watch?v=${id}`,
+  },
+  spotify: {
+    label: "Spotify",
+    search: "https://open.spotify.com/search/{artist}%20{title}",
+    hosts: ["open.spotify.com"],
+    trackId: /^[0-9A-Za-z]{22}$/,
+    track: (id) => `https://open.spotify.com/track/${id}`,
+  },
+  "apple-music": {
+    label: "Apple Music",
+    search: "https://music.apple.com/search?term={artist}%20{title}",
+    hosts: ["music.apple.com"],
+    trackId: /^\d+$/,
+    track: (id) => `https://music.apple.com/song/${id}`,
+  },
+  "amazon-music": {
+    label: "Amazon Music",
+    search: "https://music.amazon.com/search/{artist}%20{title}",
+    hosts: ["music.amazon.com", "music.amazon.co.jp", "music.amazon.co.uk", "music.amazon.de"],
+    trackId: /^B0[0-9A-Z]{8}$/,
+    track: (id) => `https://music.amazon.com/tracks/${id}`,
+  },
+};
+
+export const STREAMING_PROVIDER_IDS = [...Object.keys(STREAMING_PROVIDERS), "custom"] as StreamingProviderId[];
+
+const fillTemplate = (template: string, song: UserSongInput) =>
+  template.replace(/\{artist\}/g, encodeURIComponent(song.artist)).replace(/\{title\}/g, encodeURIComponent(song.title));
+
+const isHttpUrl = (value: string) => /^https?:\/\//i.test(value);
+
+export const isValidTemplate = (template: string) =>
+  isHttpUrl(template.trim()) && /\{(artist|title)\}/.test(template);
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+};
+
+const customLabel = (settings: StreamingSettings) => settings.customLabel.trim() || hostOf(settings.customTemplate);
+
+// One search link per chosen service, in the order they were chosen.
+// A custom template without placeholders would open the same page for every song.
+export const searchLinks = (song: UserSongInput, settings: StreamingSettings): StreamingLink[] =>
+  settings.providers.flatMap((provider): StreamingLink[] => {
+    if (provider === "custom") {
+      return isValidTemplate(settings.customTemplate)
+        ? [{ provider, label: customLabel(settings), url: fillTemplate(settings.customTemplate.trim(), song) }]
+        : [];
+    }
+    const known = STREAMING_PROVIDERS[provider];
+    return known ? [{ provider, label: known.label, url: fillTemplate(known.search, song) }] : [];
+  });
+
+const providerForHost = (host: string) =>
+  (Object.keys(STREAMING_PROVIDERS) as (keyof typeof STREAMING_PROVIDERS)[]).find((id) => STREAMING_PROVIDERS[id].hosts.includes(host));
+
+// The saved track as a link: a pasted URL as is, a spotify: URI, or a bare
+// ID read against the chosen services in order. Null when nothing fits.
+export const trackLink = (song: UserSongInput, settings: StreamingSettings): StreamingLink | null => {
+  const reference = song.trackUrl?.trim();
+  if (!reference) return null;
+
+  if (isHttpUrl(reference)) {
+    const host = hostOf(reference);
+    if (!host) return null;
+    const provider = providerForHost(host);
+    return { provider: provider ?? null, label: provider ? STREAMING_PROVIDERS[provider].label : host, url: reference };
+  }
+
+  const spotifyUri = reference.match(/^spotify:track:([0-9A-Za-z]{22})$/);
+  if (spotifyUri) {
+    return { provider: "spotify", label: STREAMING_PROVIDERS.spotify.label, url: STREAMING_PROVIDERS.spotify.track!(spotifyUri[1]) };
+  }
+
+  for (const provider of settings.providers) {
+    const known = provider === "custom" ? undefined : STREAMING_PROVIDERS[provider];
+    if (known?.trackId?.test(reference) && known.track) {
+      return { provider, label: known.label, url: known.track(reference) };
+    }
+  }
+  return null;
+};
+
+// What the play button opens: the track itself when we can, otherwise a
+// search on the first service (YouTube if none is usable)
+export const primaryLink = (song: UserSongInput, settings: StreamingSettings): StreamingLink =>
+  trackLink(song, settings) ??
+  searchLinks(song, settings)[0] ?? {
+    provider: "youtube",
+    label: STREAMING_PROVIDERS.youtube.label,
+    url: fillTemplate(STREAMING_PROVIDERS.youtube.search, song),
+  };
@@ -0,0 +1,64 @@
+import { Language, TagDefinition } from "../types";
+
+// Universal emotion tags with IDs and translations
+export const EMOTION_TAGS: TagDefinition[] = [
+  { id: "relax", label: { ja: "リラックス", en: "Relax", ko: "릴랙스", zh: "放松" } },
+  { id: "focus", label: { ja: "集中", en: "Focus", ko: "집중", zh: "专注" } },
+  { id: "blue", label: { ja: "憂鬱", en: "Blue", ko: "우울", zh: "忧郁" } },
+  { id: "excited", label: { ja: "ワクワク", en: "Excited", ko: "설렘", zh: "兴奋" } },
+  { id: "nostalgic", label: { ja: "懐かしい", en: "Nostalgic", ko: "그리움", zh: "怀念" } },
+  { id: "determined", label: { ja: "決意", en: "Determined", ko: "결심", zh: "决心" } },
+  { id: "tired", label: { ja: "疲れた", en: "Tired", ko: "피곤함", zh: "疲惫" } },
+  { id: "grateful", label: { ja: "感謝", en: "Grateful", ko: "감사", zh: "感恩" } },
+  { id: "angry", label: { ja: "怒り", en: "Angry", ko: "분노", zh: "愤怒" } },
+  { id: "calm", label: { ja: "穏やか", en: "Calm", ko: "평온", zh: "平静" } },
+  { id: "lonely", label: { ja: "孤独", en: "Lonely", ko: "외로움", zh: "孤独" } },
+  { id: "accomplished", label: { ja: "達成感", en: "Accomplished", ko: "성취감", zh: "成就感" } },
+];
+
+// Memories store tag ids; anything that isn't a known id (e.g. an old label
+// that matched nothing) is shown as-is. Only ja and en are always filled in.
+export const tagLabel = (id: string, language: Language, tags: TagDefinition[] = EMOTION_TAGS): string => {
+  const label = tags.find((tag) => tag.id === id)?.label;
+  return label ? label[language] || label.en : id;
+};
+
+export const tagLabels = (ids: string[], language: Language, tags: TagDefinition[] = EMOTION_TAGS): string[] =>
+  ids.map((id) => tagLabel(id, language, tags));
+
+// Before tags were stored by id, moodTags held the label in whichever UI
+// language was active at the time. Maps either language's label back to its id.
+export const toTagId = (value: string, tags: TagDefinition[] = EMOTION_TAGS): string => {
+  if (tags.some((tag) => tag.id === value)) return value;
+  const normalized = value.trim().toLowerCase();
+  const match = tags.find(
+    (tag) => tag.label.ja === value.trim() || tag.label.en.toLowerCase() === normalized
+  );
+  return match ? match.id : value;
+};
+
+export const toTagIds = (values: string[], tags: TagDefinition[] = EMOTION_TAGS): string[] =>
+  [...new Set(values.map((value) => toTagId(value, tags)))];
+
+export const activeTags = (tags: TagDefinition[]): TagDefinition[] => tags.filter((tag) => !tag.archived);
+
+export const createTag = (label: TagDefinition["label"], color?: string): TagDefinition => ({
+  id: `custom-${Date.now().toString(36)}`,
+  label,
+  color,
+  custom: true,
+});
+
+// Tag lists saved before a language was added miss its built-in labels
+export const withBuiltInLabels = (tags: TagDefinition[]): TagDefinition[] =>
+  tags.map((tag) => {
+    const builtIn = EMOTION_TAGS.find((t) => t.id === tag.id);
+    return builtIn ? { ...tag, label: { ...builtIn.label, ...tag.label } } : tag;
+  });
+
+// Keeps the user's order and edits, appends built-in tags added since the
+// list was saved, and brings in unknown tags from elsewhere (e.g. a backup)
+export const mergeTags = (current: TagDefinition[], incoming: TagDefinition[]): TagDefinition[] => {
+  const known = new Set(current.map((tag) => tag.id));
+  return [...current, ...incoming.filter((tag) => !known.has(tag.id))];
+};
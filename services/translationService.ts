@@ -0,0 +1,35 @@
+import { Memory, AnalysisResult, AnalysisTranslation, Language } from "../types";
+import { translateAnalysis } from "./aiService";
+
+// Whether the analysis is in another language. memory.language follows the
+// analysis shown, not a re-analysis still queued. Memories from before the
+// language was saved can't say what to translate from, so they never are.
+export const needsTranslation = (memory: Memory, language: Language): boolean =>
+  memory.language !== undefined && memory.language !== language;
+
+export const cachedTranslation = (memory: Memory, language: Language): AnalysisTranslation | undefined =>
+  needsTranslation(memory, language) ? memory.translations?.[language] : undefined;
+
+// Translations belong to one analysis, so a new analysis starts without any
+export const withAnalysis = (memory: Memory, analysis: AnalysisResult): Memory => {
+  if (analysis === memory.analysis) return memory;
+  const { translations: _, ...rest } = memory;
+  return { ...rest, analysis };
+};
+
+// Caches a translation of `source`, unless the memory has been re-analyzed
+// since it was requested
+export const addTranslation = (memory: Memory, source: AnalysisResult, language: Language, translation: AnalysisTranslation): Memory =>
+  memory.analysis === source ? { ...memory, translations: { ...memory.translations, [language]: translation } } : memory;
+
+// Rejects when the provider fails or cannot translate
+export const translateMemory = (memory: Memory, language: Language): Promise<AnalysisTranslation> =>
+  translateAnalysis({
+    analysis: { inferredEmotion: memory.analysis.inferredEmotion, analysisText: memory.analysis.analysisText },
+    from: memory.language!,
+    to: language,
+  });
+
+// The emotion as it reads in `language`: the cached translation if there is one
+export const emotionIn = (memory: Memory, language: Language): string =>
+  cachedTranslation(memory, language)?.inferredEmotion ?? memory.analysis.inferredEmotion;
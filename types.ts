@@ -1,8 +1,80 @@
-export type Language = 'ja' | 'en';
+export type Language = 'ja' | 'en' | 'ko' | 'zh';
+
+export interface TagDefinition {
+  id: string;
+  label: { ja: string; en: string; ko?: string; zh?: string }; // ko・zh が空なら英語で表示
+  color?: string; // Hex code
+  archived?: boolean; // 新しい記録では選べないが、過去の記録には表示される
+  custom?: boolean; // ユーザーが作成したタグ
+}
+
+export type AiProviderId = 'gemini' | 'openai-compatible' | 'offline';
+
+export interface AiSettings {
+  provider: AiProviderId;
+  model: string; // 空ならプロバイダーの既定モデル
+  imageModel: string; // 空ならプロバイダーの既定（OpenAI互換では抽象画を生成）
+  endpoint: string; // OpenAI互換サーバーのベースURL
+  apiKey: string; // 空なら環境変数のキー（Gemini）
+}
+
+export type MetadataSourceId = 'none' | 'musicbrainz';
+
+export interface MetadataSettings {
+  source: MetadataSourceId; // none: 自分の記録だけから候補を出す
+  endpoint: string; // MusicBrainz互換APIのベースURL（空なら公式）
+}
+
+export type StreamingProviderId = 'youtube' | 'youtube-music' | 'spotify' | 'apple-music' | 'amazon-music' | 'custom';
+
+export interface StreamingSettings {
+  providers: StreamingProviderId[]; // 先頭が再生ボタンで開くサービス
+  customLabel: string;
+  customTemplate: string; // {artist}と{title}を含む検索URL
+}
+
+// 毎日の記録のリマインダー（アプリを開いている間だけ通知する）
+export interface ReminderSettings {
+  enabled: boolean;
+  time: string; // "HH:MM"、端末の時刻
+}
+
+export interface DiarySettings {
+  maxTags: number; // 1つの記録で選べるタグの数
+  ai: AiSettings;
+  metadata: MetadataSettings;
+  streaming: StreamingSettings;
+  language: Language; // 画面の言語
+  autoTranslate: boolean; // 画面の言語と違う分析を自動で翻訳する
+  autoLockMinutes: number; // 操作が無いとロックするまでの分数（0 は自動でロックしない、ロック有効時のみ）
+  reminder: ReminderSettings;
+}
 
 export interface UserSongInput {
   artist: string;
   title: string;
+  trackUrl?: string; // 曲そのもののURL、またはサービスの曲ID（無ければ検索を開く）
+}
+
+// 1つのインストールの中で別々に付ける日記（家族で共有する端末や、仕事用と個人用など）
+export interface Profile {
+  id: string;
+  name: string; // 空なら既定の名前を表示する
+  createdAt: number;
+}
+
+// 表記ゆれをまとめるための別名（例: "utada" → "宇多田ヒカル"）
+export interface ArtistAlias {
+  alias: string;
+  canonical: string;
+}
+
+// 曲名・アーティスト名の入力候補
+export interface SongSuggestion {
+  title?: string; // アーティストだけの候補では無し
+  artist: string;
+  source: 'history' | 'catalog';
+  count?: number; // 記録した回数（履歴からの候補）
 }
 
 export interface AnalysisResult {
@@ -12,15 +84,115 @@ export interface AnalysisResult {
   imagePrompt: string;
 }
 
+// AIが今の気分に合わせて薦める、まだ日記に無い曲
+export interface SongRecommendation {
+  title: string;
+  artist: string;
+  reason: string; // 気分に合う理由（画面の言語）
+}
+
+// 分析のうち、記録時と別の言語で読むために訳す部分
+export type AnalysisTranslation = Pick<AnalysisResult, 'inferredEmotion' | 'analysisText'>;
+
+export type AnalysisTask = 'analysis' | 'image';
+
+export type ArtStyleId = 'classic' | 'watercolor' | 'geometric' | 'photo' | 'pastel' | 'ink';
+
+// 生成したアートの1枚
+export interface ImageVariant {
+  url: string;
+  prompt: string; // 生成に使ったプロンプト（スタイルの指定は含まない）
+  style: ArtStyleId;
+  createdAt: number;
+}
+
+// 保存済みでまだAIの処理が終わっていない記録の状態
+export interface PendingAnalysis {
+  tasks: AnalysisTask[]; // 残っている処理（先頭から順に実行）
+  status: 'pending' | 'failed'; // failed: 自動再試行の上限に達した（手動で再試行）
+  attempts: number; // 失敗した回数
+  nextAttemptAt: number; // 次に自動で試す日時
+  lastError?: string;
+  image?: { prompt: string; style: ArtStyleId }; // アートの作り直し（無ければ分析のプロンプトと標準スタイル）
+  language?: Language; // この言語で分析し直す（届くまで memory.language は今の分析の言語のまま）
+}
+
+// 編集前のスナップショット
+export interface MemoryRevision {
+  editedAt: number; // このバージョンが置き換えられた日時
+  content: string;
+  moodScore: number;
+  energy: number;
+  moodTags: string[];
+  timestamp: number;
+  song: UserSongInput;
+  analysis: AnalysisResult;
+  imageUrl?: string;
+  language?: Language;
+}
+
 export interface Memory {
   id: string;
   content: string; // 日記の内容 (任意)
-  moodScore: number; // -50 (Cool/Sad) to +50 (Warm/Happy)
+  moodScore: number; // 気分の快・不快 (valence): -50 (Unpleasant) to +50 (Pleasant)
+  energy: number; // 気分の活性度 (arousal): -50 (Calm) to +50 (Energetic)
   moodTags: string[]; // 選択された感情タグ
   timestamp: number;
   song: UserSongInput; // ユーザーが入力した曲
   analysis: AnalysisResult; // AIによる分析結果
-  imageUrl?: string; // Base64 or URL
+  imageUrl?: string; // data URL (new) / object URL (IndexedDB) / remote URL
   userFeedback?: 'correct' | 'incorrect' | null; // ユーザーの自己判断 (〇/×)
-  language?: Language; // 記録時の言語
-}
\ No newline at end of file
+  userCorrection?: string; // ×のときにユーザーが書いた「本当の気持ち」
+  language?: Language; // 今の分析の言語（記録時の言語、分析し直したらその言語）
+  translations?: Partial<Record<Language, AnalysisTranslation>>; // 今の分析の翻訳キャッシュ（分析が変われば消える）
+  revisions?: MemoryRevision[]; // 過去のバージョン (古い順)
+  pending?: PendingAnalysis; // 無ければ分析・アートとも完了
+  imageVariants?: ImageVariant[]; // これまでに生成したアート (古い順、imageUrl が表紙)
+}
+
+export type RecapPeriod = 'month' | 'year';
+
+export interface RecapRanking {
+  label: string; // 曲名 または アーティスト名
+  sublabel?: string; // 曲の場合はアーティスト名
+  count: number;
+  averageMood: number;
+}
+
+// ムードの流れの1区間（月のまとめは週ごと、年のまとめは月ごと）
+export interface RecapArcPoint {
+  start: number; // 区間の初日
+  count: number;
+  averageMood: number | null; // 記録が無ければ null
+}
+
+export interface RecapHighlight {
+  memoryId: string;
+  timestamp: number;
+  moodScore: number;
+  song: UserSongInput;
+  emotion: string;
+}
+
+export interface RecapStats {
+  memoryCount: number;
+  averageMood: number;
+  averageEnergy?: number; // 平均の活性度 (エネルギー導入前の振り返りには無い)
+  topSongs: RecapRanking[];
+  topArtists: RecapRanking[];
+  topTags: { tag: string; count: number }[]; // タグID
+  moodArc: RecapArcPoint[];
+  highest?: RecapHighlight; // ムードスコアが最も高い日
+  lowest?: RecapHighlight; // 最も低い日
+}
+
+// 月・年ごとの振り返り
+export interface Recap {
+  id: string; // "month-2025-03" / "year-2025"
+  period: RecapPeriod;
+  start: number; // 期間の初日 (ローカル時刻の0時)
+  createdAt: number;
+  language: Language; // 手紙の言語
+  stats: RecapStats;
+  letter: string; // AIからの振り返りの手紙
+}
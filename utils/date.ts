@@ -0,0 +1,16 @@
+// Helpers for <input type="date"> values, which are local YYYY-MM-DD strings
+
+export const toDateInputValue = (date: Date) => {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export const getTodayString = () => toDateInputValue(new Date());
+
+// Local midnight of the given day
+export const parseDateInput = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};